@@ -1,5 +1,7 @@
 import type { OpenClawPluginApi } from "openclaw/plugin-sdk";
 import { handleServerChanBotWebhookRequest, serverChanBotPlugin } from "./src/channel.js";
+import { handleServerChanBotMetricsRequest } from "./src/metrics-route.js";
+import { handleServerChanBotPushRequest } from "./src/push-route.js";
 import { setServerChanBotRuntime } from "./src/runtime.js";
 
 const pluginConfigSchema = {
@@ -19,6 +21,8 @@ const plugin = {
         setServerChanBotRuntime(api.runtime);
         api.registerChannel({ plugin: serverChanBotPlugin });
         api.registerHttpHandler(handleServerChanBotWebhookRequest);
+        api.registerHttpHandler(handleServerChanBotMetricsRequest);
+        api.registerHttpHandler(handleServerChanBotPushRequest);
     },
 };
 
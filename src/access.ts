@@ -0,0 +1,136 @@
+/**
+ * Inbound access control for Server酱³ Bot
+ *
+ * Mirrors the dmPolicy semantics advertised by `security.resolveDmPolicy`:
+ * - "open": everyone may talk to the bot
+ * - "pairing": unknown senders receive a pairing code (default)
+ * - "allowlist": only configured / approved senders, others are dropped
+ * - "disabled": every inbound message is dropped
+ *
+ * Group and channel chats use `groupPolicy` with `groupAllowFrom` (group IDs,
+ * kept separate from the user IDs in `allowFrom`):
+ * - "allowlist": only listed groups (default)
+ * - "open": every group
+ * - "disabled": every group message is dropped
+ */
+
+export type ServerChanBotDmPolicy = "pairing" | "allowlist" | "open" | "disabled";
+
+export type ServerChanBotGroupPolicy = "allowlist" | "open" | "disabled";
+
+export type InboundAccessDecision = {
+    action: "allow" | "drop" | "pair";
+    reason: string;
+};
+
+const DM_POLICIES: ServerChanBotDmPolicy[] = ["pairing", "allowlist", "open", "disabled"];
+const GROUP_POLICIES: ServerChanBotGroupPolicy[] = ["allowlist", "open", "disabled"];
+
+export const normalizeAllowEntry = (entry: string) =>
+    entry.replace(/^serverchan(-bot)?:/i, "").trim();
+
+/**
+ * Normalize allowFrom entries for matching (prefix-free, lower-cased, "*" kept as-is)
+ */
+export function normalizeAllowList(entries: Array<string | number> | undefined): string[] {
+    return (entries ?? [])
+        .map((entry) => String(entry).trim())
+        .filter(Boolean)
+        .map((entry) => (entry === "*" ? entry : normalizeAllowEntry(entry).toLowerCase()))
+        .filter(Boolean);
+}
+
+export function resolveDmPolicy(raw: string | undefined): ServerChanBotDmPolicy {
+    const value = raw?.trim().toLowerCase();
+    return DM_POLICIES.find((policy) => policy === value) ?? "pairing";
+}
+
+export function resolveGroupPolicy(raw: string | undefined): ServerChanBotGroupPolicy {
+    const value = raw?.trim().toLowerCase();
+    return GROUP_POLICIES.find((policy) => policy === value) ?? "allowlist";
+}
+
+/**
+ * Decide whether a group or channel chat may reach the agent (no pairing in groups)
+ */
+export function resolveGroupAccess(params: {
+    groupPolicy?: string;
+    groupId: string;
+    groupAllowFrom?: Array<string | number>;
+}): InboundAccessDecision {
+    const policy = resolveGroupPolicy(params.groupPolicy);
+    if (policy === "disabled") {
+        return { action: "drop", reason: "groupPolicy=disabled" };
+    }
+    if (policy === "open") {
+        return { action: "allow", reason: "groupPolicy=open" };
+    }
+    const configured = normalizeAllowList(params.groupAllowFrom);
+    if (configured.includes("*")) {
+        return { action: "allow", reason: "groupPolicy=allowlist, groupAllowFrom wildcard" };
+    }
+    if (configured.includes(normalizeAllowEntry(params.groupId).toLowerCase())) {
+        return { action: "allow", reason: "groupPolicy=allowlist, group in groupAllowFrom" };
+    }
+    return { action: "drop", reason: "groupPolicy=allowlist, group not in groupAllowFrom" };
+}
+
+/**
+ * Whether a group member may run commands that act on the group's shared
+ * session (/reset): the account owner, or a sender listed in allowFrom or
+ * approved via pairing. dmPolicy "open" does not extend to groups.
+ */
+export function isServerChanBotCommandSender(params: {
+    senderId: string;
+    /** The account's chatId */
+    ownerId?: string;
+    allowFrom?: Array<string | number>;
+    storeAllowFrom?: string[];
+}): boolean {
+    const sender = normalizeAllowEntry(params.senderId).toLowerCase();
+    if (params.ownerId && normalizeAllowEntry(params.ownerId).toLowerCase() === sender) {
+        return true;
+    }
+    const configured = normalizeAllowList(params.allowFrom);
+    return (
+        configured.includes("*") ||
+        configured.includes(sender) ||
+        normalizeAllowList(params.storeAllowFrom).includes(sender)
+    );
+}
+
+/**
+ * Decide whether an inbound sender may reach the agent
+ */
+export function resolveInboundAccess(params: {
+    dmPolicy?: string;
+    senderId: string;
+    allowFrom?: Array<string | number>;
+    storeAllowFrom?: string[];
+}): InboundAccessDecision {
+    const policy = resolveDmPolicy(params.dmPolicy);
+    const sender = normalizeAllowEntry(params.senderId).toLowerCase();
+
+    if (policy === "disabled") {
+        return { action: "drop", reason: "dmPolicy=disabled" };
+    }
+    if (policy === "open") {
+        return { action: "allow", reason: "dmPolicy=open" };
+    }
+
+    const configured = normalizeAllowList(params.allowFrom);
+    if (configured.includes("*")) {
+        return { action: "allow", reason: `dmPolicy=${policy}, allowFrom wildcard` };
+    }
+    if (configured.includes(sender)) {
+        return { action: "allow", reason: `dmPolicy=${policy}, sender in allowFrom` };
+    }
+    if (normalizeAllowList(params.storeAllowFrom).includes(sender)) {
+        return { action: "allow", reason: `dmPolicy=${policy}, sender approved via pairing` };
+    }
+
+    if (policy === "pairing") {
+        return { action: "pair", reason: "dmPolicy=pairing, sender not approved" };
+    }
+    return { action: "drop", reason: "dmPolicy=allowlist, sender not in allowFrom" };
+}
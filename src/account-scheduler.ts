@@ -0,0 +1,77 @@
+/**
+ * Per-account wiring of the scheduler (see scheduler.ts) for Server酱³ Bot
+ *
+ * The push endpoint, the agent tool and a started account share one scheduler
+ * per account; its jobs are delivered through the account's outbound sends.
+ */
+
+import type { ResolvedServerChanBotAccount, ServerChanBotLog } from "./accounts.js";
+import { composePushMessage, sendServerChanBotChunks, sendServerChanBotSendKeyPush } from "./outbound.js";
+import { getServerChanBotScheduler } from "./scheduler.js";
+import type { ServerChanBotStatusPatch } from "./status-issues.js";
+
+/** Log and status sinks of started accounts, reused by the agent schedule tool */
+const schedulerSinks = new Map<
+    string,
+    { log?: ServerChanBotLog; statusSink?: (patch: ServerChanBotStatusPatch) => void }
+>();
+
+/**
+ * Scheduled messages of an account are delivered like pushes: through the
+ * outbound queue for bots, through the SendKey API for push-only accounts
+ */
+export function getAccountScheduler(
+    account: ResolvedServerChanBotAccount,
+    log?: ServerChanBotLog,
+    statusSink?: (patch: ServerChanBotStatusPatch) => void,
+) {
+    return getServerChanBotScheduler({
+        accountId: account.accountId,
+        log,
+        options: {
+            catchUp: account.config.scheduleCatchUp,
+            catchUpMaxAgeMs: account.config.scheduleCatchUpMaxAgeMs,
+            send: async (job) => {
+                if (account.type === "sendKey") {
+                    const messageId = await sendServerChanBotSendKeyPush({
+                        account,
+                        text: job.text,
+                        title: job.title,
+                        log,
+                    });
+                    statusSink?.({ lastOutboundAt: Date.now() });
+                    return { messageId };
+                }
+                const parseMode = job.parseMode ?? account.config.parseMode;
+                const sent = await sendServerChanBotChunks({
+                    account,
+                    chatId: job.chatId,
+                    text: composePushMessage(job.title, job.text, parseMode),
+                    parseMode,
+                    silent: job.silent,
+                    log,
+                });
+                statusSink?.({ lastOutboundAt: Date.now() });
+                return { messageId: sent[0] ? String(sent[0].message_id) : undefined };
+            },
+        },
+    });
+}
+
+/**
+ * Remember the sinks of a started account; the agent tool reports through them
+ */
+export function setAccountSchedulerSinks(
+    accountId: string,
+    sinks: { log?: ServerChanBotLog; statusSink?: (patch: ServerChanBotStatusPatch) => void },
+): void {
+    schedulerSinks.set(accountId, sinks);
+}
+
+/**
+ * Scheduler for the agent tool, logging through the running account when there is one
+ */
+export function getStartedAccountScheduler(account: ResolvedServerChanBotAccount) {
+    const sinks = schedulerSinks.get(account.accountId);
+    return getAccountScheduler(account, sinks?.log, sinks?.statusSink);
+}
@@ -0,0 +1,303 @@
+/**
+ * Account resolution for Server酱³ Bot
+ *
+ * Each account's options come from `channels.serverchan-bot.accounts.<id>`,
+ * falling back to the top-level `channels.serverchan-bot` section.
+ */
+
+import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
+import type { ServerChanBotRateLimitConfig } from "./rate-limit.js";
+import type { ServerChanBotReceiveMode } from "./receive-mode.js";
+import type { ServerChanBotCatchUpPolicy } from "./scheduler.js";
+import type { ServerChanBotParseMode } from "./send.js";
+import type { ServerChanBotSendRateConfig } from "./send-limiter.js";
+import type { ServerChanBotStreamMode } from "./stream.js";
+
+/**
+ * "bot": Server酱³ Bot API, inbound and outbound
+ * "sendKey": classic SendKey push API, outbound only
+ */
+export type ServerChanBotAccountType = "bot" | "sendKey";
+
+/**
+ * Resolved account configuration for Server酱³ Bot
+ */
+export type ResolvedServerChanBotAccount = {
+    accountId: string;
+    name?: string;
+    enabled: boolean;
+    type: ServerChanBotAccountType;
+    /** Where the bot token (or, for sendKey accounts, the SendKey) came from */
+    tokenSource: "config" | "env" | "none";
+    config: {
+        botToken?: string;
+        apiBaseUrl?: string;
+        sendKey?: string;
+        sendKeyApiBaseUrl?: string;
+        chatId?: string; // Default target for outbound messages
+        webhookUrl?: string;
+        webhookSecret?: string;
+        webhookPath?: string;
+        webhookAutoRegister?: boolean;
+        webhookAuthMode?: ServerChanBotWebhookAuthMode;
+        webhookMaxClockSkewMs?: number;
+        receiveMode?: ServerChanBotReceiveMode;
+        webhookHealthCheckIntervalMs?: number;
+        webhookFailoverThreshold?: number;
+        dmPolicy?: string;
+        allowFrom?: Array<string | number>;
+        groupPolicy?: string;
+        groupAllowFrom?: Array<string | number>; // Group / channel chat IDs
+        requireMention?: boolean;
+        groupTriggers?: string[]; // Prefixes that address the bot in groups
+        inboundMediaMaxBytes?: number;
+        inboundDebounceMs?: number; // Merge a sender's messages that arrive within this window
+        maxConcurrentDispatches?: number; // Chats processed in parallel (each chat stays in order)
+        maxQueuedPerChat?: number; // Updates a chat may have queued or running before new ones are dropped
+        rateLimit?: ServerChanBotRateLimitConfig;
+        outboundRateLimit?: ServerChanBotSendRateConfig;
+        textChunkLimit?: number;
+        chunkPartMarkers?: boolean;
+        parseMode?: ServerChanBotParseMode;
+        streamMode?: ServerChanBotStreamMode;
+        streamEditIntervalMs?: number;
+        pollingEnabled?: boolean;
+        pollingIntervalMs?: number;
+        pollingTimeoutSec?: number;
+        inboundIdleWarningMs?: number;
+        metricsPath?: string;
+        metricsToken?: string;
+        pushPath?: string; // Local HTTP route for scripts to send messages
+        pushKey?: string; // Required as "Authorization: Bearer <key>" on pushPath
+        scheduleCatchUp?: ServerChanBotCatchUpPolicy; // Scheduled runs missed while the account was stopped
+        scheduleCatchUpMaxAgeMs?: number; // Missed runs older than this are always skipped
+        commandLocale?: string; // "zh" | "en"
+        commandReplies?: Record<string, string>; // Per-key overrides of built-in command replies
+    };
+};
+
+/**
+ * How webhook requests are authenticated:
+ * - "secret": `X-Sc3Bot-Webhook-Secret` header equals webhookSecret
+ * - "hmac": HMAC-SHA256 body signature keyed with webhookSecret, plus a timestamp header
+ */
+export type ServerChanBotWebhookAuthMode = "secret" | "hmac";
+
+export type ServerChanBotLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+    debug?: (message: string) => void;
+};
+
+/**
+ * Resolve account configuration from OpenClaw config
+ */
+export function resolveServerChanBotAccount(params: {
+    cfg: unknown;
+    accountId?: string | null;
+}): ResolvedServerChanBotAccount {
+    const { cfg, accountId } = params;
+    const resolvedAccountId = accountId?.trim() || DEFAULT_ACCOUNT_ID;
+    const configObj = cfg as { channels?: Record<string, Record<string, unknown>> } | undefined;
+    const section = configObj?.channels?.["serverchan-bot"] ?? {};
+
+    // Check for account-specific config
+    const accounts = section.accounts as Record<string, Record<string, unknown>> | undefined;
+    const accountConfig = accounts?.[resolvedAccountId] ?? {};
+
+    // Resolve token (account-specific or top-level)
+    const botToken =
+        (accountConfig.botToken as string | undefined) ??
+        (section.botToken as string | undefined) ??
+        process.env.SERVERCHAN_BOT_TOKEN;
+
+    const tokenSource: "config" | "env" | "none" = accountConfig.botToken
+        ? "config"
+        : section.botToken
+            ? "config"
+            : process.env.SERVERCHAN_BOT_TOKEN
+                ? "env"
+                : "none";
+
+    // Accounts with only a SendKey push through the classic API (outbound only)
+    const sendKey =
+        (accountConfig.sendKey as string | undefined) ?? (section.sendKey as string | undefined);
+    const type =
+        (accountConfig.type as ServerChanBotAccountType | undefined) ??
+        (section.type as ServerChanBotAccountType | undefined) ??
+        (sendKey && !botToken ? "sendKey" : "bot");
+
+    // Resolve enabled status
+    const enabled =
+        (accountConfig.enabled as boolean | undefined) ??
+        (section.enabled as boolean | undefined) ??
+        true;
+
+    // Resolve name
+    const name =
+        (accountConfig.name as string | undefined) ?? (section.name as string | undefined);
+
+    return {
+        accountId: resolvedAccountId,
+        name,
+        enabled,
+        type,
+        tokenSource: type === "sendKey" ? (sendKey ? "config" : "none") : tokenSource,
+        config: {
+            botToken,
+            apiBaseUrl:
+                (accountConfig.apiBaseUrl as string | undefined) ??
+                (section.apiBaseUrl as string | undefined),
+            sendKey,
+            sendKeyApiBaseUrl:
+                (accountConfig.sendKeyApiBaseUrl as string | undefined) ??
+                (section.sendKeyApiBaseUrl as string | undefined),
+            chatId:
+                String((accountConfig.chatId as string | number | undefined) ??
+                    (section.chatId as string | number | undefined) ?? "").trim() || undefined,
+            webhookUrl:
+                (accountConfig.webhookUrl as string | undefined) ??
+                (section.webhookUrl as string | undefined),
+            webhookSecret:
+                (accountConfig.webhookSecret as string | undefined) ??
+                (section.webhookSecret as string | undefined),
+            webhookPath:
+                (accountConfig.webhookPath as string | undefined) ??
+                (section.webhookPath as string | undefined),
+            webhookAutoRegister:
+                (accountConfig.webhookAutoRegister as boolean | undefined) ??
+                (section.webhookAutoRegister as boolean | undefined),
+            webhookAuthMode:
+                (accountConfig.webhookAuthMode as ServerChanBotWebhookAuthMode | undefined) ??
+                (section.webhookAuthMode as ServerChanBotWebhookAuthMode | undefined),
+            webhookMaxClockSkewMs:
+                (accountConfig.webhookMaxClockSkewMs as number | undefined) ??
+                (section.webhookMaxClockSkewMs as number | undefined),
+            receiveMode:
+                (accountConfig.receiveMode as ServerChanBotReceiveMode | undefined) ??
+                (section.receiveMode as ServerChanBotReceiveMode | undefined),
+            webhookHealthCheckIntervalMs:
+                (accountConfig.webhookHealthCheckIntervalMs as number | undefined) ??
+                (section.webhookHealthCheckIntervalMs as number | undefined),
+            webhookFailoverThreshold:
+                (accountConfig.webhookFailoverThreshold as number | undefined) ??
+                (section.webhookFailoverThreshold as number | undefined),
+            dmPolicy:
+                (accountConfig.dmPolicy as string | undefined) ??
+                (section.dmPolicy as string | undefined),
+            allowFrom:
+                (accountConfig.allowFrom as Array<string | number> | undefined) ??
+                (section.allowFrom as Array<string | number> | undefined),
+            groupPolicy:
+                (accountConfig.groupPolicy as string | undefined) ??
+                (section.groupPolicy as string | undefined),
+            groupAllowFrom:
+                (accountConfig.groupAllowFrom as Array<string | number> | undefined) ??
+                (section.groupAllowFrom as Array<string | number> | undefined),
+            requireMention:
+                (accountConfig.requireMention as boolean | undefined) ??
+                (section.requireMention as boolean | undefined),
+            groupTriggers:
+                (accountConfig.groupTriggers as string[] | undefined) ??
+                (section.groupTriggers as string[] | undefined),
+            inboundMediaMaxBytes:
+                (accountConfig.inboundMediaMaxBytes as number | undefined) ??
+                (section.inboundMediaMaxBytes as number | undefined),
+            inboundDebounceMs:
+                (accountConfig.inboundDebounceMs as number | undefined) ??
+                (section.inboundDebounceMs as number | undefined),
+            maxConcurrentDispatches:
+                (accountConfig.maxConcurrentDispatches as number | undefined) ??
+                (section.maxConcurrentDispatches as number | undefined),
+            maxQueuedPerChat:
+                (accountConfig.maxQueuedPerChat as number | undefined) ??
+                (section.maxQueuedPerChat as number | undefined),
+            rateLimit:
+                (accountConfig.rateLimit as ServerChanBotRateLimitConfig | undefined) ??
+                (section.rateLimit as ServerChanBotRateLimitConfig | undefined),
+            outboundRateLimit:
+                (accountConfig.outboundRateLimit as ServerChanBotSendRateConfig | undefined) ??
+                (section.outboundRateLimit as ServerChanBotSendRateConfig | undefined),
+            textChunkLimit:
+                (accountConfig.textChunkLimit as number | undefined) ??
+                (section.textChunkLimit as number | undefined),
+            chunkPartMarkers:
+                (accountConfig.chunkPartMarkers as boolean | undefined) ??
+                (section.chunkPartMarkers as boolean | undefined),
+            parseMode:
+                (accountConfig.parseMode as ServerChanBotParseMode | undefined) ??
+                (section.parseMode as ServerChanBotParseMode | undefined),
+            streamMode:
+                (accountConfig.streamMode as ServerChanBotStreamMode | undefined) ??
+                (section.streamMode as ServerChanBotStreamMode | undefined),
+            streamEditIntervalMs:
+                (accountConfig.streamEditIntervalMs as number | undefined) ??
+                (section.streamEditIntervalMs as number | undefined),
+            pollingEnabled:
+                (accountConfig.pollingEnabled as boolean | undefined) ??
+                (section.pollingEnabled as boolean | undefined),
+            pollingIntervalMs:
+                (accountConfig.pollingIntervalMs as number | undefined) ??
+                (section.pollingIntervalMs as number | undefined) ??
+                3000, // Default 3 second polling interval
+            pollingTimeoutSec:
+                (accountConfig.pollingTimeoutSec as number | undefined) ??
+                (section.pollingTimeoutSec as number | undefined),
+            inboundIdleWarningMs:
+                (accountConfig.inboundIdleWarningMs as number | undefined) ??
+                (section.inboundIdleWarningMs as number | undefined),
+            metricsPath:
+                (accountConfig.metricsPath as string | undefined) ??
+                (section.metricsPath as string | undefined),
+            metricsToken:
+                (accountConfig.metricsToken as string | undefined) ??
+                (section.metricsToken as string | undefined),
+            pushPath:
+                (accountConfig.pushPath as string | undefined) ??
+                (section.pushPath as string | undefined),
+            pushKey:
+                (accountConfig.pushKey as string | undefined) ??
+                (section.pushKey as string | undefined),
+            scheduleCatchUp:
+                (accountConfig.scheduleCatchUp as ServerChanBotCatchUpPolicy | undefined) ??
+                (section.scheduleCatchUp as ServerChanBotCatchUpPolicy | undefined),
+            scheduleCatchUpMaxAgeMs:
+                (accountConfig.scheduleCatchUpMaxAgeMs as number | undefined) ??
+                (section.scheduleCatchUpMaxAgeMs as number | undefined),
+            commandLocale:
+                (accountConfig.commandLocale as string | undefined) ??
+                (section.commandLocale as string | undefined),
+            commandReplies:
+                (accountConfig.commandReplies as Record<string, string> | undefined) ??
+                (section.commandReplies as Record<string, string> | undefined),
+        },
+    };
+}
+
+/**
+ * List all account IDs configured for Server酱³ Bot
+ */
+export function listServerChanBotAccountIds(cfg: unknown): string[] {
+    const configObj = cfg as { channels?: Record<string, Record<string, unknown>> } | undefined;
+    const section = configObj?.channels?.["serverchan-bot"];
+    if (!section) {
+        return [DEFAULT_ACCOUNT_ID];
+    }
+
+    const accounts = section.accounts as Record<string, unknown> | undefined;
+    if (!accounts || typeof accounts !== "object") {
+        return [DEFAULT_ACCOUNT_ID];
+    }
+
+    const ids = Object.keys(accounts).filter((id) => id.trim());
+    if (ids.length === 0) {
+        return [DEFAULT_ACCOUNT_ID];
+    }
+
+    // Ensure default is first if present
+    if (!ids.includes(DEFAULT_ACCOUNT_ID)) {
+        ids.unshift(DEFAULT_ACCOUNT_ID);
+    }
+
+    return ids;
+}
@@ -1,11 +1,14 @@
 /**
  * Server酱³ Bot API Client
  *
- * API Base URL: https://bot-go.apijia.cn
+ * API Base URL: https://bot-go.apijia.cn (overridable per account via `apiBaseUrl`)
+ * The classic SendKey push API (outbound only) shares the same request layer.
  * Similar to Telegram Bot API
  */
 
-const API_BASE_URL = "https://bot-go.apijia.cn";
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+
+export const DEFAULT_API_BASE_URL = "https://bot-go.apijia.cn";
 
 export type ServerChanBotInfo = {
     ok: boolean;
@@ -17,6 +20,38 @@ export type ServerChanBotInfo = {
     error?: string;
 };
 
+export type ServerChanUser = {
+    id: number;
+    is_bot?: boolean;
+    first_name?: string;
+};
+
+/**
+ * Attachment reference; the content is fetched with getFile + downloadFile
+ */
+export type ServerChanFile = {
+    file_id: string;
+    file_unique_id?: string;
+    file_size?: number;
+    file_name?: string;
+    mime_type?: string;
+};
+
+export type ServerChanPhotoSize = ServerChanFile & {
+    width?: number;
+    height?: number;
+};
+
+export type ServerChanMediaFile = ServerChanFile & {
+    /** Seconds, for voice / audio / video */
+    duration?: number;
+};
+
+export type ServerChanLocation = {
+    latitude: number;
+    longitude: number;
+};
+
 export type ServerChanMessage = {
     message_id: number;
     chat_id?: number;
@@ -24,12 +59,24 @@ export type ServerChanMessage = {
         id: number;
         type?: string;
     };
-    from?: {
-        id: number;
-        is_bot?: boolean;
-        first_name?: string;
+    from?: ServerChanUser;
+    /** Absent for media-only messages */
+    text?: string;
+    /** Text sent along with a photo / document / voice / audio / video */
+    caption?: string;
+    /** Available sizes of one photo, smallest first */
+    photo?: ServerChanPhotoSize[];
+    document?: ServerChanFile;
+    voice?: ServerChanMediaFile;
+    audio?: ServerChanMediaFile;
+    video?: ServerChanMediaFile;
+    location?: ServerChanLocation;
+    reply_to_message?: {
+        message_id: number;
+        from?: ServerChanUser;
+        text?: string;
+        caption?: string;
     };
-    text: string;
     date?: number;
 };
 
@@ -41,6 +88,22 @@ export type ServerChanUpdate = {
 export type ServerChanUpdatesResponse = {
     ok: boolean;
     result: ServerChanUpdate[];
+    /**
+     * Offset confirming every returned update, including malformed ones that
+     * were dropped from `result`
+     */
+    nextOffset?: number;
+    error?: string;
+};
+
+export type ServerChanFileInfo = {
+    ok: boolean;
+    result?: {
+        file_id: string;
+        file_size?: number;
+        /** Path for downloadFile */
+        file_path?: string;
+    };
     error?: string;
 };
 
@@ -50,41 +113,278 @@ export type ServerChanSendResult = {
         message_id: number;
         chat_id: number;
         text: string;
+        caption?: string;
         date?: number;
     };
     error?: string;
 };
 
-export type SendMessageOptions = {
+export type ServerChanWebhookInfo = {
+    ok: boolean;
+    result?: {
+        url: string;
+        has_secret?: boolean;
+        pending_update_count?: number;
+        last_error_date?: number;
+        last_error_message?: string;
+    };
+    error?: string;
+};
+
+export type ServerChanBooleanResult = {
+    ok: boolean;
+    result?: boolean;
+    description?: string;
+    error?: string;
+};
+
+export type ApiRequestOptions = {
+    /** Override the API endpoint, e.g. a self-hosted or staging server */
+    apiBaseUrl?: string;
+    /** Abort the request after this many milliseconds */
+    timeoutMs?: number;
+    /** Abort the request when this signal fires */
+    signal?: AbortSignal;
+};
+
+export type SendMessageOptions = ApiRequestOptions & {
     parseMode?: "text" | "markdown";
     silent?: boolean;
 };
 
-export type GetUpdatesOptions = {
+export type EditMessageOptions = ApiRequestOptions & {
+    parseMode?: "text" | "markdown";
+};
+
+export type SendMediaOptions = ApiRequestOptions & {
+    caption?: string;
+    parseMode?: "text" | "markdown";
+    silent?: boolean;
+};
+
+/**
+ * File uploaded with sendPhoto / sendDocument
+ */
+export type ServerChanUploadFile = {
+    data: Uint8Array;
+    fileName: string;
+    contentType?: string;
+};
+
+export type GetUpdatesOptions = ApiRequestOptions & {
     timeout?: number;
     offset?: number;
 };
 
+export type SetWebhookOptions = ApiRequestOptions & {
+    /** Sent back by the API in the `X-Sc3Bot-Webhook-Secret` header */
+    secretToken?: string;
+};
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const UPLOAD_TIMEOUT_MS = 60_000;
+
+/** Upload limits of the Bot API; larger files are rejected before uploading */
+export const MAX_PHOTO_BYTES = 10 * 1024 * 1024;
+export const MAX_DOCUMENT_BYTES = 50 * 1024 * 1024;
+
 /**
- * Get bot information
+ * Error raised by every Server酱³ Bot API call
  */
-export async function serverChanBotGetMe(token: string): Promise<ServerChanBotInfo> {
-    const url = `${API_BASE_URL}/bot${token}/getMe`;
-    const response = await fetch(url, {
-        method: "GET",
-        headers: {
-            "Content-Type": "application/json",
+export class ServerChanApiError extends Error {
+    /** API method, e.g. "sendMessage" */
+    readonly method: string;
+    /** HTTP status, undefined for network errors, timeouts and aborts */
+    readonly status?: number;
+    /** `error_code` reported by the API, if any */
+    readonly errorCode?: number;
+    /** Whether repeating the same request may succeed (network, timeout, 5xx, 429) */
+    readonly retryable: boolean;
+    /** Server-provided retry hint in milliseconds (Retry-After / parameters.retry_after) */
+    readonly retryAfterMs?: number;
+
+    constructor(
+        message: string,
+        params: {
+            method: string;
+            status?: number;
+            errorCode?: number;
+            retryable: boolean;
+            retryAfterMs?: number;
+            cause?: unknown;
         },
-    });
+    ) {
+        super(message, params.cause !== undefined ? { cause: params.cause } : undefined);
+        this.name = "ServerChanApiError";
+        this.method = params.method;
+        this.status = params.status;
+        this.errorCode = params.errorCode;
+        this.retryable = params.retryable;
+        this.retryAfterMs = params.retryAfterMs;
+    }
+}
 
-    if (!response.ok) {
-        return {
-            ok: false,
-            error: `HTTP ${response.status}: ${response.statusText}`,
-        };
+function buildApiUrl(token: string, method: string, apiBaseUrl?: string): string {
+    const base = (apiBaseUrl?.trim() || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    return `${base}/bot${token}/${method}`;
+}
+
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status >= 500;
+}
+
+function parseRetryAfterMs(response: Response, payload: Record<string, unknown> | null) {
+    const parameters = payload?.parameters as { retry_after?: unknown } | undefined;
+    if (typeof parameters?.retry_after === "number") {
+        return parameters.retry_after * 1000;
+    }
+    const header = response.headers.get("retry-after");
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return seconds * 1000;
+    }
+    const at = Date.parse(header);
+    return Number.isNaN(at) ? undefined : Math.max(0, at - Date.now());
+}
+
+/**
+ * Fetch with timeout + caller abort and JSON parsing. Network failures,
+ * timeouts, aborts and non-JSON bodies become typed errors; HTTP and API
+ * errors are left to the caller.
+ */
+async function fetchServerChanJson(
+    url: string,
+    method: string,
+    params: {
+        httpMethod: "GET" | "POST";
+        body?: Record<string, unknown>;
+        /** Multipart body for uploads (replaces `body`) */
+        form?: FormData;
+        options?: Pick<ApiRequestOptions, "timeoutMs" | "signal">;
+        defaultTimeoutMs?: number;
+    },
+): Promise<{ response: Response; payload: Record<string, unknown> }> {
+    const { httpMethod, body, form, options } = params;
+    const timeoutMs = options?.timeoutMs ?? params.defaultTimeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = options?.signal
+        ? AbortSignal.any([options.signal, timeoutSignal])
+        : timeoutSignal;
+
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: httpMethod,
+            // fetch sets the multipart boundary itself
+            headers: form ? undefined : { "Content-Type": "application/json" },
+            body: form ?? (body ? JSON.stringify(body) : undefined),
+            signal,
+        });
+    } catch (err) {
+        if (options?.signal?.aborted) {
+            throw new ServerChanApiError(`${method} aborted`, {
+                method,
+                retryable: false,
+                cause: err,
+            });
+        }
+        if (timeoutSignal.aborted) {
+            throw new ServerChanApiError(`${method} timed out after ${timeoutMs}ms`, {
+                method,
+                retryable: true,
+                cause: err,
+            });
+        }
+        throw new ServerChanApiError(
+            `${method} network error: ${err instanceof Error ? err.message : String(err)}`,
+            { method, retryable: true, cause: err },
+        );
+    }
+
+    const raw = await response.text().catch(() => "");
+    let payload: Record<string, unknown> | null = null;
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        payload = parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+    } catch {
+        payload = null;
     }
 
-    return (await response.json()) as ServerChanBotInfo;
+    if (!payload) {
+        throw new ServerChanApiError(
+            `${method} returned a non-JSON response (HTTP ${response.status})`,
+            {
+                method,
+                status: response.status,
+                retryable: isRetryableStatus(response.status),
+                retryAfterMs: parseRetryAfterMs(response, null),
+            },
+        );
+    }
+
+    return { response, payload };
+}
+
+/**
+ * Shared request layer for Bot API methods: typed errors on top of
+ * fetchServerChanJson. Resolves only for `{ ok: true }` responses.
+ */
+async function callServerChanBotApi<T>(
+    token: string,
+    method: string,
+    params: {
+        httpMethod: "GET" | "POST";
+        query?: URLSearchParams;
+        body?: Record<string, unknown>;
+        /** Multipart body for uploads (replaces `body`) */
+        form?: FormData;
+        options?: ApiRequestOptions;
+        defaultTimeoutMs?: number;
+    },
+): Promise<T> {
+    const { query, options } = params;
+    const queryString = query?.toString();
+    const baseUrl = buildApiUrl(token, method, options?.apiBaseUrl);
+    const url = queryString ? `${baseUrl}?${queryString}` : baseUrl;
+    const { response, payload } = await fetchServerChanJson(url, method, params);
+
+    if (!response.ok || payload.ok !== true) {
+        const errorCode = typeof payload.error_code === "number" ? payload.error_code : undefined;
+        const description =
+            typeof payload.error === "string"
+                ? payload.error
+                : typeof payload.description === "string"
+                    ? payload.description
+                    : `HTTP ${response.status}: ${response.statusText}`;
+        const retryable = response.ok
+            ? errorCode !== undefined && isRetryableStatus(errorCode)
+            : isRetryableStatus(response.status);
+        throw new ServerChanApiError(`${method} failed: ${description}`, {
+            method,
+            status: response.status,
+            errorCode,
+            retryable,
+            retryAfterMs: parseRetryAfterMs(response, payload),
+        });
+    }
+
+    return payload as T;
+}
+
+/**
+ * Get bot information
+ */
+export async function serverChanBotGetMe(
+    token: string,
+    options?: ApiRequestOptions,
+): Promise<ServerChanBotInfo> {
+    return await callServerChanBotApi<ServerChanBotInfo>(token, "getMe", {
+        httpMethod: "GET",
+        options,
+    });
 }
 
 /**
@@ -96,8 +396,6 @@ export async function serverChanBotSendMessage(
     text: string,
     options?: SendMessageOptions,
 ): Promise<ServerChanSendResult> {
-    const url = `${API_BASE_URL}/bot${token}/sendMessage`;
-
     const body: Record<string, unknown> = {
         chat_id: typeof chatId === "string" ? Number.parseInt(chatId, 10) : chatId,
         text,
@@ -111,22 +409,102 @@ export async function serverChanBotSendMessage(
         body.silent = options.silent;
     }
 
-    const response = await fetch(url, {
-        method: "POST",
-        headers: {
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify(body),
+    return await callServerChanBotApi<ServerChanSendResult>(token, "sendMessage", {
+        httpMethod: "POST",
+        body,
+        options,
     });
+}
 
-    if (!response.ok) {
-        return {
-            ok: false,
-            error: `HTTP ${response.status}: ${response.statusText}`,
-        };
+/**
+ * Replace the text of a message sent by the bot
+ */
+export async function serverChanBotEditMessageText(
+    token: string,
+    chatId: number | string,
+    messageId: number | string,
+    text: string,
+    options?: EditMessageOptions,
+): Promise<ServerChanSendResult> {
+    const body: Record<string, unknown> = {
+        chat_id: typeof chatId === "string" ? Number.parseInt(chatId, 10) : chatId,
+        message_id: typeof messageId === "string" ? Number.parseInt(messageId, 10) : messageId,
+        text,
+    };
+
+    if (options?.parseMode) {
+        body.parse_mode = options.parseMode;
     }
 
-    return (await response.json()) as ServerChanSendResult;
+    return await callServerChanBotApi<ServerChanSendResult>(token, "editMessageText", {
+        httpMethod: "POST",
+        body,
+        options,
+    });
+}
+
+function buildMediaForm(
+    method: string,
+    field: string,
+    chatId: number | string,
+    file: ServerChanUploadFile,
+    maxBytes: number,
+    options?: SendMediaOptions,
+): FormData {
+    if (file.data.byteLength > maxBytes) {
+        throw new ServerChanApiError(
+            `${method} failed: ${file.fileName} is ${file.data.byteLength} bytes (limit ${maxBytes})`,
+            { method, status: 413, retryable: false },
+        );
+    }
+    const form = new FormData();
+    form.set("chat_id", String(chatId));
+    // Copy into a standalone ArrayBuffer (Buffers may be views into a shared pool)
+    form.set(field, new Blob([new Uint8Array(file.data)], { type: file.contentType }), file.fileName);
+    if (options?.caption) {
+        form.set("caption", options.caption);
+    }
+    if (options?.parseMode) {
+        form.set("parse_mode", options.parseMode);
+    }
+    if (options?.silent !== undefined) {
+        form.set("silent", String(options.silent));
+    }
+    return form;
+}
+
+/**
+ * Send an image (multipart upload, at most MAX_PHOTO_BYTES)
+ */
+export async function serverChanBotSendPhoto(
+    token: string,
+    chatId: number | string,
+    photo: ServerChanUploadFile,
+    options?: SendMediaOptions,
+): Promise<ServerChanSendResult> {
+    return await callServerChanBotApi<ServerChanSendResult>(token, "sendPhoto", {
+        httpMethod: "POST",
+        form: buildMediaForm("sendPhoto", "photo", chatId, photo, MAX_PHOTO_BYTES, options),
+        options,
+        defaultTimeoutMs: UPLOAD_TIMEOUT_MS,
+    });
+}
+
+/**
+ * Send a file (multipart upload, at most MAX_DOCUMENT_BYTES)
+ */
+export async function serverChanBotSendDocument(
+    token: string,
+    chatId: number | string,
+    document: ServerChanUploadFile,
+    options?: SendMediaOptions,
+): Promise<ServerChanSendResult> {
+    return await callServerChanBotApi<ServerChanSendResult>(token, "sendDocument", {
+        httpMethod: "POST",
+        form: buildMediaForm("sendDocument", "document", chatId, document, MAX_DOCUMENT_BYTES, options),
+        options,
+        defaultTimeoutMs: UPLOAD_TIMEOUT_MS,
+    });
 }
 
 /**
@@ -146,84 +524,420 @@ export async function serverChanBotGetUpdates(
         params.set("offset", String(options.offset));
     }
 
-    const queryString = params.toString();
-    const url = `${API_BASE_URL}/bot${token}/getUpdates${queryString ? `?${queryString}` : ""}`;
-
-    const response = await fetch(url, {
-        method: "GET",
-        headers: {
-            "Content-Type": "application/json",
+    const response = await callServerChanBotApi<{ ok: boolean; result?: unknown; error?: string }>(
+        token,
+        "getUpdates",
+        {
+            httpMethod: "GET",
+            query: params,
+            options,
+            // Long-poll: allow the server the full hold time plus the regular budget
+            defaultTimeoutMs: (options?.timeout ?? 0) * 1000 + DEFAULT_TIMEOUT_MS,
         },
+    );
+    const raw = Array.isArray(response.result) ? (response.result as unknown[]) : [];
+    const updateIds = raw
+        .map((entry) => (entry as { update_id?: unknown } | null)?.update_id)
+        .filter((id): id is number => typeof id === "number");
+    return {
+        ok: response.ok,
+        error: response.error,
+        result: raw
+            .map((entry) => parseServerChanUpdate(entry))
+            .filter((update): update is ServerChanUpdate => update !== null),
+        nextOffset: updateIds.length > 0 ? Math.max(...updateIds) + 1 : undefined,
+    };
+}
+
+/**
+ * Resolve a file_id to a downloadable file_path
+ */
+export async function serverChanBotGetFile(
+    token: string,
+    fileId: string,
+    options?: ApiRequestOptions,
+): Promise<ServerChanFileInfo> {
+    return await callServerChanBotApi<ServerChanFileInfo>(token, "getFile", {
+        httpMethod: "GET",
+        query: new URLSearchParams({ file_id: fileId }),
+        options,
     });
+}
 
+/**
+ * Download a file returned by getFile. Larger files than `maxBytes` are
+ * rejected (non-retryable, status 413) without reading the whole body.
+ */
+export async function serverChanBotDownloadFile(
+    token: string,
+    filePath: string,
+    options?: ApiRequestOptions & { maxBytes?: number },
+): Promise<{ buffer: Buffer; contentType?: string }> {
+    const method = "downloadFile";
+    const base = (options?.apiBaseUrl?.trim() || DEFAULT_API_BASE_URL).replace(/\/+$/, "");
+    const url = `${base}/file/bot${token}/${filePath.replace(/^\/+/, "")}`;
+    const timeoutMs = options?.timeoutMs ?? UPLOAD_TIMEOUT_MS;
+    const timeoutSignal = AbortSignal.timeout(timeoutMs);
+    const signal = options?.signal ? AbortSignal.any([options.signal, timeoutSignal]) : timeoutSignal;
+    const maxBytes = options?.maxBytes ?? MAX_DOCUMENT_BYTES;
+
+    let response: Response;
+    try {
+        response = await fetch(url, { method: "GET", signal });
+    } catch (err) {
+        throw new ServerChanApiError(
+            timeoutSignal.aborted
+                ? `${method} timed out after ${timeoutMs}ms`
+                : `${method} network error: ${err instanceof Error ? err.message : String(err)}`,
+            { method, retryable: !options?.signal?.aborted, cause: err },
+        );
+    }
     if (!response.ok) {
-        return {
-            ok: false,
-            result: [],
-            error: `HTTP ${response.status}: ${response.statusText}`,
-        };
+        await response.body?.cancel().catch(() => undefined);
+        throw new ServerChanApiError(`${method} failed: HTTP ${response.status}`, {
+            method,
+            status: response.status,
+            retryable: isRetryableStatus(response.status),
+        });
     }
 
-    return (await response.json()) as ServerChanUpdatesResponse;
+    const tooLarge = () =>
+        new ServerChanApiError(`${method} failed: file exceeds ${maxBytes} bytes`, {
+            method,
+            status: 413,
+            retryable: false,
+        });
+    if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+        await response.body?.cancel().catch(() => undefined);
+        throw tooLarge();
+    }
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for await (const chunk of response.body ?? []) {
+        total += chunk.byteLength;
+        if (total > maxBytes) {
+            throw tooLarge();
+        }
+        chunks.push(chunk);
+    }
+    return {
+        buffer: Buffer.concat(chunks),
+        contentType: response.headers.get("content-type") ?? undefined,
+    };
 }
 
 /**
- * Parse webhook payload
+ * Register the webhook URL updates should be pushed to
  */
-export function parseWebhookPayload(body: unknown): ServerChanUpdate | null {
-    if (!body || typeof body !== "object") {
-        return null;
+export async function serverChanBotSetWebhook(
+    token: string,
+    url: string,
+    options?: SetWebhookOptions,
+): Promise<ServerChanBooleanResult> {
+    const body: Record<string, unknown> = { url };
+
+    if (options?.secretToken) {
+        body.secret_token = options.secretToken;
     }
 
-    const payload = body as Record<string, unknown>;
+    return await callServerChanBotApi<ServerChanBooleanResult>(token, "setWebhook", {
+        httpMethod: "POST",
+        body,
+        options,
+    });
+}
 
-    if (payload.ok !== true) {
-        return null;
+/**
+ * Remove the registered webhook (updates go back to getUpdates)
+ */
+export async function serverChanBotDeleteWebhook(
+    token: string,
+    options?: ApiRequestOptions,
+): Promise<ServerChanBooleanResult> {
+    return await callServerChanBotApi<ServerChanBooleanResult>(token, "deleteWebhook", {
+        httpMethod: "POST",
+        options,
+    });
+}
+
+/**
+ * Get the webhook currently registered for the bot
+ */
+export async function serverChanBotGetWebhookInfo(
+    token: string,
+    options?: ApiRequestOptions,
+): Promise<ServerChanWebhookInfo> {
+    return await callServerChanBotApi<ServerChanWebhookInfo>(token, "getWebhookInfo", {
+        httpMethod: "GET",
+        options,
+    });
+}
+
+/** Default endpoint of the classic SendKey push API (Server酱 Turbo) */
+export const DEFAULT_SENDKEY_API_BASE_URL = "https://sctapi.ftqq.com";
+
+export type ServerChanPushResult = {
+    code: number;
+    message?: string;
+    data?: {
+        pushid?: string | number;
+        errno?: number;
+        error?: string;
+    };
+};
+
+/**
+ * Push URL for a SendKey. Server酱³ keys (`sctp<uid>t...`) go to the user's
+ * own push host, Turbo keys to sctapi.ftqq.com; an explicit base URL (e.g. a
+ * local stand-in) always wins.
+ */
+export function buildSendKeyUrl(sendKey: string, apiBaseUrl?: string): string {
+    const base = apiBaseUrl?.trim().replace(/\/+$/, "");
+    if (base) {
+        return `${base}/${sendKey}.send`;
+    }
+    const sc3 = /^sctp(\d+)t/i.exec(sendKey);
+    if (sc3) {
+        return `https://${sc3[1]}.push.ft07.com/send/${sendKey}.send`;
+    }
+    return `${DEFAULT_SENDKEY_API_BASE_URL}/${sendKey}.send`;
+}
+
+/**
+ * Push a notification through the classic SendKey API. `desp` is markdown.
+ * Resolves only when the API reports `code: 0`.
+ */
+export async function serverChanSendKeyPush(
+    sendKey: string,
+    message: { title: string; desp?: string },
+    options?: ApiRequestOptions,
+): Promise<ServerChanPushResult> {
+    const method = "send";
+    const { response, payload } = await fetchServerChanJson(
+        buildSendKeyUrl(sendKey, options?.apiBaseUrl),
+        method,
+        {
+            httpMethod: "POST",
+            body: { title: message.title, desp: message.desp ?? "" },
+            options,
+        },
+    );
+    if (!response.ok || payload.code !== 0) {
+        const code = typeof payload.code === "number" ? payload.code : undefined;
+        const description =
+            typeof payload.message === "string" && payload.message
+                ? payload.message
+                : `HTTP ${response.status}: ${response.statusText}`;
+        throw new ServerChanApiError(`${method} failed: ${description}`, {
+            method,
+            status: response.status,
+            errorCode: code,
+            retryable: !response.ok && isRetryableStatus(response.status),
+            retryAfterMs: parseRetryAfterMs(response, null),
+        });
     }
+    return payload as ServerChanPushResult;
+}
 
-    const updateId = payload.update_id;
-    const message = payload.message;
+function asRecord(value: unknown): Record<string, unknown> | undefined {
+    return value && typeof value === "object" && !Array.isArray(value)
+        ? (value as Record<string, unknown>)
+        : undefined;
+}
 
-    if (typeof updateId !== "number" || !message || typeof message !== "object") {
-        return null;
+function optionalString(value: unknown): string | undefined {
+    return typeof value === "string" ? value : undefined;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+    return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+function parseUser(value: unknown): ServerChanUser | undefined {
+    const user = asRecord(value);
+    if (typeof user?.id !== "number") {
+        return undefined;
     }
+    return {
+        id: user.id,
+        is_bot: typeof user.is_bot === "boolean" ? user.is_bot : undefined,
+        first_name: optionalString(user.first_name),
+    };
+}
 
-    const msg = message as Record<string, unknown>;
-    const messageId = msg.message_id;
-    const text = msg.text;
-    const rawChatId = msg.chat_id;
-    const chat = msg.chat;
-    const chatId =
-        typeof rawChatId === "number"
-            ? rawChatId
-            : chat && typeof chat === "object"
-                ? (chat as { id?: unknown }).id
-                : undefined;
+function parseFile(value: unknown): ServerChanMediaFile | undefined {
+    const file = asRecord(value);
+    if (typeof file?.file_id !== "string" || !file.file_id) {
+        return undefined;
+    }
+    return {
+        file_id: file.file_id,
+        file_unique_id: optionalString(file.file_unique_id),
+        file_size: optionalNumber(file.file_size),
+        file_name: optionalString(file.file_name),
+        mime_type: optionalString(file.mime_type),
+        duration: optionalNumber(file.duration),
+    };
+}
+
+function parsePhoto(value: unknown): ServerChanPhotoSize[] | undefined {
+    if (!Array.isArray(value)) {
+        return undefined;
+    }
+    const sizes = value.flatMap((entry) => {
+        const file = parseFile(entry);
+        const size = asRecord(entry);
+        return file
+            ? [{ ...file, width: optionalNumber(size?.width), height: optionalNumber(size?.height) }]
+            : [];
+    });
+    return sizes.length > 0 ? sizes : undefined;
+}
+
+function parseLocation(value: unknown): ServerChanLocation | undefined {
+    const location = asRecord(value);
+    const latitude = optionalNumber(location?.latitude);
+    const longitude = optionalNumber(location?.longitude);
+    return latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+}
 
-    if (typeof messageId !== "number" || typeof chatId !== "number" || typeof text !== "string") {
+/**
+ * Validate one update from getUpdates or a webhook. Only the message id and
+ * chat id are required; unknown fields are dropped.
+ */
+export function parseServerChanUpdate(value: unknown): ServerChanUpdate | null {
+    const update = asRecord(value);
+    const msg = asRecord(update?.message);
+    if (typeof update?.update_id !== "number" || !msg) {
         return null;
     }
 
+    const chat = asRecord(msg.chat);
+    const chatId = typeof msg.chat_id === "number" ? msg.chat_id : chat?.id;
+    if (typeof msg.message_id !== "number" || typeof chatId !== "number") {
+        return null;
+    }
+
+    const reply = asRecord(msg.reply_to_message);
     return {
-        update_id: updateId,
+        update_id: update.update_id,
         message: {
-            message_id: messageId,
+            message_id: msg.message_id,
             chat_id: chatId,
-            chat: chat && typeof chat === "object" ? (chat as { id: number; type?: string }) : undefined,
-            text,
-            date: typeof msg.date === "number" ? msg.date : undefined,
+            chat:
+                typeof chat?.id === "number"
+                    ? { id: chat.id, type: optionalString(chat.type) }
+                    : undefined,
+            from: parseUser(msg.from),
+            text: optionalString(msg.text),
+            caption: optionalString(msg.caption),
+            photo: parsePhoto(msg.photo),
+            document: parseFile(msg.document),
+            voice: parseFile(msg.voice),
+            audio: parseFile(msg.audio),
+            video: parseFile(msg.video),
+            location: parseLocation(msg.location),
+            reply_to_message:
+                typeof reply?.message_id === "number"
+                    ? {
+                        message_id: reply.message_id,
+                        from: parseUser(reply.from),
+                        text: optionalString(reply.text),
+                        caption: optionalString(reply.caption),
+                    }
+                    : undefined,
+            date: optionalNumber(msg.date),
         },
     };
 }
 
+/**
+ * Parse webhook payload
+ */
+export function parseWebhookPayload(body: unknown): ServerChanUpdate | null {
+    const payload = asRecord(body);
+    if (payload?.ok !== true) {
+        return null;
+    }
+    return parseServerChanUpdate(payload);
+}
+
+type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export const WEBHOOK_SECRET_HEADER = "x-sc3bot-webhook-secret";
+export const WEBHOOK_SIGNATURE_HEADER = "x-sc3bot-signature";
+export const WEBHOOK_TIMESTAMP_HEADER = "x-sc3bot-timestamp";
+export const WEBHOOK_NONCE_HEADER = "x-sc3bot-nonce";
+
+function readHeader(headers: WebhookHeaders, name: string): string | undefined {
+    const value = headers[name] ?? headers[name.toLowerCase()];
+    return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Compare two strings in constant time (independent of where they differ and of their lengths)
+ */
+export function timingSafeStringEqual(actual: string, expected: string): boolean {
+    const actualDigest = createHash("sha256").update(actual).digest();
+    const expectedDigest = createHash("sha256").update(expected).digest();
+    return timingSafeEqual(actualDigest, expectedDigest);
+}
+
 /**
  * Verify webhook secret
  */
-export function verifyWebhookSecret(
-    headers: Record<string, string | string[] | undefined>,
-    expectedSecret: string,
-): boolean {
-    const secret = headers["x-sc3bot-webhook-secret"] ?? headers["X-Sc3Bot-Webhook-Secret"];
-    const secretValue = Array.isArray(secret) ? secret[0] : secret;
-    return secretValue === expectedSecret;
+export function verifyWebhookSecret(headers: WebhookHeaders, expectedSecret: string): boolean {
+    const secretValue = readHeader(headers, WEBHOOK_SECRET_HEADER);
+    return secretValue !== undefined && timingSafeStringEqual(secretValue, expectedSecret);
+}
+
+/**
+ * HMAC-SHA256 signature of a webhook body: `sha256=<hex>` over
+ * `<timestamp>.<nonce>.<raw body>`, or `<timestamp>.<raw body>` without a nonce
+ */
+export function signWebhookPayload(
+    secret: string,
+    timestamp: number | string,
+    rawBody: string,
+    nonce?: string,
+): string {
+    const signed = nonce ? `${timestamp}.${nonce}.${rawBody}` : `${timestamp}.${rawBody}`;
+    const digest = createHmac("sha256", secret).update(signed).digest("hex");
+    return `sha256=${digest}`;
+}
+
+export type WebhookSignatureCheck =
+    | { ok: true; /** Identifies this delivery for replay detection */ replayKey: string }
+    | { ok: false; reason: string };
+
+/**
+ * Verify an HMAC-signed webhook request (signature + timestamp within `maxSkewMs`)
+ */
+export function verifyWebhookSignature(params: {
+    headers: WebhookHeaders;
+    rawBody: string;
+    secret: string;
+    maxSkewMs: number;
+    now?: number;
+}): WebhookSignatureCheck {
+    const { headers, rawBody, secret, maxSkewMs } = params;
+    const signature = readHeader(headers, WEBHOOK_SIGNATURE_HEADER)?.trim();
+    const timestamp = readHeader(headers, WEBHOOK_TIMESTAMP_HEADER)?.trim();
+    if (!signature || !timestamp) {
+        return { ok: false, reason: "missing signature or timestamp" };
+    }
+    if (!/^\d+$/.test(timestamp)) {
+        return { ok: false, reason: "invalid timestamp" };
+    }
+    const skewMs = Math.abs((params.now ?? Date.now()) - Number(timestamp) * 1000);
+    if (skewMs > maxSkewMs) {
+        return { ok: false, reason: "timestamp outside allowed clock skew" };
+    }
+    const nonce = readHeader(headers, WEBHOOK_NONCE_HEADER)?.trim() || undefined;
+    const expected = signWebhookPayload(secret, timestamp, rawBody, nonce);
+    if (!timingSafeStringEqual(signature.toLowerCase(), expected)) {
+        return { ok: false, reason: "signature mismatch" };
+    }
+    // The signature covers timestamp, nonce and body, so an unsigned header can't dodge replay detection
+    return { ok: true, replayKey: `sig:${expected}` };
 }
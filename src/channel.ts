@@ -1,43 +1,96 @@
+import { randomUUID } from "node:crypto";
 import type { IncomingMessage, ServerResponse } from "node:http";
 import type {
     ChannelAccountSnapshot,
     ChannelPlugin,
-    ChannelStatusIssue,
     OpenClawConfig,
 } from "openclaw/plugin-sdk";
 import { DEFAULT_ACCOUNT_ID, buildChannelConfigSchema } from "openclaw/plugin-sdk";
+import { sleepWithAbort, waitForAbort } from "./abort.js";
+import { getAccountScheduler, getStartedAccountScheduler, setAccountSchedulerSinks } from "./account-scheduler.js";
+import { type InboundAccessDecision, normalizeAllowEntry, resolveGroupAccess, resolveInboundAccess } from "./access.js";
+import {
+    listServerChanBotAccountIds,
+    resolveServerChanBotAccount,
+    type ResolvedServerChanBotAccount,
+    type ServerChanBotLog,
+    type ServerChanBotWebhookAuthMode,
+} from "./accounts.js";
+import { DEFAULT_TEXT_CHUNK_LIMIT } from "./chunk.js";
 import { ServerChanBotConfigSchema } from "./config-schema.js";
 import {
+    ServerChanApiError,
     serverChanBotGetMe,
-    serverChanBotSendMessage,
     serverChanBotGetUpdates,
     type ServerChanBotInfo,
     type ServerChanUpdate,
     parseWebhookPayload,
     verifyWebhookSecret,
+    verifyWebhookSignature,
 } from "./api.js";
+import { parseServerChanBotCommand, type ServerChanBotCommand } from "./commands.js";
+import { runServerChanBotCommand } from "./command-handler.js";
+import { createInboundDebouncer } from "./debounce.js";
+import {
+    chainServerChanBotAdmission,
+    describeServerChanBotDispatchLanes,
+    getServerChanBotDispatchScheduler,
+} from "./dispatch-lanes.js";
+import { claimServerChanBotUpdate, claimServerChanBotWebhookDelivery } from "./dedupe.js";
+import {
+    matchServerChanBotGroupTrigger,
+    resolveServerChanBotChatType,
+    type ServerChanBotChatType,
+} from "./group.js";
+import { normalizeRoutePath, readJsonBody } from "./http.js";
+import {
+    DEFAULT_INBOUND_MEDIA_MAX_BYTES,
+    collectServerChanBotAttachments,
+    describeServerChanBotMessageText,
+    fetchServerChanBotAttachments,
+    isSupportedServerChanBotMessage,
+} from "./inbound-media.js";
+import {
+    recordServerChanBotDispatch,
+    recordServerChanBotInboundUpdate,
+    recordServerChanBotPollingError,
+    recordServerChanBotWebhookReject,
+} from "./metrics.js";
+import { registerServerChanBotMetricsRoute } from "./metrics-route.js";
+import {
+    createAccountReplyStream,
+    getAccountOutboundQueue,
+    sendServerChanBotChunks,
+    sendServerChanBotMediaWithText,
+    sendServerChanBotNotice,
+    sendServerChanBotSendKeyPush,
+} from "./outbound.js";
+import { describeServerChanBotOutboundQueue, stopServerChanBotOutboundQueue } from "./outbound-queue.js";
+import { registerServerChanBotPushRoute } from "./push-route.js";
+import { checkServerChanBotInboundRate, describeServerChanBotInboundRate } from "./rate-limit.js";
+import {
+    WEBHOOK_HEALTH_PARAM,
+    resolveServerChanBotReceiveMode,
+    runServerChanBotHybridReceiver,
+    type ServerChanBotActiveMode,
+} from "./receive-mode.js";
 import { getServerChanBotRuntime } from "./runtime.js";
-
-/**
- * Resolved account configuration for Server酱³ Bot
- */
-export type ResolvedServerChanBotAccount = {
-    accountId: string;
-    name?: string;
-    enabled: boolean;
-    tokenSource: "config" | "env" | "none";
-    config: {
-        botToken?: string;
-        chatId?: string; // Default target for outbound messages
-        webhookUrl?: string;
-        webhookSecret?: string;
-        webhookPath?: string;
-        dmPolicy?: string;
-        allowFrom?: Array<string | number>;
-        pollingEnabled?: boolean;
-        pollingIntervalMs?: number;
-    };
-};
+import { describeServerChanBotScheduler } from "./scheduler.js";
+import { sendServerChanBotText } from "./send.js";
+import {
+    collectServerChanBotStatusIssues,
+    type ServerChanBotAccountSnapshot,
+    type ServerChanBotStatusPatch,
+} from "./status-issues.js";
+import { describeServerChanBotSendLimiter, estimateServerChanBotSendDelayMs } from "./send-limiter.js";
+import { createServerChanBotScheduleTool, runInServerChanBotConversation } from "./schedule-tool.js";
+import { readLastUpdateId, trackServerChanBotUpdate } from "./state.js";
+import type { ServerChanBotReplyStream, ServerChanBotStreamMode } from "./stream.js";
+import {
+    isUnreachableWebhookUrl,
+    releaseServerChanBotWebhook,
+    syncServerChanBotWebhook,
+} from "./webhook-registration.js";
 
 /**
  * Probe result for Server酱³ Bot
@@ -64,18 +117,15 @@ const meta = {
     quickstartAllowFrom: true,
 };
 
-const normalizeAllowEntry = (entry: string) =>
-    entry.replace(/^serverchan(-bot)?:/i, "").trim();
-
 const channelConfigSchema = {
     toJSONSchema: () => buildChannelConfigSchema(ServerChanBotConfigSchema),
 };
 
-type ServerChanBotLog = {
-    info?: (message: string) => void;
-    error?: (message: string) => void;
-    debug?: (message: string) => void;
-};
+const DEFAULT_WEBHOOK_MAX_CLOCK_SKEW_MS = 5 * 60_000;
+
+const RATE_LIMIT_NOTICE = "⏳ 消息太频繁了，请稍后再试。";
+
+const UNSUPPORTED_MESSAGE_NOTICE = "暂不支持这种类型的消息，请发送文字、图片、文件、语音或位置。";
 
 type WebhookTarget = {
     account: ResolvedServerChanBotAccount;
@@ -84,32 +134,30 @@ type WebhookTarget = {
     botToken: string;
     path: string;
     secret?: string;
-    statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
+    authMode?: ServerChanBotWebhookAuthMode;
+    maxClockSkewMs?: number;
+    /** Answered on GET `?sc3bot_health=<token>` so hybrid mode can probe the public URL */
+    healthToken?: string;
+    statusSink?: (patch: ServerChanBotStatusPatch) => void;
 };
 
 const webhookTargets = new Map<string, WebhookTarget[]>();
 
-function normalizeWebhookPath(raw: string): string {
-    const trimmed = raw.trim();
-    if (!trimmed) {
-        return "/";
-    }
-    const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
-    if (withSlash.length > 1 && withSlash.endsWith("/")) {
-        return withSlash.slice(0, -1);
-    }
-    return withSlash;
-}
+/** Bot usernames from getMe, used to detect mentions in groups */
+const botUsernames = new Map<string, string>();
+
+/** Receive mode currently in use per account, reported by /status */
+const activeModes = new Map<string, ServerChanBotActiveMode>();
 
 function resolveWebhookPath(webhookPath?: string, webhookUrl?: string): string | null {
     const trimmedPath = webhookPath?.trim();
     if (trimmedPath) {
-        return normalizeWebhookPath(trimmedPath);
+        return normalizeRoutePath(trimmedPath);
     }
     if (webhookUrl?.trim()) {
         try {
             const parsed = new URL(webhookUrl);
-            return normalizeWebhookPath(parsed.pathname || "/");
+            return normalizeRoutePath(parsed.pathname || "/");
         } catch {
             return null;
         }
@@ -117,46 +165,6 @@ function resolveWebhookPath(webhookPath?: string, webhookUrl?: string): string |
     return "/serverchan-bot";
 }
 
-async function readJsonBody(req: IncomingMessage, maxBytes: number) {
-    const chunks: Buffer[] = [];
-    let total = 0;
-    return await new Promise<{ ok: boolean; value?: unknown; error?: string }>((resolve) => {
-        let resolved = false;
-        const doResolve = (value: { ok: boolean; value?: unknown; error?: string }) => {
-            if (resolved) {
-                return;
-            }
-            resolved = true;
-            req.removeAllListeners();
-            resolve(value);
-        };
-        req.on("data", (chunk: Buffer) => {
-            total += chunk.length;
-            if (total > maxBytes) {
-                doResolve({ ok: false, error: "payload too large" });
-                req.destroy();
-                return;
-            }
-            chunks.push(chunk);
-        });
-        req.on("end", () => {
-            try {
-                const raw = Buffer.concat(chunks).toString("utf8");
-                if (!raw.trim()) {
-                    doResolve({ ok: false, error: "empty payload" });
-                    return;
-                }
-                doResolve({ ok: true, value: JSON.parse(raw) as unknown });
-            } catch (err) {
-                doResolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
-            }
-        });
-        req.on("error", (err) => {
-            doResolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
-        });
-    });
-}
-
 function buildWebhookUrlFromConfig(params: { cfg: OpenClawConfig; path: string }): string {
     const gateway = params.cfg.gateway ?? {};
     const port =
@@ -171,35 +179,71 @@ function buildWebhookUrlFromConfig(params: { cfg: OpenClawConfig; path: string }
     return `${scheme}://${host}:${port}${params.path}`;
 }
 
+type WebhookAuthResult = { ok: true; replayKey?: string } | { ok: false; reason: string };
+
+function hasWebhookCredential(target: WebhookTarget): boolean {
+    return Boolean(target.secret) || target.authMode === "hmac";
+}
+
+/**
+ * Authenticate a request against one target. "hmac" targets without a secret reject everything.
+ */
+function authenticateWebhookRequest(
+    target: WebhookTarget,
+    headers: Record<string, string | string[] | undefined>,
+    rawBody: string,
+): WebhookAuthResult {
+    if (target.authMode === "hmac") {
+        if (!target.secret) {
+            return { ok: false, reason: "hmac mode requires webhookSecret" };
+        }
+        return verifyWebhookSignature({
+            headers,
+            rawBody,
+            secret: target.secret,
+            maxSkewMs: target.maxClockSkewMs ?? DEFAULT_WEBHOOK_MAX_CLOCK_SKEW_MS,
+        });
+    }
+    if (!target.secret) {
+        return { ok: true };
+    }
+    return verifyWebhookSecret(headers, target.secret)
+        ? { ok: true }
+        : { ok: false, reason: "secret mismatch" };
+}
+
 function selectWebhookTarget(
     targets: WebhookTarget[],
     headers: Record<string, string | string[] | undefined>,
-): WebhookTarget | null {
+    rawBody: string,
+): { target: WebhookTarget; replayKey?: string } | null {
     if (targets.length === 1) {
         const only = targets[0];
-        if (!only.secret) {
-            return only;
+        const auth = authenticateWebhookRequest(only, headers, rawBody);
+        if (!auth.ok) {
+            only.log?.debug?.(`[${only.account.accountId}] webhook rejected: ${auth.reason}`);
+            return null;
         }
-        return verifyWebhookSecret(headers, only.secret) ? only : null;
+        return { target: only, replayKey: auth.replayKey };
     }
-    const secretTarget = targets.find((target) => {
-        if (!target.secret) {
-            return false;
+    for (const target of targets) {
+        if (!hasWebhookCredential(target)) {
+            continue;
+        }
+        const auth = authenticateWebhookRequest(target, headers, rawBody);
+        if (auth.ok) {
+            return { target, replayKey: auth.replayKey };
         }
-        return verifyWebhookSecret(headers, target.secret);
-    });
-    if (secretTarget) {
-        return secretTarget;
     }
-    const withoutSecret = targets.filter((target) => !target.secret);
+    const withoutSecret = targets.filter((target) => !hasWebhookCredential(target));
     if (withoutSecret.length === 1) {
-        return withoutSecret[0];
+        return { target: withoutSecret[0] };
     }
     return null;
 }
 
 export function registerServerChanBotWebhookTarget(target: WebhookTarget): () => void {
-    const key = normalizeWebhookPath(target.path);
+    const key = normalizeRoutePath(target.path);
     const normalizedTarget = { ...target, path: key };
     const existing = webhookTargets.get(key) ?? [];
     const next = [...existing, normalizedTarget];
@@ -214,88 +258,596 @@ export function registerServerChanBotWebhookTarget(target: WebhookTarget): () =>
     };
 }
 
-async function processServerChanBotUpdate(params: {
+/**
+ * Apply dmPolicy / allowFrom to an inbound sender.
+ * Only "allow" may be dispatched to the agent; "pair" has already sent the pairing code.
+ */
+async function enforceServerChanBotInboundAccess(params: {
+    account: ResolvedServerChanBotAccount;
+    botToken: string;
+    senderId: string;
+    log?: ServerChanBotLog;
+}): Promise<InboundAccessDecision["action"]> {
+    const { account, botToken, senderId, log } = params;
+    const pairing = getServerChanBotRuntime().channel.pairing;
+
+    let storeAllowFrom: string[] = [];
+    try {
+        storeAllowFrom = await pairing.readAllowFromStore("serverchan-bot");
+    } catch (err) {
+        log?.error?.(`[${account.accountId}] failed to read pairing allowlist: ${String(err)}`);
+    }
+
+    const decision = resolveInboundAccess({
+        dmPolicy: account.config.dmPolicy,
+        senderId,
+        allowFrom: account.config.allowFrom,
+        storeAllowFrom,
+    });
+
+    if (decision.action === "allow") {
+        log?.debug?.(`[${account.accountId}] inbound from ${senderId} allowed (${decision.reason})`);
+        return decision.action;
+    }
+
+    if (decision.action === "drop") {
+        log?.info?.(`[${account.accountId}] inbound from ${senderId} dropped (${decision.reason})`);
+        return decision.action;
+    }
+
+    try {
+        const { code, created } = await pairing.upsertPairingRequest({
+            channel: "serverchan-bot",
+            id: senderId,
+        });
+        if (!created) {
+            log?.info?.(
+                `[${account.accountId}] inbound from ${senderId} dropped (${decision.reason}, pairing already pending)`,
+            );
+            return decision.action;
+        }
+        log?.info?.(
+            `[${account.accountId}] inbound from ${senderId} dropped (${decision.reason}, pairing requested)`,
+        );
+        await sendServerChanBotNotice({
+            account,
+            botToken,
+            chatId: senderId,
+            text: pairing.buildPairingReply({
+                channel: "serverchan-bot",
+                idLine: `Your Server酱³ UID: ${senderId}`,
+                code,
+            }),
+            log,
+        });
+    } catch (err) {
+        log?.error?.(`[${account.accountId}] pairing request for ${senderId} failed: ${String(err)}`);
+    }
+    return decision.action;
+}
+
+/**
+ * Message context handed to the agent
+ */
+type ServerChanBotInboundContext = {
+    Provider: string;
+    Surface: string;
+    Channel: string;
+    From: string;
+    To: string;
+    Body: string;
+    RawBody: string;
+    BodyForCommands: string;
+    BodyForAgent: string;
+    ChatType: ServerChanBotChatType;
+    AccountId: string;
+    MessageSid: string;
+    MessageSidFull: string;
+    /** Set when several debounced messages were merged */
+    MessageSids?: string[];
+    MessageSidFirst?: string;
+    MessageSidLast?: string;
+    SessionKey: string;
+    SenderId: string;
+    SenderName?: string;
+    WasMentioned?: boolean;
+    CommandAuthorized?: boolean;
+    MediaPath?: string;
+    MediaType?: string;
+    MediaPaths?: string[];
+    MediaTypes?: string[];
+    ReplyToId?: string;
+    ReplyToBody?: string;
+    ReplyToSender?: string;
+    Timestamp: number;
+};
+
+type PendingInbound = {
+    account: ResolvedServerChanBotAccount;
+    cfg: OpenClawConfig;
+    ctx: ServerChanBotInboundContext;
+    log?: ServerChanBotLog;
+    statusSink?: (patch: ServerChanBotStatusPatch) => void;
+    /** Called once a held (debounced) message has been dispatched */
+    settle?: () => void;
+};
+
+type ServerChanBotUpdateParams = {
     update: ServerChanUpdate;
     account: ResolvedServerChanBotAccount;
     cfg: OpenClawConfig;
     botToken: string;
     log?: ServerChanBotLog;
-    statusSink?: (patch: { lastInboundAt?: number; lastOutboundAt?: number }) => void;
-}): Promise<void> {
-    const { update, account, cfg, botToken, log, statusSink } = params;
+    statusSink?: (patch: ServerChanBotStatusPatch) => void;
+};
+
+/**
+ * An update that passed the access and rate checks
+ */
+type AdmittedServerChanBotUpdate = {
+    chatId: string;
+    chatType: ServerChanBotChatType;
+    senderId: string;
+    text: string;
+    /** Text for the agent (group trigger stripped) */
+    body: string;
+    command: ServerChanBotCommand | null;
+    wasMentioned?: boolean;
+};
+
+/**
+ * Access and rate checks, run when an update arrives so that dropped updates
+ * never wait in (or fill up) a chat's lane. Returns null for dropped updates.
+ */
+async function admitServerChanBotUpdate(params: ServerChanBotUpdateParams): Promise<AdmittedServerChanBotUpdate | null> {
+    const { update, account, botToken, log, statusSink } = params;
     const updateChatId =
         update.message.chat?.id ??
         update.message.chat_id ??
         update.message.from?.id;
     if (updateChatId === undefined || updateChatId === null) {
         log?.error?.(`[${account.accountId}] update missing chat id: ${JSON.stringify(update)}`);
-        return;
+        return null;
     }
     const chatId = String(updateChatId);
-    const text = update.message.text || "";
-    const messageId = String(update.message.message_id);
+    const chatType = resolveServerChanBotChatType(update.message.chat?.type);
+    const sender = update.message.from;
+    const senderId = sender?.id !== undefined && sender?.id !== null ? String(sender.id) : chatId;
+    const text = describeServerChanBotMessageText(update.message);
 
     log?.info?.(
-        `[${account.accountId}] received message from ${chatId}: ${text.substring(0, 50)}...`,
+        chatType === "direct"
+            ? `[${account.accountId}] received message from ${chatId}: ${text.substring(0, 50)}...`
+            : `[${account.accountId}] received ${chatType} message in ${chatId} from ${senderId}: ${text.substring(0, 50)}...`,
     );
 
     statusSink?.({
         lastInboundAt: Date.now(),
     });
+    recordServerChanBotInboundUpdate(account.accountId);
+
+    const passesInboundRate = async (): Promise<boolean> => {
+        const rate = checkServerChanBotInboundRate({
+            accountId: account.accountId,
+            chatId,
+            config: account.config.rateLimit,
+        });
+        if (rate.action === "allow") {
+            return true;
+        }
+        log?.info?.(
+            rate.action === "block"
+                ? `[${account.accountId}] inbound from ${chatId} dropped (blocked until ${new Date(rate.until).toISOString()})`
+                : `[${account.accountId}] inbound from ${chatId} dropped (${rate.scope} rate limit)`,
+        );
+        if (rate.notify) {
+            try {
+                await sendServerChanBotNotice({
+                    account,
+                    botToken,
+                    chatId,
+                    text: RATE_LIMIT_NOTICE,
+                    log,
+                });
+            } catch (err) {
+                log?.error?.(`[${account.accountId}] rate limit notice to ${chatId} failed: ${String(err)}`);
+            }
+        }
+        return false;
+    };
+
+    const command = parseServerChanBotCommand(text, botUsernames.get(account.accountId));
+    const admitted: AdmittedServerChanBotUpdate = {
+        chatId,
+        chatType,
+        senderId,
+        text,
+        body: text,
+        command,
+    };
+    if (chatType === "direct") {
+        // Commands go through the same checks; under pairing, /start from a new sender gets the pairing code
+        const access = await enforceServerChanBotInboundAccess({
+            account,
+            botToken,
+            senderId,
+            log,
+        });
+        if (access !== "allow") {
+            return null;
+        }
+    } else {
+        if (sender?.is_bot) {
+            log?.debug?.(`[${account.accountId}] ignoring bot message in ${chatType} ${chatId}`);
+            return null;
+        }
+        const decision = resolveGroupAccess({
+            groupPolicy: account.config.groupPolicy,
+            groupId: chatId,
+            groupAllowFrom: account.config.groupAllowFrom,
+        });
+        if (decision.action !== "allow") {
+            log?.info?.(`[${account.accountId}] ${chatType} message in ${chatId} dropped (${decision.reason})`);
+            return null;
+        }
+        // Commands address the bot without a mention, as in other bot platforms
+        if (command) {
+            admitted.wasMentioned = true;
+        } else {
+            const trigger = matchServerChanBotGroupTrigger({
+                text,
+                requireMention: account.config.requireMention,
+                botUsername: botUsernames.get(account.accountId),
+                prefixes: account.config.groupTriggers,
+            });
+            if (!trigger.triggered) {
+                log?.debug?.(`[${account.accountId}] ${chatType} message in ${chatId} ignored (bot not mentioned)`);
+                return null;
+            }
+            admitted.body = trigger.text;
+            admitted.wasMentioned = trigger.mentioned;
+        }
+    }
+
+    return (await passesInboundRate()) ? admitted : null;
+}
+
+/**
+ * Handle an admitted update in its chat's lane: commands, attachments and the
+ * agent dispatch. A debounced message leaves the lane right away; it then
+ * resolves with a promise that settles once its merged batch was dispatched.
+ */
+async function processServerChanBotUpdate(
+    params: ServerChanBotUpdateParams & { admitted: AdmittedServerChanBotUpdate },
+): Promise<{ dispatched: Promise<void> } | undefined> {
+    const { update, account, cfg, botToken, log, statusSink, admitted } = params;
+    const { chatId, chatType, senderId, text, command, wasMentioned } = admitted;
+    const sender = update.message.from;
+    const messageId = String(update.message.message_id);
+
+    const runCommand = (found: ServerChanBotCommand) =>
+        runServerChanBotCommand({
+            command: found,
+            account,
+            botToken,
+            chatId,
+            chatType,
+            senderId,
+            botUsername: botUsernames.get(account.accountId),
+            activeMode: activeModes.get(account.accountId),
+            log,
+        });
+
+    let body = admitted.body;
+    let commandAuthorized: boolean | undefined;
+    if (command) {
+        const dispatchBody = await runCommand(command);
+        if (dispatchBody === null) {
+            return;
+        }
+        body = dispatchBody;
+        // DM senders passed the access checks on admission; group senders were checked by /reset itself
+        commandAuthorized = true;
+    }
+
+    if (!isSupportedServerChanBotMessage(update.message)) {
+        log?.info?.(`[${account.accountId}] unsupported message type from ${chatId} (message ${messageId})`);
+        // Only answered in direct chats; groups would be flooded by stickers and the like
+        if (chatType === "direct") {
+            try {
+                await sendServerChanBotNotice({
+                    account,
+                    botToken,
+                    chatId,
+                    text: UNSUPPORTED_MESSAGE_NOTICE,
+                    log,
+                });
+            } catch (err) {
+                log?.error?.(`[${account.accountId}] unsupported message notice to ${chatId} failed: ${String(err)}`);
+            }
+        }
+        return;
+    }
+
+    const pluginRuntime = getServerChanBotRuntime();
+    const attachments = collectServerChanBotAttachments(update.message);
+    const maxMediaBytes = account.config.inboundMediaMaxBytes ?? DEFAULT_INBOUND_MEDIA_MAX_BYTES;
+    const { media, placeholders } =
+        attachments.length > 0
+            ? await fetchServerChanBotAttachments({
+                accountId: account.accountId,
+                botToken,
+                apiBaseUrl: account.config.apiBaseUrl,
+                attachments,
+                maxBytes: maxMediaBytes,
+                save: (buffer, contentType, fileName) =>
+                    pluginRuntime.channel.media.saveMediaBuffer(
+                        buffer,
+                        contentType,
+                        "inbound",
+                        maxMediaBytes,
+                        fileName,
+                    ),
+                log,
+            })
+            : { media: [], placeholders: [] };
+    body = [body, ...placeholders].filter((part) => part.trim()).join("\n");
+    const replyTo = update.message.reply_to_message;
 
-    const msgContext = {
+    const msgContext: ServerChanBotInboundContext = {
         Provider: "serverchan-bot",
         Surface: "serverchan-bot",
         Channel: "serverchan-bot",
-        From: chatId,
+        From: senderId,
         To: chatId,
-        Body: text,
+        Body: body,
         RawBody: text,
-        BodyForCommands: text,
-        BodyForAgent: text,
-        ChatType: "direct" as const,
+        BodyForCommands: body,
+        BodyForAgent: body,
+        ChatType: chatType,
         AccountId: account.accountId,
         MessageSid: messageId,
         MessageSidFull: `serverchan-bot:${messageId}`,
-        SessionKey: `serverchan-bot:${chatId}`,
-        SenderId: chatId,
+        // Each group / channel gets its own session, separate from its members' DMs
+        SessionKey:
+            chatType === "direct" ? `serverchan-bot:${chatId}` : `serverchan-bot:${chatType}:${chatId}`,
+        SenderId: senderId,
+        SenderName: sender?.first_name,
+        WasMentioned: wasMentioned,
+        CommandAuthorized: commandAuthorized,
+        MediaPath: media[0]?.path,
+        MediaType: media[0]?.contentType,
+        MediaPaths: media.length > 0 ? media.map((item) => item.path) : undefined,
+        MediaTypes: media.length > 0 ? media.map((item) => item.contentType ?? "") : undefined,
+        ReplyToId: replyTo ? String(replyTo.message_id) : undefined,
+        ReplyToBody: replyTo ? (replyTo.text ?? replyTo.caption) : undefined,
+        ReplyToSender: replyTo?.from
+            ? (replyTo.from.first_name ?? String(replyTo.from.id))
+            : undefined,
         Timestamp: update.message.date ? update.message.date * 1000 : Date.now(),
     };
 
+    const inbound: PendingInbound = { account, cfg, ctx: msgContext, log, statusSink };
+    const debounceMs = account.config.inboundDebounceMs ?? 0;
+    // Keyed per sender so messages of different group members are never merged
+    const debounceKey = `${account.accountId}:${chatId}:${senderId}`;
+    if (debounceMs > 0 && !commandAuthorized) {
+        log?.debug?.(`[${account.accountId}] message ${messageId} from ${senderId} held for ${debounceMs}ms`);
+        // The update is only confirmed once the merged batch went out
+        const dispatched = new Promise<void>((resolve) => {
+            inboundDebouncer.push(debounceKey, { ...inbound, settle: resolve }, debounceMs);
+        });
+        return { dispatched };
+    }
+    // Messages still waiting go first, e.g. before a /reset (this lane is already ours)
+    const held = inboundDebouncer.take(debounceKey);
+    if (held) {
+        await dispatchServerChanBotBatch(held);
+    }
+    await dispatchServerChanBotInbound(inbound);
+    return undefined;
+}
+
+/**
+ * Merge messages a sender sent within the debounce window into one turn.
+ * Bodies are joined line by line; every message id is kept in MessageSids.
+ */
+function mergeServerChanBotInboundContexts(
+    contexts: ServerChanBotInboundContext[],
+): ServerChanBotInboundContext {
+    const first = contexts[0];
+    const last = contexts[contexts.length - 1];
+    if (contexts.length === 1) {
+        return first;
+    }
+    const join = (values: string[]) => values.filter((value) => value.trim()).join("\n");
+    const body = join(contexts.map((ctx) => ctx.Body));
+    const media = contexts.flatMap((ctx) =>
+        (ctx.MediaPaths ?? []).map((path, index) => ({ path, type: ctx.MediaTypes?.[index] ?? "" })),
+    );
+    const replyTo = contexts.find((ctx) => ctx.ReplyToId);
+    return {
+        ...last,
+        Body: body,
+        RawBody: join(contexts.map((ctx) => ctx.RawBody)),
+        BodyForCommands: body,
+        BodyForAgent: body,
+        MessageSids: contexts.map((ctx) => ctx.MessageSid),
+        MessageSidFirst: first.MessageSid,
+        MessageSidLast: last.MessageSid,
+        WasMentioned: contexts.some((ctx) => ctx.WasMentioned) ? true : last.WasMentioned,
+        MediaPath: media[0]?.path,
+        MediaType: media[0]?.type,
+        MediaPaths: media.length > 0 ? media.map((item) => item.path) : undefined,
+        MediaTypes: media.length > 0 ? media.map((item) => item.type) : undefined,
+        ReplyToId: replyTo?.ReplyToId,
+        ReplyToBody: replyTo?.ReplyToBody,
+        ReplyToSender: replyTo?.ReplyToSender,
+    };
+}
+
+async function dispatchServerChanBotBatch(items: PendingInbound[]): Promise<void> {
+    const latest = items[items.length - 1];
+    if (items.length > 1) {
+        latest.log?.info?.(
+            `[${latest.account.accountId}] merged ${items.length} messages from ${latest.ctx.SenderId} in ${latest.ctx.To}`,
+        );
+    }
     try {
-        const pluginRuntime = getServerChanBotRuntime();
-        const { queuedFinal } =
-            await pluginRuntime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
-                ctx: msgContext,
+        await dispatchServerChanBotInbound({
+            ...latest,
+            ctx: mergeServerChanBotInboundContexts(items.map((item) => item.ctx)),
+        });
+    } finally {
+        for (const item of items) {
+            item.settle?.();
+        }
+    }
+}
+
+const inboundDebouncer = createInboundDebouncer<PendingInbound>({
+    // A merged batch waits its turn in the chat's lane like any other update
+    run: async (_key, items) => {
+        const latest = items[items.length - 1];
+        try {
+            await getAccountDispatchScheduler(latest.account).run(latest.ctx.To, () =>
+                dispatchServerChanBotBatch(items),
+            );
+        } catch (err) {
+            latest.log?.error?.(`[${latest.account.accountId}] debounced dispatch failed: ${String(err)}`);
+        }
+    },
+});
+
+function getAccountDispatchScheduler(account: ResolvedServerChanBotAccount) {
+    return getServerChanBotDispatchScheduler({
+        accountId: account.accountId,
+        maxConcurrent: account.config.maxConcurrentDispatches,
+        maxLaneDepth: account.config.maxQueuedPerChat,
+    });
+}
+
+/**
+ * Check an update and queue it on its chat's lane. Webhook and polling both
+ * come through here, so a chat's updates are processed in order, one at a
+ * time. The access and rate checks run on arrival (in arrival order per chat),
+ * so throttling sees the real inbound rate; a full lane drops the update.
+ * Settles once the update was dropped or fully processed.
+ */
+function scheduleServerChanBotUpdate(params: ServerChanBotUpdateParams): Promise<void> {
+    const { update, account, log } = params;
+    const lane = String(update.message.chat?.id ?? update.message.chat_id ?? update.message.from?.id ?? "");
+    // Resolves to a box so the chain waits for admission, not for the lane task
+    const queued = chainServerChanBotAdmission(`${account.accountId}:${lane}`, async () => {
+        const admitted = await admitServerChanBotUpdate(params);
+        if (!admitted) {
+            return null;
+        }
+        const done = getAccountDispatchScheduler(account).offer(lane, () =>
+            processServerChanBotUpdate({ ...params, admitted }),
+        );
+        if (!done) {
+            log?.info?.(
+                `[${account.accountId}] update ${update.update_id} from ${lane} dropped (chat queue full)`,
+            );
+        }
+        return { done };
+    });
+    return queued.then(async (entry) => {
+        const processed = await entry?.done;
+        await processed?.dispatched;
+    });
+}
+
+/**
+ * Run the agent for an inbound message and deliver its reply
+ */
+async function dispatchServerChanBotInbound(params: PendingInbound): Promise<void> {
+    const { account, cfg, ctx, log, statusSink } = params;
+    const chatId = ctx.To;
+    const chatType = ctx.ChatType;
+    const pluginRuntime = getServerChanBotRuntime();
+
+    // Group replies always go back to the group
+    const configuredChatId = chatType === "direct" ? account.config.chatId?.trim() : undefined;
+    const targetChatId = configuredChatId || chatId;
+    const streamMode: ServerChanBotStreamMode = account.config.streamMode ?? "separate";
+    let replyStream: ServerChanBotReplyStream | undefined;
+
+    // The agent's schedule tool acts for this chat; the user behind the account's chatId owns the bot
+    const conversation = {
+        accountId: account.accountId,
+        chatId,
+        senderId: ctx.SenderId,
+        isOwner: Boolean(account.config.chatId?.trim()) && ctx.SenderId === account.config.chatId?.trim(),
+    };
+
+    recordServerChanBotDispatch(account.accountId);
+    try {
+        const { queuedFinal } = await runInServerChanBotConversation(conversation, () =>
+            pluginRuntime.channel.reply.dispatchReplyWithBufferedBlockDispatcher({
+                ctx,
                 cfg,
                 dispatcherOptions: {
-                    deliver: async (payload: { text?: string }) => {
+                    deliver: async (
+                        payload: { text?: string; mediaUrl?: string; mediaUrls?: string[] },
+                        info: { kind: string },
+                    ) => {
                         const replyText = payload.text || "";
-                        if (!replyText.trim()) {
+                        const mediaUrls = [
+                            ...(payload.mediaUrls ?? []),
+                            ...(payload.mediaUrl ? [payload.mediaUrl] : []),
+                        ].filter((url, index, all) => url.trim() && all.indexOf(url) === index);
+                        if (!replyText.trim() && mediaUrls.length === 0) {
                             return;
                         }
 
-                        const configuredChatId = account.config.chatId?.trim();
-                        const targetChatId = configuredChatId || chatId;
-
                         try {
-                            const result = await serverChanBotSendMessage(
-                                botToken,
-                                targetChatId,
-                                replyText,
-                            );
-
-                            if (!result.ok) {
-                                log?.error?.(
-                                    `[${account.accountId}] failed to send reply: ${result.error}`,
-                                );
+                            // Text blocks are appended to one message. The final payload of a
+                            // streamed reply repeats the blocks, so it only closes the stream;
+                            // media it carries still goes out on its own
+                            if (info.kind === "final" && replyStream) {
+                                await replyStream.finish();
+                                if (mediaUrls.length > 0) {
+                                    await sendServerChanBotMediaWithText({
+                                        account,
+                                        chatId: targetChatId,
+                                        mediaUrls,
+                                        log,
+                                    });
+                                }
+                            } else if (streamMode === "edit" && info.kind === "block" && mediaUrls.length === 0) {
+                                replyStream ??= createAccountReplyStream({
+                                    account,
+                                    chatId: targetChatId,
+                                    log,
+                                });
+                                await replyStream.push(replyText);
+                            } else if (mediaUrls.length > 0) {
+                                await replyStream?.finish();
+                                await sendServerChanBotMediaWithText({
+                                    account,
+                                    chatId: targetChatId,
+                                    mediaUrls,
+                                    text: replyText,
+                                    log,
+                                });
                             } else {
-                                statusSink?.({
-                                    lastOutboundAt: Date.now(),
+                                await replyStream?.finish();
+                                await sendServerChanBotChunks({
+                                    account,
+                                    chatId: targetChatId,
+                                    text: replyText,
+                                    log,
                                 });
                             }
+                            statusSink?.({
+                                lastOutboundAt: Date.now(),
+                            });
                         } catch (sendErr) {
-                            log?.error?.(`[${account.accountId}] send error: ${String(sendErr)}`);
+                            log?.error?.(
+                                `[${account.accountId}] failed to send reply: ${String(sendErr)}`,
+                            );
                         }
                     },
                     onError: (err: unknown, info: { kind: string }) => {
@@ -304,7 +856,8 @@ async function processServerChanBotUpdate(params: {
                         );
                     },
                 },
-            });
+            }),
+        );
 
         if (!queuedFinal) {
             log?.debug?.(`[${account.accountId}] no response generated for message from ${chatId}`);
@@ -312,6 +865,12 @@ async function processServerChanBotUpdate(params: {
     } catch (dispatchErr) {
         log?.error?.(`[${account.accountId}] dispatch error: ${String(dispatchErr)}`);
     }
+
+    try {
+        await replyStream?.finish();
+    } catch (sendErr) {
+        log?.error?.(`[${account.accountId}] failed to send reply: ${String(sendErr)}`);
+    }
 }
 
 export async function handleServerChanBotWebhookRequest(
@@ -319,12 +878,20 @@ export async function handleServerChanBotWebhookRequest(
     res: ServerResponse,
 ): Promise<boolean> {
     const url = new URL(req.url ?? "/", "http://localhost");
-    const path = normalizeWebhookPath(url.pathname);
+    const path = normalizeRoutePath(url.pathname);
     const targets = webhookTargets.get(path);
     if (!targets || targets.length === 0) {
         return false;
     }
 
+    const healthToken = url.searchParams.get(WEBHOOK_HEALTH_PARAM);
+    if (req.method === "GET" && healthToken) {
+        const known = targets.some((target) => target.healthToken === healthToken);
+        res.statusCode = known ? 200 : 404;
+        res.end(known ? healthToken : "unknown health token");
+        return true;
+    }
+
     if (req.method !== "POST") {
         res.statusCode = 405;
         res.setHeader("Allow", "POST");
@@ -332,164 +899,103 @@ export async function handleServerChanBotWebhookRequest(
         return true;
     }
 
-    const selected = selectWebhookTarget(targets, req.headers);
-    if (!selected) {
+    // The body is read first: HMAC signatures cover the raw payload
+    const body = await readJsonBody(req, 1024 * 1024);
+    // Rejections before target selection are attributed only when the path has one account
+    const pathAccountId = targets.length === 1 ? targets[0].account.accountId : undefined;
+
+    if (body.error === "payload too large") {
+        recordServerChanBotWebhookReject(pathAccountId, 413);
+        res.statusCode = 413;
+        res.end(body.error);
+        return true;
+    }
+
+    const selection = selectWebhookTarget(targets, req.headers, body.raw ?? "");
+    if (!selection) {
+        recordServerChanBotWebhookReject(pathAccountId, 401);
         res.statusCode = 401;
         res.end("unauthorized");
         return true;
     }
+    const selected = selection.target;
+
+    if (selection.replayKey) {
+        const replayTtlMs = 2 * (selected.maxClockSkewMs ?? DEFAULT_WEBHOOK_MAX_CLOCK_SKEW_MS);
+        const accepted = claimServerChanBotWebhookDelivery(
+            selected.account.accountId,
+            selection.replayKey,
+            replayTtlMs,
+        );
+        if (!accepted) {
+            selected.log?.info?.(`[${selected.account.accountId}] replayed webhook request rejected`);
+            recordServerChanBotWebhookReject(selected.account.accountId, 401);
+            res.statusCode = 401;
+            res.end("replayed request");
+            return true;
+        }
+    }
 
-    const body = await readJsonBody(req, 1024 * 1024);
     if (!body.ok) {
-        res.statusCode = body.error === "payload too large" ? 413 : 400;
+        recordServerChanBotWebhookReject(selected.account.accountId, 400);
+        res.statusCode = 400;
         res.end(body.error ?? "invalid payload");
         return true;
     }
 
     const update = parseWebhookPayload(body.value);
     if (!update) {
+        recordServerChanBotWebhookReject(selected.account.accountId, 400);
         res.statusCode = 400;
         res.end("invalid payload");
         return true;
     }
 
+    const accountId = selected.account.accountId;
+    if (!claimServerChanBotUpdate(accountId, update.update_id)) {
+        selected.log?.debug?.(`[${accountId}] duplicate update ${update.update_id} ignored (webhook)`);
+        res.statusCode = 200;
+        res.end("ok");
+        return true;
+    }
+
     selected.statusSink?.({ lastInboundAt: Date.now() });
-    processServerChanBotUpdate({
+    const completeUpdate = trackServerChanBotUpdate(accountId, update.update_id);
+    scheduleServerChanBotUpdate({
         update,
         account: selected.account,
         cfg: selected.config,
         botToken: selected.botToken,
         log: selected.log,
         statusSink: selected.statusSink,
-    }).catch((err) => {
-        selected.log?.error?.(`[${selected.account.accountId}] webhook error: ${String(err)}`);
-    });
+    })
+        .catch((err) => {
+            selected.log?.error?.(`[${accountId}] webhook error: ${String(err)}`);
+        })
+        .then(completeUpdate)
+        .catch((err) => {
+            selected.log?.error?.(`[${accountId}] failed to record update ${update.update_id}: ${String(err)}`);
+        });
 
     res.statusCode = 200;
     res.end("ok");
     return true;
 }
 
-/**
- * Resolve account configuration from OpenClaw config
- */
-function resolveServerChanBotAccount(params: {
-    cfg: unknown;
-    accountId?: string | null;
-}): ResolvedServerChanBotAccount {
-    const { cfg, accountId } = params;
-    const resolvedAccountId = accountId?.trim() || DEFAULT_ACCOUNT_ID;
-    const configObj = cfg as { channels?: Record<string, Record<string, unknown>> } | undefined;
-    const section = configObj?.channels?.["serverchan-bot"] ?? {};
-
-    // Check for account-specific config
-    const accounts = section.accounts as Record<string, Record<string, unknown>> | undefined;
-    const accountConfig = accounts?.[resolvedAccountId] ?? {};
-
-    // Resolve token (account-specific or top-level)
-    const botToken =
-        (accountConfig.botToken as string | undefined) ??
-        (section.botToken as string | undefined) ??
-        process.env.SERVERCHAN_BOT_TOKEN;
-
-    const tokenSource: "config" | "env" | "none" = accountConfig.botToken
-        ? "config"
-        : section.botToken
-            ? "config"
-            : process.env.SERVERCHAN_BOT_TOKEN
-                ? "env"
-                : "none";
-
-    // Resolve enabled status
-    const enabled =
-        (accountConfig.enabled as boolean | undefined) ??
-        (section.enabled as boolean | undefined) ??
-        true;
-
-    // Resolve name
-    const name =
-        (accountConfig.name as string | undefined) ?? (section.name as string | undefined);
-
-    return {
-        accountId: resolvedAccountId,
-        name,
-        enabled,
-        tokenSource,
-        config: {
-            botToken,
-            chatId:
-                String((accountConfig.chatId as string | number | undefined) ??
-                    (section.chatId as string | number | undefined) ?? "").trim() || undefined,
-            webhookUrl:
-                (accountConfig.webhookUrl as string | undefined) ??
-                (section.webhookUrl as string | undefined),
-            webhookSecret:
-                (accountConfig.webhookSecret as string | undefined) ??
-                (section.webhookSecret as string | undefined),
-            webhookPath:
-                (accountConfig.webhookPath as string | undefined) ??
-                (section.webhookPath as string | undefined),
-            dmPolicy:
-                (accountConfig.dmPolicy as string | undefined) ??
-                (section.dmPolicy as string | undefined),
-            allowFrom:
-                (accountConfig.allowFrom as Array<string | number> | undefined) ??
-                (section.allowFrom as Array<string | number> | undefined),
-            pollingEnabled:
-                (accountConfig.pollingEnabled as boolean | undefined) ??
-                (section.pollingEnabled as boolean | undefined),
-            pollingIntervalMs:
-                (accountConfig.pollingIntervalMs as number | undefined) ??
-                (section.pollingIntervalMs as number | undefined) ??
-                3000, // Default 3 second polling interval
-        },
-    };
-}
-
-/**
- * List all account IDs configured for Server酱³ Bot
- */
-function listServerChanBotAccountIds(cfg: unknown): string[] {
-    const configObj = cfg as { channels?: Record<string, Record<string, unknown>> } | undefined;
-    const section = configObj?.channels?.["serverchan-bot"];
-    if (!section) {
-        return [DEFAULT_ACCOUNT_ID];
-    }
-
-    const accounts = section.accounts as Record<string, unknown> | undefined;
-    if (!accounts || typeof accounts !== "object") {
-        return [DEFAULT_ACCOUNT_ID];
-    }
-
-    const ids = Object.keys(accounts).filter((id) => id.trim());
-    if (ids.length === 0) {
-        return [DEFAULT_ACCOUNT_ID];
-    }
-
-    // Ensure default is first if present
-    if (!ids.includes(DEFAULT_ACCOUNT_ID)) {
-        ids.unshift(DEFAULT_ACCOUNT_ID);
-    }
-
-    return ids;
-}
-
 /**
  * Probe Server酱³ Bot API to verify credentials
  */
 async function probeServerChanBot(
     token: string | undefined,
-    _timeoutMs: number,
+    timeoutMs: number,
+    apiBaseUrl?: string,
 ): Promise<ServerChanBotProbe> {
     if (!token) {
         return { ok: false, error: "No bot token configured" };
     }
 
     try {
-        const result = await serverChanBotGetMe(token);
-        if (!result.ok) {
-            return { ok: false, error: result.error ?? "Unknown error" };
-        }
+        const result = await serverChanBotGetMe(token, { apiBaseUrl, timeoutMs });
         return {
             ok: true,
             bot: result.result,
@@ -502,39 +1008,118 @@ async function probeServerChanBot(
     }
 }
 
+const DEFAULT_POLLING_TIMEOUT_SEC = 30;
+const POLLING_BACKOFF_BASE_MS = 1000;
+const POLLING_BACKOFF_MAX_MS = 60_000;
+
+/**
+ * Delay after `failures` consecutive polling errors: exponential, capped, with jitter
+ */
+function computePollingBackoffMs(failures: number): number {
+    const exp = Math.min(
+        POLLING_BACKOFF_MAX_MS,
+        POLLING_BACKOFF_BASE_MS * 2 ** Math.max(0, failures - 1),
+    );
+    return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
 /**
  * Monitor Server酱³ Bot for incoming messages (polling mode)
+ *
+ * Requests start at most every `intervalMs`; each is a getUpdates long poll of
+ * `timeoutSec` (0 = short polling). Failures back off exponentially until the
+ * next successful poll.
  */
 async function monitorServerChanBotPolling(params: {
     token: string;
+    apiBaseUrl?: string;
     accountId: string;
     config: unknown;
     runtime: unknown;
     abortSignal: AbortSignal;
     intervalMs?: number;
+    timeoutSec?: number;
+    log?: ServerChanBotLog;
+    statusSink?: (patch: ServerChanBotStatusPatch) => void;
     onUpdate: (update: ServerChanUpdate) => Promise<void>;
 }): Promise<void> {
-    const { token, abortSignal, onUpdate, intervalMs = 3000 } = params;
+    const { token, apiBaseUrl, accountId, abortSignal, onUpdate, log, statusSink } = params;
+    const intervalMs = Math.max(0, params.intervalMs ?? 3000);
+    const timeoutSec = Math.max(0, Math.floor(params.timeoutSec ?? DEFAULT_POLLING_TIMEOUT_SEC));
     let offset = 0;
+    try {
+        const lastUpdateId = await readLastUpdateId(accountId);
+        if (lastUpdateId !== undefined) {
+            offset = lastUpdateId + 1;
+            log?.debug?.(`[${accountId}] resuming polling from offset ${offset}`);
+        }
+    } catch (err) {
+        log?.error?.(`[${accountId}] failed to read polling offset: ${String(err)}`);
+    }
 
+    let consecutiveFailures = 0;
     while (!abortSignal.aborted) {
+        const startedAt = Date.now();
         try {
             const result = await serverChanBotGetUpdates(token, {
-                timeout: 30,
+                timeout: timeoutSec,
                 offset,
+                apiBaseUrl,
+                signal: abortSignal,
             });
 
-            if (result.ok && result.result.length > 0) {
+            if (consecutiveFailures > 0) {
+                log?.info?.(`[${accountId}] polling recovered after ${consecutiveFailures} failure(s)`);
+                consecutiveFailures = 0;
+                statusSink?.({ pollingConsecutiveFailures: 0, lastError: null });
+            }
+
+            if (result.result.length > 0) {
                 for (const update of result.result) {
                     offset = update.update_id + 1;
-                    await onUpdate(update);
+                    if (!claimServerChanBotUpdate(accountId, update.update_id)) {
+                        log?.debug?.(
+                            `[${accountId}] duplicate update ${update.update_id} ignored (polling)`,
+                        );
+                        continue;
+                    }
+                    // Processing runs in the chat's lane; the offset is confirmed once it
+                    // and every earlier update finished
+                    const completeUpdate = trackServerChanBotUpdate(accountId, update.update_id);
+                    onUpdate(update)
+                        .catch((err) => {
+                            log?.error?.(`[${accountId}] update ${update.update_id} failed: ${String(err)}`);
+                        })
+                        .then(completeUpdate)
+                        .catch((err) => {
+                            log?.error?.(`[${accountId}] failed to record update ${update.update_id}: ${String(err)}`);
+                        });
                 }
             }
+            // Skip past malformed updates the API client dropped
+            if (result.nextOffset !== undefined && result.nextOffset > offset) {
+                log?.debug?.(`[${accountId}] skipping malformed updates before offset ${result.nextOffset}`);
+                offset = result.nextOffset;
+            }
+            await sleepWithAbort(intervalMs - (Date.now() - startedAt), abortSignal);
         } catch (err) {
-            // Log error but continue polling
-            console.error("[serverchan-bot] Polling error:", err);
-            // Wait before retrying
-            await new Promise((resolve) => setTimeout(resolve, 5000));
+            if (abortSignal.aborted) {
+                break;
+            }
+            consecutiveFailures += 1;
+            recordServerChanBotPollingError(accountId);
+            const message = err instanceof Error ? err.message : String(err);
+            const retryAfterMs = err instanceof ServerChanApiError ? (err.retryAfterMs ?? 0) : 0;
+            const delayMs = Math.max(computePollingBackoffMs(consecutiveFailures), retryAfterMs);
+            log?.error?.(
+                `[${accountId}] polling error (${consecutiveFailures} consecutive): ${message}; retrying in ${delayMs}ms`,
+            );
+            statusSink?.({
+                pollingConsecutiveFailures: consecutiveFailures,
+                lastPollingErrorAt: Date.now(),
+                lastError: message,
+            });
+            await sleepWithAbort(delayMs, abortSignal);
         }
     }
 }
@@ -551,16 +1136,19 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
             if (!account.config.botToken) {
                 throw new Error("Server酱³ Bot token not configured");
             }
-            await serverChanBotSendMessage(
-                account.config.botToken,
-                id,
-                "✅ 您已被授权使用此 Bot。",
-            );
+            await sendServerChanBotText({
+                accountId: account.accountId,
+                botToken: account.config.botToken,
+                apiBaseUrl: account.config.apiBaseUrl,
+                chatId: id,
+                text: "✅ 您已被授权使用此 Bot。",
+                rateLimit: account.config.outboundRateLimit,
+            });
         },
     },
     capabilities: {
-        chatTypes: ["direct"],
-        media: false,
+        chatTypes: ["direct", "group", "channel"],
+        media: true,
         reactions: false,
         threads: false,
         polls: false,
@@ -612,16 +1200,22 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
             };
         },
     },
+    groups: {
+        resolveRequireMention: ({ cfg, accountId }) =>
+            resolveServerChanBotAccount({ cfg, accountId }).config.requireMention ?? true,
+    },
     messaging: {
         normalizeTarget: (raw) => {
             const trimmed = raw.trim();
             if (!trimmed) {
                 return undefined;
             }
-            // Remove channel prefix if present
-            const normalized = trimmed.replace(/^serverchan(-bot)?:/i, "");
-            // Should be a numeric UID
-            if (/^\d+$/.test(normalized)) {
+            // Remove channel and chat type prefixes if present
+            const normalized = trimmed
+                .replace(/^serverchan(-bot)?:/i, "")
+                .replace(/^(group|channel):/i, "");
+            // Should be a numeric UID or group / channel chat id (may be negative)
+            if (/^-?\d+$/.test(normalized)) {
                 return normalized;
             }
             return undefined;
@@ -632,32 +1226,94 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
                 if (!value) {
                     return false;
                 }
-                return /^\d+$/.test(value);
+                return /^-?\d+$/.test(value);
             },
-            hint: "<uid>",
+            hint: "<uid|groupId>",
         },
     },
+    agentTools: ({ cfg }) => {
+        const configured = listServerChanBotAccountIds(cfg).some(
+            (accountId) => resolveServerChanBotAccount({ cfg, accountId }).tokenSource !== "none",
+        );
+        if (!cfg || !configured) {
+            return [];
+        }
+        return [
+            createServerChanBotScheduleTool({
+                resolveTarget: (accountId) => {
+                    const account = resolveServerChanBotAccount({ cfg, accountId });
+                    if (account.tokenSource === "none") {
+                        throw new Error(`Server酱³ Bot account "${account.accountId}" is not configured`);
+                    }
+                    return {
+                        accountId: account.accountId,
+                        scheduler: getStartedAccountScheduler(account),
+                        defaultChatId: account.config.chatId,
+                        fixedRecipient: account.type === "sendKey",
+                    };
+                },
+            }),
+        ];
+    },
     outbound: {
         deliveryMode: "direct",
-        chunker: (text, limit) => getServerChanBotRuntime().channel.text.chunkText(text, limit),
-        chunkerMode: "text",
-        textChunkLimit: 4000,
+        // Chunking happens in sendText so the per-account textChunkLimit applies
+        chunker: null,
+        textChunkLimit: DEFAULT_TEXT_CHUNK_LIMIT,
         sendText: async ({ to, text, accountId, cfg }) => {
             const account = resolveServerChanBotAccount({ cfg, accountId });
+            if (account.type === "sendKey") {
+                // The push goes to the key owner; the target is only echoed back
+                const pushId = await sendServerChanBotSendKeyPush({ account, text });
+                return { channel: "serverchan-bot", messageId: pushId ?? "unknown", to };
+            }
             if (!account.config.botToken) {
                 throw new Error("Server酱³ Bot token not configured");
             }
 
-            const result = await serverChanBotSendMessage(account.config.botToken, to, text);
+            // Backpressure: tell the caller how long the send limiter expected this message to wait
+            const estimatedDelayMs = estimateServerChanBotSendDelayMs(
+                account.config.botToken,
+                describeServerChanBotOutboundQueue(account.accountId).outboundQueueDepth,
+            );
+            const sent = (await sendServerChanBotChunks({ account, chatId: to, text })).at(-1);
 
-            if (!result.ok) {
-                throw new Error(result.error ?? "Failed to send message");
+            return {
+                channel: "serverchan-bot",
+                messageId: sent?.message_id ? String(sent.message_id) : "unknown",
+                to,
+                meta: { estimatedDelayMs },
+            };
+        },
+        sendMedia: async ({ to, text, mediaUrl, accountId, cfg }) => {
+            const account = resolveServerChanBotAccount({ cfg, accountId });
+            if (account.type === "sendKey") {
+                const pushId = await sendServerChanBotSendKeyPush({
+                    account,
+                    text,
+                    mediaUrls: mediaUrl ? [mediaUrl] : [],
+                });
+                return { channel: "serverchan-bot", messageId: pushId ?? "unknown", to };
+            }
+            if (!account.config.botToken) {
+                throw new Error("Server酱³ Bot token not configured");
             }
 
+            const estimatedDelayMs = estimateServerChanBotSendDelayMs(
+                account.config.botToken,
+                describeServerChanBotOutboundQueue(account.accountId).outboundQueueDepth,
+            );
+            const sent = (
+                mediaUrl
+                    ? await sendServerChanBotMediaWithText({ account, chatId: to, mediaUrls: [mediaUrl], text })
+                    : await sendServerChanBotChunks({ account, chatId: to, text })
+            ).at(-1);
+
             return {
                 channel: "serverchan-bot",
-                messageId: result.result?.message_id ? String(result.result.message_id) : "unknown",
+                messageId: sent?.message_id ? String(sent.message_id) : "unknown",
                 to,
+                meta: { estimatedDelayMs },
             };
         },
     },
@@ -669,20 +1325,7 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
             lastStopAt: null,
             lastError: null,
         },
-        collectStatusIssues: (accounts) => {
-            const issues: ChannelStatusIssue[] = [];
-            for (const account of accounts) {
-                if (!account.configured) {
-                    issues.push({
-                        channel: "serverchan-bot",
-                        accountId: account.accountId ?? DEFAULT_ACCOUNT_ID,
-                        kind: "config",
-                        message: "Server酱³ Bot token not configured",
-                    });
-                }
-            }
-            return issues;
-        },
+        collectStatusIssues: (accounts) => collectServerChanBotStatusIssues(accounts),
         buildChannelSummary: async ({ snapshot }) => ({
             configured: snapshot.configured ?? false,
             tokenSource: snapshot.tokenSource ?? "none",
@@ -694,15 +1337,27 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
             lastProbeAt: snapshot.lastProbeAt ?? null,
         }),
         probeAccount: async ({ account, timeoutMs }) =>
-            probeServerChanBot(account.config.botToken, timeoutMs),
+            // The SendKey API has no side-effect-free check; only the key's presence is probed
+            account.type === "sendKey"
+                ? account.config.sendKey
+                    ? { ok: true }
+                    : { ok: false, error: "No SendKey configured" }
+                : probeServerChanBot(account.config.botToken, timeoutMs, account.config.apiBaseUrl),
         buildAccountSnapshot: ({ account, runtime, probe }) => {
             const configured = account.tokenSource !== "none";
-            return {
+            const status = runtime as (ChannelAccountSnapshot & ServerChanBotStatusPatch) | undefined;
+            const outboundOnly = account.type === "sendKey";
+            const receiveMode = outboundOnly
+                ? undefined
+                : (status?.receiveMode ?? resolveServerChanBotReceiveMode(account.config));
+            const snapshot: ServerChanBotAccountSnapshot = {
                 accountId: account.accountId,
                 name: account.name,
                 enabled: account.enabled,
                 configured,
                 tokenSource: account.tokenSource,
+                accountType: account.type,
+                outboundOnly,
                 running: runtime?.running ?? false,
                 lastStartAt: runtime?.lastStartAt ?? null,
                 lastStopAt: runtime?.lastStopAt ?? null,
@@ -710,30 +1365,130 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
                 probe,
                 lastInboundAt: runtime?.lastInboundAt ?? null,
                 lastOutboundAt: runtime?.lastOutboundAt ?? null,
+                chatId: account.config.chatId,
+                webhookUrl: runtime?.webhookUrl,
+                webhookPath:
+                    !receiveMode || receiveMode === "polling"
+                        ? undefined
+                        : (resolveWebhookPath(account.config.webhookPath, account.config.webhookUrl) ??
+                            undefined),
+                webhookSecretConfigured: Boolean(account.config.webhookSecret?.trim()),
+                pushPath: account.config.pushPath?.trim() || undefined,
+                pushKeyConfigured: Boolean(account.config.pushKey?.trim()),
+                webhookMismatch: status?.webhookMismatch ?? null,
+                receiveMode,
+                mode: status?.mode,
+                modeSwitchCount: status?.modeSwitchCount ?? 0,
+                lastModeSwitchAt: status?.lastModeSwitchAt ?? null,
+                lastModeSwitchReason: status?.lastModeSwitchReason ?? null,
+                webhookFailoverBlocked: status?.webhookFailoverBlocked ?? null,
+                pollingConsecutiveFailures: status?.pollingConsecutiveFailures ?? 0,
+                lastPollingErrorAt: status?.lastPollingErrorAt ?? null,
+                inboundIdleWarningMs: account.config.inboundIdleWarningMs,
+                ...describeServerChanBotOutboundQueue(account.accountId),
+                ...describeServerChanBotInboundRate(account.accountId),
+                ...describeServerChanBotDispatchLanes(account.accountId),
+                ...describeServerChanBotScheduler(account.accountId),
+                ...describeServerChanBotSendLimiter(
+                    outboundOnly ? account.config.sendKey : account.config.botToken,
+                ),
             };
+            return snapshot;
         },
     },
     gateway: {
         startAccount: async (ctx) => {
             const { account, log, setStatus, abortSignal, cfg, runtime } = ctx;
-            const { botToken, pollingEnabled, pollingIntervalMs } = account.config;
+            const { botToken, pollingIntervalMs } = account.config;
             const typedConfig = cfg as OpenClawConfig;
-            const statusSink = (patch: { lastInboundAt?: number; lastOutboundAt?: number }) =>
+            const statusSink = (patch: ServerChanBotStatusPatch) => {
+                if (patch.mode) {
+                    activeModes.set(account.accountId, patch.mode);
+                }
                 setStatus({ accountId: account.accountId, ...patch });
+            };
+
+            // Metrics, the script push endpoint and scheduled messages serve both account types.
+            // Resolves after an abort once scheduled messages still sending have finished.
+            const startSharedServices = (): Promise<void> => {
+                const metricsPath = account.config.metricsPath?.trim();
+                if (metricsPath) {
+                    const unregisterMetrics = registerServerChanBotMetricsRoute({
+                        path: metricsPath,
+                        token: account.config.metricsToken?.trim() || undefined,
+                    });
+                    abortSignal.addEventListener("abort", unregisterMetrics, { once: true });
+                }
+
+                const pushPath = account.config.pushPath?.trim();
+                const pushKey = account.config.pushKey?.trim();
+                if (pushPath && pushKey) {
+                    const unregisterPush = registerServerChanBotPushRoute({
+                        path: pushPath,
+                        key: pushKey,
+                        account,
+                        log,
+                        statusSink,
+                    });
+                    abortSignal.addEventListener("abort", unregisterPush, { once: true });
+                } else if (pushPath) {
+                    log?.error?.(`[${account.accountId}] pushPath is set without pushKey; push endpoint disabled`);
+                }
+
+                setAccountSchedulerSinks(account.accountId, { log, statusSink });
+                const stopScheduler = getAccountScheduler(account, log, statusSink).start();
+                return new Promise<void>((resolve) => {
+                    // Stopping the queue releases scheduled runs waiting on delivery, so neither waits out retries
+                    const stop = () =>
+                        void Promise.all([stopServerChanBotOutboundQueue(account.accountId), stopScheduler()]).then(
+                            () => resolve(),
+                        );
+                    abortSignal.addEventListener("abort", stop, { once: true });
+                });
+            };
+
+            if (account.type === "sendKey") {
+                if (!account.config.sendKey) {
+                    throw new Error("Server酱 SendKey not configured");
+                }
+                const sharedServicesStopped = startSharedServices();
+                log?.info(`[${account.accountId}] Server酱 SendKey account ready (outbound only; no polling or webhook)`);
+                setStatus({
+                    accountId: account.accountId,
+                    running: true,
+                    lastStartAt: Date.now(),
+                });
+                await waitForAbort(abortSignal);
+                await sharedServicesStopped;
+                return;
+            }
 
             if (!botToken) {
                 throw new Error("Server酱³ Bot token not configured");
             }
 
+            // Resume replies left pending by a previous run
+            getAccountOutboundQueue(account, log);
+            const sharedServicesStopped = startSharedServices();
+            // Messages held for debouncing are dispatched now instead of waiting out their window
+            abortSignal.addEventListener(
+                "abort",
+                () => void inboundDebouncer.flush((key) => key.startsWith(`${account.accountId}:`)),
+                { once: true },
+            );
+
             let botLabel = "";
             try {
-                const probe = await probeServerChanBot(botToken, 5000);
+                const probe = await probeServerChanBot(botToken, 5000, account.config.apiBaseUrl);
                 if (probe.ok && probe.bot?.name) {
                     botLabel = ` (${probe.bot.name})`;
                 }
                 if (probe.ok && probe.bot) {
                     setStatus({ accountId: account.accountId, bot: probe.bot });
                 }
+                if (probe.ok && probe.bot?.username) {
+                    botUsernames.set(account.accountId, probe.bot.username);
+                }
             } catch (err) {
                 log?.debug?.(`[${account.accountId}] bot probe failed: ${String(err)}`);
             }
@@ -745,22 +1500,45 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
                 lastStartAt: Date.now(),
             });
 
-            const hasWebhookConfig =
-                Boolean(account.config.webhookUrl?.trim()) ||
-                Boolean(account.config.webhookPath?.trim()) ||
-                Boolean(account.config.webhookSecret?.trim());
-
-            // Mode selection:
-            // - If pollingEnabled is explicitly set, it wins.
-            // - Otherwise, fall back to webhook when webhook config exists; else polling.
-            const shouldPoll = typeof pollingEnabled === "boolean" ? pollingEnabled : !hasWebhookConfig;
-            const wantsWebhook = typeof pollingEnabled === "boolean" ? !pollingEnabled : hasWebhookConfig;
+            const receiveMode = resolveServerChanBotReceiveMode(account.config);
+            const wantsWebhook = receiveMode !== "polling";
 
             const webhookPath = wantsWebhook
                 ? resolveWebhookPath(account.config.webhookPath, account.config.webhookUrl)
                 : null;
+            const healthToken = receiveMode === "hybrid" ? randomUUID() : undefined;
+            let webhookUrl: string | undefined;
+            let registerRemoteWebhook = false;
+            let remoteWebhookRegistered = false;
+            const webhookSecret = account.config.webhookSecret?.trim() || undefined;
+            const syncRemoteWebhook = async (url: string, register: boolean) => {
+                const registration = await syncServerChanBotWebhook({
+                    accountId: account.accountId,
+                    botToken,
+                    apiBaseUrl: account.config.apiBaseUrl,
+                    url,
+                    secret: webhookSecret,
+                    register,
+                    log,
+                });
+                remoteWebhookRegistered = registration.registered;
+                statusSink({ webhookUrl: url, webhookMismatch: registration.mismatch });
+                return registration;
+            };
+            const releaseRemoteWebhook = async () => {
+                if (!remoteWebhookRegistered) {
+                    return;
+                }
+                remoteWebhookRegistered = false;
+                await releaseServerChanBotWebhook({
+                    accountId: account.accountId,
+                    botToken,
+                    apiBaseUrl: account.config.apiBaseUrl,
+                    log,
+                });
+            };
+
             if (wantsWebhook && webhookPath) {
-                const webhookSecret = account.config.webhookSecret?.trim() || undefined;
                 const unregister = registerServerChanBotWebhookTarget({
                     account,
                     config: typedConfig,
@@ -768,36 +1546,52 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
                     botToken,
                     path: webhookPath,
                     secret: webhookSecret,
+                    authMode: account.config.webhookAuthMode,
+                    maxClockSkewMs: account.config.webhookMaxClockSkewMs,
+                    healthToken,
                     statusSink,
                 });
                 abortSignal.addEventListener("abort", unregister, { once: true });
-                const webhookUrl =
-                    account.config.webhookUrl?.trim() ??
-                    buildWebhookUrlFromConfig({ cfg: typedConfig, path: webhookPath });
+                const configuredUrl = account.config.webhookUrl?.trim();
+                webhookUrl =
+                    configuredUrl || buildWebhookUrlFromConfig({ cfg: typedConfig, path: webhookPath });
                 log?.info?.(`[${account.accountId}] webhook url: ${webhookUrl}`);
                 if (!webhookSecret) {
                     log?.info?.(`[${account.accountId}] webhook secret not configured`);
+                    if (account.config.webhookAuthMode === "hmac") {
+                        log?.error?.(
+                            `[${account.accountId}] webhookAuthMode "hmac" requires webhookSecret; all webhook requests will be rejected`,
+                        );
+                    }
+                }
+
+                // A URL derived from a loopback gateway bind is not reachable by Server酱³
+                registerRemoteWebhook = account.config.webhookAutoRegister ?? true;
+                if (registerRemoteWebhook && !configuredUrl && isUnreachableWebhookUrl(webhookUrl)) {
+                    log?.info?.(
+                        `[${account.accountId}] not registering ${webhookUrl} (not publicly reachable); set webhookUrl to register automatically`,
+                    );
+                    registerRemoteWebhook = false;
                 }
+                await syncRemoteWebhook(webhookUrl, registerRemoteWebhook);
             } else if (wantsWebhook && !webhookPath) {
                 log?.error?.(`[${account.accountId}] webhook path could not be derived`);
             }
 
-            // Only start polling if enabled
-            if (!shouldPoll) {
-                log?.info(`[${account.accountId}] polling disabled, waiting for webhook`);
-                return;
-            }
-
-            try {
-                await monitorServerChanBotPolling({
+            const runPolling = (signal: AbortSignal) =>
+                monitorServerChanBotPolling({
                     token: botToken,
+                    apiBaseUrl: account.config.apiBaseUrl,
                     accountId: account.accountId,
                     config: cfg,
                     runtime,
-                    abortSignal,
+                    abortSignal: signal,
                     intervalMs: pollingIntervalMs,
+                    timeoutSec: account.config.pollingTimeoutSec,
+                    log,
+                    statusSink,
                     onUpdate: async (update) => {
-                        await processServerChanBotUpdate({
+                        await scheduleServerChanBotUpdate({
                             update,
                             account,
                             cfg: typedConfig,
@@ -807,6 +1601,65 @@ export const serverChanBotPlugin: ChannelPlugin<ResolvedServerChanBotAccount, Se
                         });
                     },
                 });
+
+            if (receiveMode === "hybrid" && webhookUrl && healthToken) {
+                let modeSwitchCount = 0;
+                statusSink({ receiveMode, mode: "webhook", modeSwitchCount });
+                const finalMode = await runServerChanBotHybridReceiver({
+                    accountId: account.accountId,
+                    botToken,
+                    apiBaseUrl: account.config.apiBaseUrl,
+                    webhookUrl,
+                    healthToken,
+                    managesRemoteWebhook: registerRemoteWebhook,
+                    checkIntervalMs: account.config.webhookHealthCheckIntervalMs,
+                    failoverThreshold: account.config.webhookFailoverThreshold,
+                    abortSignal,
+                    log,
+                    registerWebhook: async () => {
+                        if (!registerRemoteWebhook || !webhookUrl) {
+                            return true;
+                        }
+                        return (await syncRemoteWebhook(webhookUrl, true)).registered;
+                    },
+                    releaseWebhook: releaseRemoteWebhook,
+                    poll: runPolling,
+                    onModeChange: ({ mode, reason, at }) => {
+                        modeSwitchCount += 1;
+                        statusSink({
+                            mode,
+                            modeSwitchCount,
+                            lastModeSwitchAt: at,
+                            lastModeSwitchReason: reason,
+                        });
+                    },
+                    onFailoverBlocked: (problem) => statusSink({ webhookFailoverBlocked: problem }),
+                });
+                if (finalMode === "webhook") {
+                    await releaseRemoteWebhook();
+                }
+                await sharedServicesStopped;
+                return;
+            }
+
+            const activeMode: ServerChanBotActiveMode = receiveMode === "webhook" ? "webhook" : "polling";
+            if (receiveMode === "hybrid") {
+                log?.error?.(`[${account.accountId}] hybrid mode needs a webhook path; using polling only`);
+            }
+            statusSink({ receiveMode, mode: activeMode });
+
+            // Only start polling if enabled
+            if (activeMode === "webhook") {
+                log?.info(`[${account.accountId}] polling disabled, waiting for webhook`);
+                await waitForAbort(abortSignal);
+                await releaseRemoteWebhook();
+                await sharedServicesStopped;
+                return;
+            }
+
+            try {
+                await runPolling(abortSignal);
+                await sharedServicesStopped;
             } catch (err) {
                 setStatus({
                     accountId: account.accountId,
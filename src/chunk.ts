@@ -0,0 +1,305 @@
+/**
+ * Markdown-safe text chunking for Server酱³ Bot
+ *
+ * Text is split into units (fenced code blocks, tables, list items with their
+ * continuation lines, other lines) which are packed greedily up to the limit.
+ * Splits never fall inside a markdown link or inline code span; an oversized
+ * code block is split between lines and each part is re-fenced, an oversized
+ * table between rows with the header repeated in every part.
+ *
+ * Sizes are measured with an optional `measure` function, so markdown can be
+ * chunked by the length it will have once formatted for sending.
+ */
+
+export const DEFAULT_TEXT_CHUNK_LIMIT = 4000;
+
+type Unit =
+    | { kind: "code"; open: string; close: string; body: string[] }
+    | { kind: "table"; header: string[]; rows: string[] }
+    | { kind: "text"; text: string };
+
+type Measure = (text: string) => number;
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/;
+const LIST_ITEM_RE = /^\s{0,3}(?:[-*+]|\d{1,9}[.)])\s+/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+const measureLength: Measure = (text) => text.length;
+
+function parseUnits(text: string): Unit[] {
+    const units: Unit[] = [];
+    const lines = text.split("\n");
+    let index = 0;
+
+    while (index < lines.length) {
+        const line = lines[index];
+        const fence = FENCE_RE.exec(line);
+        if (fence) {
+            const marker = fence[1];
+            const body: string[] = [];
+            let close = marker;
+            index += 1;
+            while (index < lines.length) {
+                const closing = FENCE_RE.exec(lines[index]);
+                if (closing && closing[1][0] === marker[0] && closing[1].length >= marker.length) {
+                    close = lines[index];
+                    index += 1;
+                    break;
+                }
+                body.push(lines[index]);
+                index += 1;
+            }
+            units.push({ kind: "code", open: line, close, body });
+            continue;
+        }
+
+        const next = lines[index + 1];
+        if (line.includes("|") && next !== undefined && TABLE_SEPARATOR_RE.test(next)) {
+            const rows: string[] = [];
+            index += 2;
+            while (index < lines.length && lines[index].includes("|") && lines[index].trim()) {
+                rows.push(lines[index]);
+                index += 1;
+            }
+            units.push({ kind: "table", header: [line, next], rows });
+            continue;
+        }
+
+        if (LIST_ITEM_RE.test(line)) {
+            const itemLines = [line];
+            index += 1;
+            // Continuation lines are indented and are not a new item or fence
+            while (
+                index < lines.length &&
+                /^\s{2,}\S/.test(lines[index]) &&
+                !LIST_ITEM_RE.test(lines[index]) &&
+                !FENCE_RE.test(lines[index])
+            ) {
+                itemLines.push(lines[index]);
+                index += 1;
+            }
+            units.push({ kind: "text", text: itemLines.join("\n") });
+            continue;
+        }
+
+        units.push({ kind: "text", text: line });
+        index += 1;
+    }
+    return units;
+}
+
+function renderUnit(unit: Unit): string {
+    if (unit.kind === "code") {
+        return [unit.open, ...unit.body, unit.close].join("\n");
+    }
+    return unit.kind === "table" ? [...unit.header, ...unit.rows].join("\n") : unit.text;
+}
+
+/**
+ * Index ranges that must not be split (links and inline code)
+ */
+function protectedRanges(text: string): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    const re = /!?\[[^\]\n]*\]\([^)\s]*(?:\s+"[^"]*")?\)|`+[^`]*`+/g;
+    let match: RegExpExecArray | null;
+    while ((match = re.exec(text)) !== null) {
+        ranges.push([match.index, match.index + match[0].length]);
+    }
+    return ranges;
+}
+
+/**
+ * Split a single over-long text unit on whitespace, keeping links and code spans intact
+ */
+function splitLongText(text: string, limit: number): string[] {
+    const parts: string[] = [];
+    let rest = text;
+    while (rest.length > limit) {
+        const ranges = protectedRanges(rest);
+        const insideRange = (pos: number) => ranges.some(([start, end]) => pos > start && pos < end);
+
+        let cut = -1;
+        for (let pos = limit; pos > 0; pos -= 1) {
+            if (/\s/.test(rest[pos]) && !insideRange(pos)) {
+                cut = pos;
+                break;
+            }
+        }
+        if (cut <= 0) {
+            // No safe whitespace: break before a protected span that crosses the limit, else hard-cut
+            const crossing = ranges.find(([start, end]) => start > 0 && start < limit && end > limit);
+            cut = crossing ? crossing[0] : limit;
+        }
+        parts.push(rest.slice(0, cut).trimEnd());
+        rest = rest.slice(cut).replace(/^[ \t]+/, "").replace(/^\n/, "");
+    }
+    if (rest) {
+        parts.push(rest);
+    }
+    return parts;
+}
+
+/**
+ * Split an over-long fenced block between lines, re-fencing every part
+ */
+function splitLongCode(unit: Extract<Unit, { kind: "code" }>, limit: number): string[] {
+    const overhead = unit.open.length + unit.close.length + 2;
+    const budget = Math.max(1, limit - overhead);
+    const parts: string[] = [];
+    let current: string[] = [];
+    let size = 0;
+
+    const flush = () => {
+        if (current.length > 0) {
+            parts.push([unit.open, ...current, unit.close].join("\n"));
+            current = [];
+            size = 0;
+        }
+    };
+
+    for (const line of unit.body) {
+        const pieces: string[] = [];
+        for (let start = 0; start < line.length || pieces.length === 0; start += budget) {
+            pieces.push(line.slice(start, start + budget));
+        }
+        for (const piece of pieces) {
+            const added = piece.length + (current.length > 0 ? 1 : 0);
+            if (size + added > budget) {
+                flush();
+            }
+            size += piece.length + (current.length > 0 ? 1 : 0);
+            current.push(piece);
+        }
+    }
+    flush();
+    return parts.length > 0 ? parts : [renderUnit(unit)];
+}
+
+/**
+ * Split an over-long table between rows, repeating the header in every part.
+ * A row too long for a part of its own is split as text.
+ */
+function splitLongTable(unit: Extract<Unit, { kind: "table" }>, limit: number, measure: Measure): string[] {
+    const parts: string[] = [];
+    let current: string[] = [];
+    const render = (rows: string[]) => [...unit.header, ...rows].join("\n");
+
+    for (const row of unit.rows) {
+        if (current.length > 0 && measure(render([...current, row])) > limit) {
+            parts.push(render(current));
+            current = [];
+        }
+        if (current.length === 0 && measure(render([row])) > limit) {
+            parts.push(...splitToFit(render([row]), limit, measure, splitLongText));
+            continue;
+        }
+        current.push(row);
+    }
+    if (current.length > 0 || parts.length === 0) {
+        parts.push(render(current));
+    }
+    return parts;
+}
+
+/**
+ * Split with a raw-length budget, shrinking it until every piece measures within the limit
+ */
+function splitToFit(
+    text: string,
+    limit: number,
+    measure: Measure,
+    split: (text: string, budget: number) => string[],
+): string[] {
+    let budget = limit;
+    for (;;) {
+        const pieces = split(text, budget);
+        const overflow = Math.max(...pieces.map((piece) => measure(piece) - limit));
+        if (overflow <= 0 || budget <= 1) {
+            return pieces;
+        }
+        budget = Math.max(1, budget - overflow);
+    }
+}
+
+function packChunks(text: string, limit: number, measure: Measure): string[] {
+    const chunks: string[] = [];
+    let current = "";
+    let currentSize = 0;
+
+    // Units are measured on their own; formatting never spans units
+    const push = (piece: string) => {
+        const size = measure(piece);
+        if (!current) {
+            current = piece;
+            currentSize = size;
+            return;
+        }
+        if (currentSize + 1 + size <= limit) {
+            current = `${current}\n${piece}`;
+            currentSize += 1 + size;
+            return;
+        }
+        chunks.push(current);
+        current = piece;
+        currentSize = size;
+    };
+
+    for (const unit of parseUnits(text)) {
+        const rendered = renderUnit(unit);
+        if (measure(rendered) <= limit) {
+            push(rendered);
+            continue;
+        }
+        const pieces =
+            unit.kind === "code"
+                ? splitToFit(rendered, limit, measure, (_text, budget) => splitLongCode(unit, budget))
+                : unit.kind === "table"
+                  ? splitLongTable(unit, limit, measure)
+                  : splitToFit(rendered, limit, measure, splitLongText);
+        for (const piece of pieces) {
+            push(piece);
+        }
+    }
+    if (current) {
+        chunks.push(current);
+    }
+    return chunks
+        .map((chunk) => chunk.replace(/^\n+|\s+$/g, ""))
+        .filter((chunk) => chunk.length > 0);
+}
+
+function formatPartMarker(index: number, total: number): string {
+    return `(${index + 1}/${total})\n`;
+}
+
+/**
+ * Split text into parts of at most `limit` characters (as counted by `measure`).
+ * With `partMarkers`, every part of a multi-part message is prefixed with "(i/n)".
+ */
+export function chunkServerChanText(
+    text: string,
+    limit: number,
+    options?: {
+        partMarkers?: boolean;
+        /** Size of a part as sent, e.g. its length after markdown formatting (default: its length) */
+        measure?: (text: string) => number;
+    },
+): string[] {
+    const effectiveLimit = Math.max(1, Math.floor(limit));
+    const measure = options?.measure ?? measureLength;
+    const chunks = packChunks(text, effectiveLimit, measure);
+    if (!options?.partMarkers || chunks.length <= 1) {
+        return chunks;
+    }
+
+    // Reserve room for the marker; repeat if the part count gains a digit
+    let total = chunks.length;
+    for (;;) {
+        const reserve = formatPartMarker(total - 1, total).length;
+        const marked = packChunks(text, Math.max(1, effectiveLimit - reserve), measure);
+        if (marked.length === total || String(marked.length).length === String(total).length) {
+            return marked.map((chunk, index) => `${formatPartMarker(index, marked.length)}${chunk}`);
+        }
+        total = marked.length;
+    }
+}
@@ -0,0 +1,110 @@
+/**
+ * Runs the built-in bot commands (see commands.ts) for Server酱³ Bot
+ *
+ * Replies are sent as notices, outside the outbound queue. /reset is passed on
+ * to the agent as the core reset trigger; in groups only the account owner and
+ * allowed senders may reset the shared session.
+ */
+
+import { isServerChanBotCommandSender } from "./access.js";
+import type { ResolvedServerChanBotAccount, ServerChanBotLog } from "./accounts.js";
+import {
+    formatServerChanBotCommandReply,
+    resolveServerChanBotCommandReplies,
+    type ServerChanBotCommand,
+} from "./commands.js";
+import type { ServerChanBotChatType } from "./group.js";
+import { describeServerChanBotOutboundQueue } from "./outbound-queue.js";
+import { sendServerChanBotNotice } from "./outbound.js";
+import { resolveServerChanBotReceiveMode, type ServerChanBotActiveMode } from "./receive-mode.js";
+import { getServerChanBotRuntime } from "./runtime.js";
+import { estimateServerChanBotSendDelayMs } from "./send-limiter.js";
+
+async function isAuthorizedGroupCommandSender(params: {
+    account: ResolvedServerChanBotAccount;
+    senderId: string;
+    log?: ServerChanBotLog;
+}): Promise<boolean> {
+    const { account, senderId, log } = params;
+    let storeAllowFrom: string[] = [];
+    try {
+        storeAllowFrom = await getServerChanBotRuntime().channel.pairing.readAllowFromStore("serverchan-bot");
+    } catch (err) {
+        log?.error?.(`[${account.accountId}] failed to read pairing allowlist: ${String(err)}`);
+    }
+    return isServerChanBotCommandSender({
+        senderId,
+        ownerId: account.config.chatId?.trim(),
+        allowFrom: account.config.allowFrom,
+        storeAllowFrom,
+    });
+}
+
+/**
+ * Answer a built-in command. Returns the body to dispatch to the agent instead
+ * (/reset goes through the core reset trigger), or null when fully handled.
+ */
+export async function runServerChanBotCommand(params: {
+    command: ServerChanBotCommand;
+    account: ResolvedServerChanBotAccount;
+    botToken: string;
+    chatId: string;
+    chatType: ServerChanBotChatType;
+    senderId: string;
+    /** Bot username from getMe, if known */
+    botUsername?: string;
+    /** Transport currently receiving updates, if the account is started */
+    activeMode?: ServerChanBotActiveMode;
+    log?: ServerChanBotLog;
+}): Promise<string | null> {
+    const { command, account, botToken, chatId, chatType, senderId, botUsername, activeMode, log } = params;
+    const replies = resolveServerChanBotCommandReplies(
+        account.config.commandLocale,
+        account.config.commandReplies,
+    );
+    const bot = botUsername ? `@${botUsername}` : (account.name ?? "Server酱³ Bot");
+
+    let reply: string;
+    switch (command.name) {
+        case "reset":
+            // A group shares one session, so not every member may clear it
+            if (chatType !== "direct" && !(await isAuthorizedGroupCommandSender({ account, senderId, log }))) {
+                log?.info?.(`[${account.accountId}] /reset from ${senderId} in ${chatId} ignored (sender not allowed)`);
+                return null;
+            }
+            return "/reset";
+        case "start":
+            reply = formatServerChanBotCommandReply(replies.welcome, { bot });
+            break;
+        case "help":
+            reply = replies.help;
+            break;
+        case "whoami":
+            reply = formatServerChanBotCommandReply(
+                chatType === "direct" ? replies.whoami : replies.whoamiGroup,
+                { uid: senderId, chatId },
+            );
+            break;
+        case "status": {
+            const queue = describeServerChanBotOutboundQueue(account.accountId);
+            const delayMs = estimateServerChanBotSendDelayMs(botToken, queue.outboundQueueDepth);
+            reply = formatServerChanBotCommandReply(replies.status, {
+                bot,
+                account: account.accountId,
+                receiveMode: activeMode ?? resolveServerChanBotReceiveMode(account.config),
+                queued: queue.outboundQueueDepth ?? 0,
+                failed: queue.outboundDeadLetterCount ?? 0,
+                delaySec: Math.ceil(delayMs / 1000),
+            });
+            break;
+        }
+    }
+
+    log?.info?.(`[${account.accountId}] /${command.name} from ${senderId} in ${chatId}`);
+    try {
+        await sendServerChanBotNotice({ account, botToken, chatId, text: reply, log });
+    } catch (err) {
+        log?.error?.(`[${account.accountId}] /${command.name} reply to ${chatId} failed: ${String(err)}`);
+    }
+    return null;
+}
@@ -0,0 +1,118 @@
+/**
+ * Built-in bot commands for Server酱³ Bot
+ *
+ * Handled by the channel before dispatch: /start, /help, /whoami, /status and
+ * /reset. Other slash commands are passed through to the agent. Replies come
+ * from a per-locale catalog; single entries can be overridden in config.
+ */
+
+export type ServerChanBotCommandName = "start" | "help" | "whoami" | "status" | "reset";
+
+export type ServerChanBotCommand = {
+    name: ServerChanBotCommandName;
+    args: string;
+};
+
+export type ServerChanBotCommandLocale = "zh" | "en";
+
+export type ServerChanBotCommandReplyKey =
+    | "welcome"
+    | "whoami"
+    | "whoamiGroup"
+    | "help"
+    | "status";
+
+export type ServerChanBotCommandReplies = Record<ServerChanBotCommandReplyKey, string>;
+
+const COMMAND_NAMES: ServerChanBotCommandName[] = ["start", "help", "whoami", "status", "reset"];
+
+const REPLIES: Record<ServerChanBotCommandLocale, ServerChanBotCommandReplies> = {
+    zh: {
+        welcome: "👋 你好，我是 {bot}！直接发消息就可以和我对话，发送 /help 查看可用命令。",
+        whoami: "你的 Server酱³ UID：{uid}",
+        whoamiGroup: "你的 Server酱³ UID：{uid}\n当前群 ID：{chatId}",
+        help: [
+            "可用命令：",
+            "/start - 开始使用",
+            "/help - 查看帮助",
+            "/whoami - 查看你的 UID",
+            "/status - 查看 Bot 状态",
+            "/reset - 重置当前会话",
+        ].join("\n"),
+        status: [
+            "🤖 {bot}（账号 {account}）",
+            "接收方式：{receiveMode}",
+            "待发送：{queued} 条，发送失败：{failed} 条",
+            "预计发送延迟：{delaySec} 秒",
+        ].join("\n"),
+    },
+    en: {
+        welcome: "👋 Hi, I'm {bot}! Just send a message to chat with me, or /help to see the commands.",
+        whoami: "Your Server酱³ UID: {uid}",
+        whoamiGroup: "Your Server酱³ UID: {uid}\nThis group's ID: {chatId}",
+        help: [
+            "Commands:",
+            "/start - get started",
+            "/help - show this help",
+            "/whoami - show your UID",
+            "/status - show bot status",
+            "/reset - start a new conversation",
+        ].join("\n"),
+        status: [
+            "🤖 {bot} (account {account})",
+            "Receive mode: {receiveMode}",
+            "Queued: {queued}, failed: {failed}",
+            "Estimated send delay: {delaySec}s",
+        ].join("\n"),
+    },
+};
+
+/**
+ * Parse a built-in command. `/cmd@otherbot` and unknown commands return null
+ * so they reach the agent unchanged.
+ */
+export function parseServerChanBotCommand(
+    text: string,
+    botUsername?: string,
+): ServerChanBotCommand | null {
+    const match = /^\/([a-z]+)(?:@(\S+))?(?:\s+([\s\S]*))?$/i.exec(text.trim());
+    if (!match) {
+        return null;
+    }
+    const [, rawName, target, args] = match;
+    if (target && target.toLowerCase() !== botUsername?.trim().replace(/^@/, "").toLowerCase()) {
+        return null;
+    }
+    const name = COMMAND_NAMES.find((command) => command === rawName.toLowerCase());
+    return name ? { name, args: args?.trim() ?? "" } : null;
+}
+
+/**
+ * Reply catalog for a locale (default "zh") with config overrides applied
+ */
+export function resolveServerChanBotCommandReplies(
+    locale?: string,
+    overrides?: Partial<Record<string, string>>,
+): ServerChanBotCommandReplies {
+    const base = locale?.trim().toLowerCase().startsWith("en") ? REPLIES.en : REPLIES.zh;
+    const replies = { ...base };
+    for (const key of Object.keys(base) as ServerChanBotCommandReplyKey[]) {
+        const override = overrides?.[key];
+        if (typeof override === "string" && override.trim()) {
+            replies[key] = override;
+        }
+    }
+    return replies;
+}
+
+/**
+ * Fill `{name}` placeholders; unknown placeholders are left as-is
+ */
+export function formatServerChanBotCommandReply(
+    template: string,
+    values: Record<string, string | number>,
+): string {
+    return template.replace(/\{(\w+)\}/g, (placeholder, key: string) =>
+        key in values ? String(values[key]) : placeholder,
+    );
+}
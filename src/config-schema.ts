@@ -2,20 +2,89 @@ import { z } from "zod";
 
 const allowFromEntry = z.union([z.string(), z.number()]);
 
+const httpUrl = z
+    .string()
+    .url()
+    .refine((value) => /^https?:\/\//i.test(value), { message: "must be an http(s) URL" });
+
+const RateLimitSchema = z
+    .object({
+        enabled: z.boolean().optional(), // Default false
+        chatBurst: z.number().optional(), // Messages a chat may send at once (default 10)
+        chatPerMinute: z.number().optional(), // Sustained rate per chat (default 30)
+        accountBurst: z.number().optional(), // Default 60
+        accountPerMinute: z.number().optional(), // Sustained rate for the whole account (default 300)
+        notify: z.boolean().optional(), // Reply once with a "slow down" notice (default true)
+        blockAfter: z.number().optional(), // Throttled messages before a chat is blocked (default 20)
+        blockWindowMs: z.number().optional(), // Window for counting throttled messages (default 600000)
+        blockDurationMs: z.number().optional(), // How long a chat stays blocked (default 600000)
+    })
+    .strict();
+
+const OutboundRateLimitSchema = z
+    .object({
+        perSecond: z.number().optional(), // Sustained sends per second per bot token (default 5)
+        burst: z.number().optional(), // Back-to-back sends before spacing starts (default 10)
+    })
+    .strict();
+
 const ServerChanBotAccountSchema = z
     .object({
         name: z.string().optional(),
         enabled: z.boolean().optional(),
+        type: z.enum(["bot", "sendKey"]).optional(), // "sendKey": outbound-only classic push API (default: "sendKey" when only sendKey is set)
         botToken: z.string().optional(),
+        sendKey: z.string().optional(), // Classic Server酱 SendKey (Turbo SCT… or Server酱³ sctp…)
+        sendKeyApiBaseUrl: httpUrl.optional(), // Override the SendKey push endpoint (default derived from the key)
+        apiBaseUrl: httpUrl.optional(), // Override the Bot API endpoint (self-hosted / staging)
         chatId: z.string().optional(), // Default target for outbound messages
         webhookUrl: z.string().optional(),
         webhookSecret: z.string().optional(),
         webhookPath: z.string().optional(), // Custom webhook path
+        webhookAutoRegister: z.boolean().optional(), // Call setWebhook/deleteWebhook on start/stop (default true)
+        webhookAuthMode: z.enum(["secret", "hmac"]).optional(), // "hmac": HMAC-SHA256 body signature + timestamp (default "secret")
+        webhookMaxClockSkewMs: z.number().optional(), // Allowed timestamp skew for signed webhooks (default 300000)
+        receiveMode: z.enum(["polling", "webhook", "hybrid"]).optional(), // Default: derived from pollingEnabled / webhook config
+        webhookHealthCheckIntervalMs: z.number().optional(), // Hybrid mode health check interval (default 60000)
+        webhookFailoverThreshold: z.number().optional(), // Failed checks before falling back to polling (default 2)
         dmPolicy: z.enum(["pairing", "allowlist", "open", "disabled"]).optional(),
         allowFrom: z.array(allowFromEntry).optional(),
+        groupPolicy: z.enum(["allowlist", "open", "disabled"]).optional(), // Group / channel chats (default "allowlist")
+        groupAllowFrom: z.array(allowFromEntry).optional(), // Group / channel chat IDs, separate from user allowFrom
+        requireMention: z.boolean().optional(), // In groups, only answer mentions or groupTriggers (default true)
+        groupTriggers: z.array(z.string()).optional(), // Prefixes that address the bot in groups, e.g. ["/ai"]
+        inboundMediaMaxBytes: z.number().optional(), // Largest inbound photo / file / voice to download (default 20 MB)
+        inboundDebounceMs: z.number().optional(), // Merge a sender's messages arriving within this window into one turn (default 0 = off)
+        maxConcurrentDispatches: z.number().int().positive().optional(), // Chats processed in parallel; each chat stays in order (default 4)
+        maxQueuedPerChat: z.number().int().positive().optional(), // Updates a chat may have queued or running; later ones are dropped (default 20)
+        rateLimit: RateLimitSchema.optional(), // Inbound flood protection
+        outboundRateLimit: OutboundRateLimitSchema.optional(), // Shared by all sends with the same botToken
         textChunkLimit: z.number().optional(),
+        chunkPartMarkers: z.boolean().optional(), // Prefix multi-part replies with "(1/3)"
+        parseMode: z.enum(["text", "markdown"]).optional(), // Outbound formatting (default "text")
+        streamMode: z.enum(["edit", "separate"]).optional(), // Streamed reply blocks: edit one message or send each block (default)
+        streamEditIntervalMs: z.number().optional(), // Minimum time between edits of a streamed reply (default 1000)
         pollingEnabled: z.boolean().optional(), // Enable polling for updates
-        pollingIntervalMs: z.number().optional(), // Polling interval in milliseconds
+        pollingIntervalMs: z.number().optional(), // Minimum time between getUpdates requests (default 3000)
+        pollingTimeoutSec: z.number().optional(), // getUpdates long-poll timeout in seconds, 0 = short polling (default 30)
+        inboundIdleWarningMs: z.number().optional(), // Status warning after this long without inbound messages (default off)
+        metricsPath: z.string().optional(), // Serve Prometheus metrics on this gateway path (default off)
+        metricsToken: z.string().optional(), // Require "Authorization: Bearer <token>" to scrape metrics
+        pushPath: z.string().optional(), // Gateway route where scripts POST messages to send (needs pushKey)
+        pushKey: z.string().optional(), // Sent as "Authorization: Bearer <key>" or X-Sc3Bot-Push-Key
+        scheduleCatchUp: z.enum(["skip", "once", "all"]).optional(), // Scheduled runs missed while stopped: drop, send one, or send each (default "once")
+        scheduleCatchUpMaxAgeMs: z.number().optional(), // Missed runs older than this are skipped under any policy (default no limit)
+        commandLocale: z.enum(["zh", "en"]).optional(), // Language of built-in command replies (default "zh")
+        commandReplies: z
+            .object({
+                welcome: z.string().optional(), // /start; {bot}
+                whoami: z.string().optional(), // {uid}
+                whoamiGroup: z.string().optional(), // /whoami in a group; {uid}, {chatId}
+                help: z.string().optional(),
+                status: z.string().optional(), // {bot}, {account}, {receiveMode}, {queued}, {failed}, {delaySec}
+            })
+            .strict()
+            .optional(), // Override individual command replies
     })
     .strict();
 
@@ -0,0 +1,177 @@
+/**
+ * Cron expressions for scheduled Server酱³ Bot messages
+ *
+ * Five fields — minute, hour, day of month, month, day of week — with `*`,
+ * lists, ranges, `/step` and English month / weekday names, plus the @hourly,
+ * @daily, @weekly, @monthly and @yearly shortcuts. Times are evaluated in the
+ * gateway's local time zone. As in classic cron, when both day fields are
+ * restricted, a day matching either of them fires.
+ */
+
+export type ServerChanBotCronSchedule = {
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>;
+    /** 0 = Sunday */
+    daysOfWeek: Set<number>;
+    dayOfMonthRestricted: boolean;
+    dayOfWeekRestricted: boolean;
+};
+
+type FieldSpec = {
+    name: string;
+    min: number;
+    max: number;
+    /** Accepted names; a name's value is its index plus `min` */
+    names?: string[];
+};
+
+const SHORTCUTS: Record<string, string> = {
+    "@hourly": "0 * * * *",
+    "@daily": "0 0 * * *",
+    "@midnight": "0 0 * * *",
+    "@weekly": "0 0 * * 0",
+    "@monthly": "0 0 1 * *",
+    "@yearly": "0 0 1 1 *",
+    "@annually": "0 0 1 1 *",
+};
+
+const FIELDS: FieldSpec[] = [
+    { name: "minute", min: 0, max: 59 },
+    { name: "hour", min: 0, max: 23 },
+    { name: "day of month", min: 1, max: 31 },
+    {
+        name: "month",
+        min: 1,
+        max: 12,
+        names: ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"],
+    },
+    // 7 is accepted as Sunday and folded into 0
+    { name: "day of week", min: 0, max: 7, names: ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] },
+];
+
+/** Feb 29 schedules can go eight years without a match (2096 → 2104) */
+const MAX_SEARCH_MS = 9 * 366 * 24 * 60 * 60_000;
+
+function parseValue(raw: string, spec: FieldSpec): number {
+    const named = spec.names?.indexOf(raw.toLowerCase()) ?? -1;
+    if (named >= 0) {
+        return named + spec.min;
+    }
+    if (!/^\d+$/.test(raw)) {
+        throw new Error(`bad ${spec.name} "${raw}"`);
+    }
+    const value = Number(raw);
+    if (value < spec.min || value > spec.max) {
+        throw new Error(`${spec.name} ${value} is outside ${spec.min}-${spec.max}`);
+    }
+    return value;
+}
+
+function parseField(field: string, spec: FieldSpec): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(",")) {
+        const [range, stepRaw, extra] = part.split("/");
+        if (!range || extra !== undefined || (stepRaw !== undefined && !/^[1-9]\d*$/.test(stepRaw))) {
+            throw new Error(`bad ${spec.name} "${part}"`);
+        }
+        const step = stepRaw === undefined ? 1 : Number(stepRaw);
+        let start: number;
+        let end: number;
+        if (range === "*") {
+            start = spec.min;
+            end = spec.max;
+        } else if (range.includes("-")) {
+            const [from, to, rest] = range.split("-");
+            if (rest !== undefined) {
+                throw new Error(`bad ${spec.name} "${part}"`);
+            }
+            start = parseValue(from, spec);
+            end = parseValue(to, spec);
+            if (start > end) {
+                throw new Error(`${spec.name} range "${range}" is reversed`);
+            }
+        } else {
+            start = parseValue(range, spec);
+            // "5/15" means every 15 starting at 5
+            end = stepRaw === undefined ? start : spec.max;
+        }
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Parse a cron expression; throws with a readable reason when it is invalid
+ */
+export function parseServerChanBotCron(expression: string): ServerChanBotCronSchedule {
+    const trimmed = expression.trim();
+    const fields = (SHORTCUTS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+        throw new Error(`invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+    }
+    try {
+        const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+            parseField(field, FIELDS[index]),
+        );
+        if (daysOfWeek.delete(7)) {
+            daysOfWeek.add(0);
+        }
+        return {
+            minutes,
+            hours,
+            daysOfMonth,
+            months,
+            daysOfWeek,
+            dayOfMonthRestricted: !fields[2].startsWith("*"),
+            dayOfWeekRestricted: !fields[4].startsWith("*"),
+        };
+    } catch (err) {
+        throw new Error(`invalid cron expression "${expression}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+function dayMatches(schedule: ServerChanBotCronSchedule, date: Date): boolean {
+    const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+    const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+    if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+        return dayOfMonth || dayOfWeek;
+    }
+    return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * First occurrence strictly after `after` (epoch ms), or null when the
+ * schedule never fires (e.g. "0 0 31 2 *")
+ */
+export function nextServerChanBotCronRun(schedule: ServerChanBotCronSchedule, after: number): number | null {
+    const date = new Date(after);
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+    const limit = after + MAX_SEARCH_MS;
+    while (date.getTime() <= limit) {
+        if (!schedule.months.has(date.getMonth() + 1)) {
+            date.setMonth(date.getMonth() + 1, 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!dayMatches(schedule, date)) {
+            date.setDate(date.getDate() + 1);
+            date.setHours(0, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.hours.has(date.getHours())) {
+            date.setHours(date.getHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!schedule.minutes.has(date.getMinutes())) {
+            date.setMinutes(date.getMinutes() + 1, 0, 0);
+            continue;
+        }
+        return date.getTime();
+    }
+    return null;
+}
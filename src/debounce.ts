@@ -0,0 +1,79 @@
+/**
+ * Inbound debouncing for Server酱³ Bot
+ *
+ * Messages sent in quick succession are collected per key and handed over as
+ * one batch once no new message arrived for the debounce window. Every new
+ * message restarts the window, so a batch only runs after the sender pauses.
+ * Pending batches can be flushed early, e.g. when an account stops.
+ */
+
+export type InboundDebouncer<T> = {
+    /** Add an item; the key's batch runs `windowMs` after its latest item */
+    push: (key: string, item: T, windowMs: number) => void;
+    /** Remove and return the pending items of a key without running them */
+    take: (key: string) => T[] | undefined;
+    /** Run the pending batches of every matching key now */
+    flush: (match: (key: string) => boolean) => Promise<void>;
+    /** Number of items waiting across all keys */
+    pending: () => number;
+};
+
+type PendingBatch<T> = {
+    items: T[];
+    timer: ReturnType<typeof setTimeout>;
+};
+
+export function createInboundDebouncer<T>(params: {
+    run: (key: string, items: T[]) => Promise<void>;
+    onError?: (key: string, err: unknown) => void;
+}): InboundDebouncer<T> {
+    const { run, onError } = params;
+    const batches = new Map<string, PendingBatch<T>>();
+
+    const take = (key: string) => {
+        const batch = batches.get(key);
+        if (!batch) {
+            return undefined;
+        }
+        clearTimeout(batch.timer);
+        batches.delete(key);
+        return batch.items;
+    };
+
+    const flush = async (key: string) => {
+        const items = take(key);
+        if (!items) {
+            return;
+        }
+        try {
+            await run(key, items);
+        } catch (err) {
+            onError?.(key, err);
+        }
+    };
+
+    return {
+        push: (key, item, windowMs) => {
+            const batch = batches.get(key);
+            if (batch) {
+                clearTimeout(batch.timer);
+            }
+            const items = batch ? [...batch.items, item] : [item];
+            const timer = setTimeout(() => void flush(key), Math.max(0, windowMs));
+            timer.unref?.();
+            batches.set(key, { items, timer });
+        },
+        take,
+        flush: async (match) => {
+            const keys = [...batches.keys()].filter(match);
+            await Promise.all(keys.map((key) => flush(key)));
+        },
+        pending: () => {
+            let count = 0;
+            for (const batch of batches.values()) {
+                count += batch.items.length;
+            }
+            return count;
+        },
+    };
+}
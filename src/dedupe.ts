@@ -0,0 +1,96 @@
+/**
+ * Bounded recent-key caches used to drop duplicate deliveries
+ */
+
+export type RecentKeyCache = {
+    has: (key: string) => boolean;
+    /** Record a key; returns false when it was already present (and not expired). */
+    add: (key: string) => boolean;
+    size: () => number;
+};
+
+export function createRecentKeyCache(params: { maxEntries: number; ttlMs?: number }): RecentKeyCache {
+    const { maxEntries, ttlMs } = params;
+    // Map keeps insertion order, so the first entry is always the oldest.
+    const entries = new Map<string, number>();
+
+    const isExpired = (seenAt: number, now: number) =>
+        ttlMs !== undefined && now - seenAt > ttlMs;
+
+    const prune = (now: number) => {
+        if (ttlMs !== undefined) {
+            for (const [key, seenAt] of entries) {
+                if (!isExpired(seenAt, now)) {
+                    break;
+                }
+                entries.delete(key);
+            }
+        }
+        while (entries.size > maxEntries) {
+            const oldest = entries.keys().next().value;
+            if (oldest === undefined) {
+                break;
+            }
+            entries.delete(oldest);
+        }
+    };
+
+    return {
+        has: (key) => {
+            const seenAt = entries.get(key);
+            return seenAt !== undefined && !isExpired(seenAt, Date.now());
+        },
+        add: (key) => {
+            const now = Date.now();
+            prune(now);
+            const seenAt = entries.get(key);
+            if (seenAt !== undefined && !isExpired(seenAt, now)) {
+                return false;
+            }
+            entries.delete(key);
+            entries.set(key, now);
+            prune(now);
+            return true;
+        },
+        size: () => entries.size,
+    };
+}
+
+const RECENT_UPDATE_LIMIT = 1000;
+const recentUpdates = new Map<string, RecentKeyCache>();
+
+/**
+ * Claim an update for processing. Shared by the webhook handler and the polling
+ * loop; returns false when the same update_id was already seen for this account.
+ */
+export function claimServerChanBotUpdate(accountId: string, updateId: number): boolean {
+    let cache = recentUpdates.get(accountId);
+    if (!cache) {
+        cache = createRecentKeyCache({ maxEntries: RECENT_UPDATE_LIMIT });
+        recentUpdates.set(accountId, cache);
+    }
+    return cache.add(String(updateId));
+}
+
+const RECENT_WEBHOOK_DELIVERY_LIMIT = 5000;
+const recentWebhookDeliveries = new Map<string, { ttlMs: number; cache: RecentKeyCache }>();
+
+/**
+ * Claim a signed webhook delivery (keyed by its signature). Returns false for a
+ * replay seen within `ttlMs`; older replays fail the timestamp check instead.
+ */
+export function claimServerChanBotWebhookDelivery(
+    accountId: string,
+    replayKey: string,
+    ttlMs: number,
+): boolean {
+    let entry = recentWebhookDeliveries.get(accountId);
+    if (!entry || entry.ttlMs !== ttlMs) {
+        entry = {
+            ttlMs,
+            cache: createRecentKeyCache({ maxEntries: RECENT_WEBHOOK_DELIVERY_LIMIT, ttlMs }),
+        };
+        recentWebhookDeliveries.set(accountId, entry);
+    }
+    return entry.cache.add(replayKey);
+}
@@ -0,0 +1,187 @@
+/**
+ * Inbound dispatch scheduling for Server酱³ Bot
+ *
+ * Every chat has a FIFO lane: its updates are processed one at a time, in the
+ * order they arrived, whether they came in via webhook or polling. Lanes of
+ * different chats run in parallel up to a per-account concurrency limit, so a
+ * slow agent run in one chat does not hold up the others. A lane holds a
+ * bounded number of updates; a chat that floods past it has the excess dropped.
+ */
+
+export type DispatchLaneStats = {
+    /** Chats with queued or running work */
+    dispatchLanes: number;
+    /** Queued plus running tasks across all lanes */
+    dispatchLaneDepth: number;
+    /** Deepest single lane */
+    dispatchLaneMaxDepth: number;
+    dispatchActive: number;
+    dispatchConcurrency: number;
+    /** Updates dropped because their lane was full */
+    dispatchDroppedCount: number;
+};
+
+export type ServerChanBotDispatchScheduler = {
+    /** Queue a task on a lane; settles with the task's result */
+    run: <T>(lane: string, task: () => Promise<T>) => Promise<T>;
+    /** Like `run`, but returns null (and counts a drop) when the lane is full */
+    offer: <T>(lane: string, task: () => Promise<T>) => Promise<T> | null;
+    setConcurrency: (limit: number | undefined) => void;
+    setMaxLaneDepth: (limit: number | undefined) => void;
+    stats: () => DispatchLaneStats;
+};
+
+export const DEFAULT_MAX_CONCURRENT_DISPATCHES = 4;
+export const DEFAULT_MAX_LANE_DEPTH = 20;
+
+type LaneJob = {
+    task: () => Promise<unknown>;
+    resolve: (value: unknown) => void;
+    reject: (err: unknown) => void;
+};
+
+type Lane = {
+    jobs: LaneJob[];
+    running: boolean;
+};
+
+const schedulers = new Map<string, ServerChanBotDispatchScheduler>();
+
+function resolveLimit(limit: number | undefined, fallback: number): number {
+    return limit !== undefined && Number.isFinite(limit) && limit >= 1 ? Math.floor(limit) : fallback;
+}
+
+function createDispatchScheduler(params: {
+    maxConcurrent?: number;
+    maxLaneDepth?: number;
+}): ServerChanBotDispatchScheduler {
+    let concurrency = resolveLimit(params.maxConcurrent, DEFAULT_MAX_CONCURRENT_DISPATCHES);
+    let maxLaneDepth = resolveLimit(params.maxLaneDepth, DEFAULT_MAX_LANE_DEPTH);
+    const lanes = new Map<string, Lane>();
+    /** Lanes with a job waiting and nothing running, oldest first */
+    const ready: string[] = [];
+    let active = 0;
+    let dropped = 0;
+
+    const pump = () => {
+        while (active < concurrency && ready.length > 0) {
+            const key = ready.shift() as string;
+            const lane = lanes.get(key);
+            const job = lane?.jobs.shift();
+            if (!lane || !job) {
+                continue;
+            }
+            lane.running = true;
+            active += 1;
+            job.task()
+                .then(job.resolve, job.reject)
+                .finally(() => {
+                    active -= 1;
+                    lane.running = false;
+                    if (lane.jobs.length > 0) {
+                        ready.push(key);
+                    } else {
+                        lanes.delete(key);
+                    }
+                    pump();
+                });
+        }
+    };
+
+    const run = <T>(key: string, task: () => Promise<T>) =>
+        new Promise<T>((resolve, reject) => {
+            let lane = lanes.get(key);
+            if (!lane) {
+                lane = { jobs: [], running: false };
+                lanes.set(key, lane);
+            }
+            lane.jobs.push({ task, resolve: resolve as (value: unknown) => void, reject });
+            if (!lane.running && lane.jobs.length === 1) {
+                ready.push(key);
+            }
+            pump();
+        });
+
+    return {
+        run,
+        offer: (key, task) => {
+            const lane = lanes.get(key);
+            if (lane && lane.jobs.length + (lane.running ? 1 : 0) >= maxLaneDepth) {
+                dropped += 1;
+                return null;
+            }
+            return run(key, task);
+        },
+        setConcurrency: (next) => {
+            concurrency = resolveLimit(next, DEFAULT_MAX_CONCURRENT_DISPATCHES);
+            pump();
+        },
+        setMaxLaneDepth: (next) => {
+            maxLaneDepth = resolveLimit(next, DEFAULT_MAX_LANE_DEPTH);
+        },
+        stats: () => {
+            let depth = 0;
+            let maxDepth = 0;
+            for (const lane of lanes.values()) {
+                const laneDepth = lane.jobs.length + (lane.running ? 1 : 0);
+                depth += laneDepth;
+                maxDepth = Math.max(maxDepth, laneDepth);
+            }
+            return {
+                dispatchLanes: lanes.size,
+                dispatchLaneDepth: depth,
+                dispatchLaneMaxDepth: maxDepth,
+                dispatchActive: active,
+                dispatchConcurrency: concurrency,
+                dispatchDroppedCount: dropped,
+            };
+        },
+    };
+}
+
+/**
+ * Get (or create) the scheduler for an account. The limits are refreshed on
+ * every call so config reloads take effect.
+ */
+export function getServerChanBotDispatchScheduler(params: {
+    accountId: string;
+    maxConcurrent?: number;
+    maxLaneDepth?: number;
+}): ServerChanBotDispatchScheduler {
+    const existing = schedulers.get(params.accountId);
+    if (existing) {
+        existing.setConcurrency(params.maxConcurrent);
+        existing.setMaxLaneDepth(params.maxLaneDepth);
+        return existing;
+    }
+    const scheduler = createDispatchScheduler(params);
+    schedulers.set(params.accountId, scheduler);
+    return scheduler;
+}
+
+/**
+ * Lane metrics for account snapshots (empty before the first inbound update)
+ */
+export function describeServerChanBotDispatchLanes(accountId: string): Partial<DispatchLaneStats> {
+    return schedulers.get(accountId)?.stats() ?? {};
+}
+
+/** Tail of each chat's admission chain, keyed by account and chat */
+const admissionTails = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `step` once the previous step chained under `key` has settled, so a
+ * chat's updates are checked one at a time in arrival order before they are
+ * offered to its lane. A failed step does not hold up the chain.
+ */
+export function chainServerChanBotAdmission<T>(key: string, step: () => Promise<T>): Promise<T> {
+    const queued = (admissionTails.get(key) ?? Promise.resolve()).then(step);
+    const tail = queued.catch(() => undefined);
+    admissionTails.set(key, tail);
+    void tail.then(() => {
+        if (admissionTails.get(key) === tail) {
+            admissionTails.delete(key);
+        }
+    });
+    return queued;
+}
@@ -0,0 +1,210 @@
+/**
+ * Outbound text formatting for Server酱³ Bot
+ *
+ * The Server酱³ markdown dialect supports headings, **bold**, *italic*,
+ * `inline code`, fenced code blocks, [links](url), lists and blockquotes.
+ * Anything else produced by agents is rewritten or escaped:
+ * - tables become aligned monospace blocks
+ * - images become plain links
+ * - ~~strikethrough~~ and raw HTML tags are escaped
+ * - task list boxes become ☐ / ☑
+ * Code (fenced and inline) is always passed through untouched.
+ */
+
+type Segment = { kind: "code"; lines: string[] } | { kind: "text"; lines: string[] };
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/**
+ * Split text into fenced code blocks and everything else. Unclosed fences are closed.
+ */
+function splitFencedSegments(text: string): Segment[] {
+    const segments: Segment[] = [];
+    let current: Segment = { kind: "text", lines: [] };
+    let fence: string | null = null;
+
+    for (const line of text.split("\n")) {
+        const match = FENCE_RE.exec(line);
+        if (fence === null && match) {
+            if (current.lines.length > 0) {
+                segments.push(current);
+            }
+            fence = match[1];
+            current = { kind: "code", lines: [line] };
+            continue;
+        }
+        if (fence !== null && match && match[1][0] === fence[0] && match[1].length >= fence.length) {
+            current.lines.push(line);
+            segments.push(current);
+            fence = null;
+            current = { kind: "text", lines: [] };
+            continue;
+        }
+        current.lines.push(line);
+    }
+
+    if (current.kind === "code") {
+        current.lines.push(fence ?? "```");
+    }
+    if (current.lines.length > 0) {
+        segments.push(current);
+    }
+    return segments;
+}
+
+/**
+ * Apply a transform to text outside inline code spans
+ */
+function mapOutsideInlineCode(line: string, transform: (text: string) => string): string {
+    return line
+        .split(/(`+[^`]*`+)/)
+        .map((part, index) => (index % 2 === 1 ? part : transform(part)))
+        .join("");
+}
+
+/**
+ * Approximate terminal/monospace width (CJK and fullwidth characters count as 2)
+ */
+function displayWidth(value: string): number {
+    let width = 0;
+    for (const char of value) {
+        const code = char.codePointAt(0) ?? 0;
+        width +=
+            (code >= 0x1100 && code <= 0x115f) ||
+            (code >= 0x2e80 && code <= 0xa4cf) ||
+            (code >= 0xac00 && code <= 0xd7a3) ||
+            (code >= 0xf900 && code <= 0xfaff) ||
+            (code >= 0xfe30 && code <= 0xfe4f) ||
+            (code >= 0xff00 && code <= 0xff60) ||
+            (code >= 0xffe0 && code <= 0xffe6) ||
+            (code >= 0x1f300 && code <= 0x1faff)
+                ? 2
+                : 1;
+    }
+    return width;
+}
+
+function splitTableRow(line: string): string[] {
+    const trimmed = line.trim().replace(/^\|/, "").replace(/\|$/, "");
+    return trimmed.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Render a markdown table as aligned plain-text rows
+ */
+function renderTable(rows: string[][]): string[] {
+    const columns = Math.max(...rows.map((row) => row.length));
+    const widths = Array.from({ length: columns }, (_, col) =>
+        Math.max(...rows.map((row) => displayWidth(row[col] ?? ""))),
+    );
+    const renderRow = (row: string[]) =>
+        widths
+            .map((width, col) => {
+                const cell = row[col] ?? "";
+                return cell + " ".repeat(width - displayWidth(cell));
+            })
+            .join("  ")
+            .trimEnd();
+    const [header, ...body] = rows;
+    return [
+        renderRow(header),
+        widths.map((width) => "-".repeat(width)).join("  "),
+        ...body.map(renderRow),
+    ];
+}
+
+/**
+ * Replace markdown tables in a text segment; `wrap` decides how the rendered rows are emitted
+ */
+function convertTables(lines: string[], wrap: (rendered: string[]) => string[]): string[] {
+    const out: string[] = [];
+    let index = 0;
+    while (index < lines.length) {
+        const line = lines[index];
+        const next = lines[index + 1];
+        if (line.includes("|") && next !== undefined && TABLE_SEPARATOR_RE.test(next)) {
+            const rows = [splitTableRow(line)];
+            index += 2;
+            while (index < lines.length && lines[index].includes("|") && lines[index].trim()) {
+                rows.push(splitTableRow(lines[index]));
+                index += 1;
+            }
+            out.push(...wrap(renderTable(rows)));
+            continue;
+        }
+        out.push(line);
+        index += 1;
+    }
+    return out;
+}
+
+function formatInline(text: string): string {
+    return (
+        text
+            // Images → links
+            .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt: string, url: string) =>
+                `[${alt || url}](${url})`,
+            )
+            // Strikethrough is not supported
+            .replace(/~~/g, "\\~\\~")
+            // Raw HTML tags would be shown verbatim or dropped; escape them
+            .replace(/<(\/?[A-Za-z][^<>]*)>/g, "\\<$1\\>")
+    );
+}
+
+/**
+ * Convert agent markdown into the Server酱³ markdown dialect
+ */
+export function formatServerChanMarkdown(text: string): string {
+    return splitFencedSegments(text)
+        .flatMap((segment) => {
+            if (segment.kind === "code") {
+                return segment.lines;
+            }
+            return convertTables(segment.lines, (rendered) => ["```", ...rendered, "```"]).map(
+                (line) =>
+                    mapOutsideInlineCode(line, formatInline)
+                        // Task lists
+                        .replace(/^(\s*[-*+]\s+)\[ \]\s+/, "$1☐ ")
+                        .replace(/^(\s*[-*+]\s+)\[[xX]\]\s+/, "$1☑ "),
+            );
+        })
+        .join("\n");
+}
+
+function stripInline(text: string): string {
+    return text
+        .replace(/!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, alt: string, url: string) =>
+            alt ? `${alt} (${url})` : url,
+        )
+        .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, label: string, url: string) =>
+            label === url ? url : `${label} (${url})`,
+        )
+        .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+        .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?!\*)/g, "$1$2")
+        .replace(/(^|[^\w_])_(?=\S)([^_\n]*?\S)_(?!\w)/g, "$1$2")
+        .replace(/~~(?=\S)([\s\S]*?\S)~~/g, "$1")
+        .replace(/`([^`]+)`/g, "$1");
+}
+
+/**
+ * Reduce markdown to readable plain text (used when the API rejects markdown)
+ */
+export function stripMarkdown(text: string): string {
+    return splitFencedSegments(text)
+        .flatMap((segment) => {
+            if (segment.kind === "code") {
+                return segment.lines.slice(1, -1);
+            }
+            return convertTables(segment.lines, (rendered) => rendered).map((line) =>
+                stripInline(line)
+                    .replace(/^\s{0,3}#{1,6}\s+/, "")
+                    .replace(/^\s{0,3}>\s?/, "")
+                    .replace(/^(\s*)[-*+]\s+\[ \]\s+/, "$1☐ ")
+                    .replace(/^(\s*)[-*+]\s+\[[xX]\]\s+/, "$1☑ ")
+                    .replace(/^(\s*)[-*+]\s+/, "$1• "),
+            );
+        })
+        .join("\n");
+}
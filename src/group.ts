@@ -0,0 +1,72 @@
+/**
+ * Group and channel chat handling for Server酱³ Bot
+ *
+ * In groups the bot only answers messages addressed to it: a mention of the
+ * bot (`@username`) anywhere in the text, or a configured trigger prefix at
+ * the start. `requireMention: false` answers every message.
+ */
+
+export type ServerChanBotChatType = "direct" | "group" | "channel";
+
+export type GroupTriggerMatch = {
+    triggered: boolean;
+    /** Whether the bot was addressed explicitly (mention or prefix) */
+    mentioned: boolean;
+    /** Message text with the mention / prefix removed */
+    text: string;
+};
+
+/**
+ * Map the Bot API `chat.type` to OpenClaw chat types (missing or unknown = direct)
+ */
+export function resolveServerChanBotChatType(type: string | undefined): ServerChanBotChatType {
+    switch (type?.trim().toLowerCase()) {
+        case "group":
+        case "supergroup":
+            return "group";
+        case "channel":
+            return "channel";
+        default:
+            return "direct";
+    }
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Check a group message against the bot mention and trigger prefixes
+ */
+export function matchServerChanBotGroupTrigger(params: {
+    text: string;
+    requireMention?: boolean;
+    /** Bot username without "@", from getMe */
+    botUsername?: string;
+    prefixes?: string[];
+}): GroupTriggerMatch {
+    const { text, botUsername } = params;
+    const requireMention = params.requireMention ?? true;
+
+    const username = botUsername?.trim().replace(/^@/, "");
+    if (username) {
+        const mention = new RegExp(`(^|\\s)@${escapeRegExp(username)}(?![\\w])[^\\S\\n]*`, "i");
+        if (mention.test(text)) {
+            return { triggered: true, mentioned: true, text: text.replace(mention, "$1").trim() };
+        }
+    }
+
+    const lowered = text.trimStart().toLowerCase();
+    for (const prefix of params.prefixes ?? []) {
+        const trimmed = prefix.trim();
+        if (trimmed && lowered.startsWith(trimmed.toLowerCase())) {
+            return {
+                triggered: true,
+                mentioned: true,
+                text: text.trimStart().slice(trimmed.length).trim(),
+            };
+        }
+    }
+
+    return { triggered: !requireMention, mentioned: false, text };
+}
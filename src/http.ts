@@ -0,0 +1,63 @@
+/**
+ * HTTP helpers shared by the webhook, metrics and push routes
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+export function normalizeRoutePath(raw: string): string {
+    const trimmed = raw.trim();
+    if (!trimmed) {
+        return "/";
+    }
+    const withSlash = trimmed.startsWith("/") ? trimmed : `/${trimmed}`;
+    if (withSlash.length > 1 && withSlash.endsWith("/")) {
+        return withSlash.slice(0, -1);
+    }
+    return withSlash;
+}
+
+export async function readJsonBody(req: IncomingMessage, maxBytes: number) {
+    const chunks: Buffer[] = [];
+    let total = 0;
+    return await new Promise<{ ok: boolean; value?: unknown; raw?: string; error?: string }>((resolve) => {
+        let resolved = false;
+        const doResolve = (value: { ok: boolean; value?: unknown; raw?: string; error?: string }) => {
+            if (resolved) {
+                return;
+            }
+            resolved = true;
+            req.removeAllListeners();
+            resolve(value);
+        };
+        req.on("data", (chunk: Buffer) => {
+            total += chunk.length;
+            if (total > maxBytes) {
+                doResolve({ ok: false, error: "payload too large" });
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on("end", () => {
+            const raw = Buffer.concat(chunks).toString("utf8");
+            try {
+                if (!raw.trim()) {
+                    doResolve({ ok: false, raw, error: "empty payload" });
+                    return;
+                }
+                doResolve({ ok: true, raw, value: JSON.parse(raw) as unknown });
+            } catch (err) {
+                doResolve({ ok: false, raw, error: err instanceof Error ? err.message : String(err) });
+            }
+        });
+        req.on("error", (err) => {
+            doResolve({ ok: false, error: err instanceof Error ? err.message : String(err) });
+        });
+    });
+}
+
+export function sendJsonResponse(res: ServerResponse, status: number, body: Record<string, unknown>) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json; charset=utf-8");
+    res.end(JSON.stringify(body));
+}
@@ -0,0 +1,152 @@
+/**
+ * Inbound non-text messages for Server酱³ Bot
+ *
+ * Attachments (photo, document, voice, audio, video) are downloaded through
+ * getFile + downloadFile and saved to the OpenClaw media store so the agent
+ * receives them as media context. Locations are passed as text.
+ */
+
+import {
+    ServerChanApiError,
+    serverChanBotDownloadFile,
+    serverChanBotGetFile,
+    type ServerChanFile,
+    type ServerChanMessage,
+} from "./api.js";
+
+export type InboundAttachmentKind = "photo" | "document" | "voice" | "audio" | "video";
+
+export type InboundAttachment = {
+    kind: InboundAttachmentKind;
+    file: ServerChanFile;
+};
+
+export type SavedInboundMedia = {
+    path: string;
+    contentType?: string;
+};
+
+/** Stores a downloaded buffer (the runtime's saveMediaBuffer) */
+export type InboundMediaSaver = (
+    buffer: Buffer,
+    contentType: string | undefined,
+    fileName: string | undefined,
+) => Promise<SavedInboundMedia>;
+
+type InboundMediaLog = {
+    error?: (message: string) => void;
+};
+
+/** getFile downloads are capped at 20 MB by the Bot API */
+export const DEFAULT_INBOUND_MEDIA_MAX_BYTES = 20 * 1024 * 1024;
+
+const FALLBACK_CONTENT_TYPES: Record<InboundAttachmentKind, string | undefined> = {
+    photo: "image/jpeg",
+    document: undefined,
+    voice: "audio/ogg",
+    audio: undefined,
+    video: "video/mp4",
+};
+
+/**
+ * Attachments of a message; for photos only the largest size is used
+ */
+export function collectServerChanBotAttachments(message: ServerChanMessage): InboundAttachment[] {
+    const attachments: InboundAttachment[] = [];
+    const largestPhoto = message.photo?.at(-1);
+    if (largestPhoto) {
+        attachments.push({ kind: "photo", file: largestPhoto });
+    }
+    for (const kind of ["document", "voice", "audio", "video"] as const) {
+        const file = message[kind];
+        if (file) {
+            attachments.push({ kind, file });
+        }
+    }
+    return attachments;
+}
+
+/**
+ * Text for the agent: message text or caption, plus a location line
+ */
+export function describeServerChanBotMessageText(message: ServerChanMessage): string {
+    const parts: string[] = [];
+    const text = message.text ?? message.caption;
+    if (text?.trim()) {
+        parts.push(text);
+    }
+    if (message.location) {
+        const { latitude, longitude } = message.location;
+        parts.push(`[location: ${latitude}, ${longitude}]`);
+    }
+    return parts.join("\n");
+}
+
+/**
+ * Whether the message carries anything this plugin can forward
+ */
+export function isSupportedServerChanBotMessage(message: ServerChanMessage): boolean {
+    return (
+        Boolean(describeServerChanBotMessageText(message).trim()) ||
+        collectServerChanBotAttachments(message).length > 0
+    );
+}
+
+function placeholder(attachment: InboundAttachment, problem?: string): string {
+    const name = attachment.file.file_name ? `: ${attachment.file.file_name}` : "";
+    return problem ? `<media:${attachment.kind}${name} (${problem})>` : `<media:${attachment.kind}${name}>`;
+}
+
+/**
+ * Download and store attachments. Failures are logged and reported as
+ * placeholders so the agent still learns that something was sent.
+ */
+export async function fetchServerChanBotAttachments(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    attachments: InboundAttachment[];
+    maxBytes?: number;
+    save: InboundMediaSaver;
+    log?: InboundMediaLog;
+}): Promise<{ media: SavedInboundMedia[]; placeholders: string[] }> {
+    const { accountId, botToken, apiBaseUrl, attachments, save, log } = params;
+    const maxBytes = params.maxBytes ?? DEFAULT_INBOUND_MEDIA_MAX_BYTES;
+    const media: SavedInboundMedia[] = [];
+    const placeholders: string[] = [];
+
+    for (const attachment of attachments) {
+        const { file } = attachment;
+        if (file.file_size !== undefined && file.file_size > maxBytes) {
+            placeholders.push(placeholder(attachment, "too large"));
+            continue;
+        }
+        try {
+            const info = await serverChanBotGetFile(botToken, file.file_id, { apiBaseUrl });
+            const filePath = info.result?.file_path;
+            if (!filePath) {
+                throw new ServerChanApiError("getFile returned no file_path", {
+                    method: "getFile",
+                    retryable: false,
+                });
+            }
+            const download = await serverChanBotDownloadFile(botToken, filePath, { apiBaseUrl, maxBytes });
+            // A generic download type says less than the attachment kind
+            const downloadType =
+                download.contentType?.split(";")[0].trim() === "application/octet-stream"
+                    ? undefined
+                    : download.contentType;
+            const contentType =
+                file.mime_type ?? downloadType ?? FALLBACK_CONTENT_TYPES[attachment.kind];
+            media.push(await save(download.buffer, contentType, file.file_name));
+            placeholders.push(placeholder(attachment));
+        } catch (err) {
+            log?.error?.(
+                `[${accountId}] failed to fetch ${attachment.kind} ${file.file_id}: ${String(err)}`,
+            );
+            const tooLarge = err instanceof ServerChanApiError && err.status === 413;
+            placeholders.push(placeholder(attachment, tooLarge ? "too large" : "download failed"));
+        }
+    }
+    return { media, placeholders };
+}
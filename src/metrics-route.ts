@@ -0,0 +1,73 @@
+/**
+ * Prometheus scrape route for Server酱³ Bot (see metrics.ts)
+ *
+ * Every account with a metricsPath registers it while started; one request
+ * returns the counters of all accounts.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { timingSafeStringEqual } from "./api.js";
+import { normalizeRoutePath } from "./http.js";
+import { renderServerChanBotMetrics } from "./metrics.js";
+
+type MetricsRoute = {
+    path: string;
+    /** Bearer token required to scrape; the route is open when no account sets one */
+    token?: string;
+};
+
+const metricsRoutes = new Map<string, MetricsRoute[]>();
+
+export function registerServerChanBotMetricsRoute(route: MetricsRoute): () => void {
+    const key = normalizeRoutePath(route.path);
+    const normalizedRoute = { ...route, path: key };
+    metricsRoutes.set(key, [...(metricsRoutes.get(key) ?? []), normalizedRoute]);
+    return () => {
+        const updated = (metricsRoutes.get(key) ?? []).filter((entry) => entry !== normalizedRoute);
+        if (updated.length > 0) {
+            metricsRoutes.set(key, updated);
+        } else {
+            metricsRoutes.delete(key);
+        }
+    };
+}
+
+/**
+ * Serve metrics for all accounts on the configured metricsPath
+ */
+export async function handleServerChanBotMetricsRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+): Promise<boolean> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const routes = metricsRoutes.get(normalizeRoutePath(url.pathname));
+    if (!routes || routes.length === 0) {
+        return false;
+    }
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+        res.statusCode = 405;
+        res.setHeader("Allow", "GET, HEAD");
+        res.end("Method Not Allowed");
+        return true;
+    }
+
+    const tokens = routes.flatMap((route) => (route.token ? [route.token] : []));
+    if (tokens.length > 0) {
+        const authorization = req.headers.authorization ?? "";
+        const presented = authorization.startsWith("Bearer ") ? authorization.slice(7).trim() : "";
+        // Every token is compared so timing does not reveal which one matched
+        const matches = tokens.map((token) => timingSafeStringEqual(presented, token));
+        if (!presented || !matches.includes(true)) {
+            res.statusCode = 401;
+            res.setHeader("WWW-Authenticate", "Bearer");
+            res.end("unauthorized");
+            return true;
+        }
+    }
+
+    res.statusCode = 200;
+    res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+    res.end(req.method === "HEAD" ? undefined : renderServerChanBotMetrics());
+    return true;
+}
@@ -0,0 +1,162 @@
+/**
+ * Per-account metrics for Server酱³ Bot in Prometheus text exposition format
+ *
+ * Counters and the send latency histogram live for the lifetime of the
+ * process and are labelled by account id.
+ */
+
+type CounterDefinition = {
+    name: string;
+    help: string;
+    labels: readonly string[];
+};
+
+const COUNTERS = {
+    inboundUpdates: {
+        name: "serverchan_bot_inbound_updates_total",
+        help: "Updates received via webhook or polling (after de-duplication)",
+        labels: ["account"],
+    },
+    dispatches: {
+        name: "serverchan_bot_dispatches_total",
+        help: "Inbound messages dispatched to the agent",
+        labels: ["account"],
+    },
+    outboundSends: {
+        name: "serverchan_bot_outbound_sends_total",
+        help: "Outbound API requests made, by method (sendMessage, editMessageText, sendPhoto, sendDocument, send)",
+        labels: ["account", "method"],
+    },
+    outboundSuccesses: {
+        name: "serverchan_bot_outbound_send_successes_total",
+        help: "Outbound API requests that succeeded, by method",
+        labels: ["account", "method"],
+    },
+    outboundFailures: {
+        name: "serverchan_bot_outbound_send_failures_total",
+        help: "Outbound API requests that failed, by method",
+        labels: ["account", "method"],
+    },
+    webhookRejects: {
+        name: "serverchan_bot_webhook_rejects_total",
+        help: "Webhook requests rejected, by HTTP status",
+        labels: ["account", "status"],
+    },
+    pollingErrors: {
+        name: "serverchan_bot_polling_errors_total",
+        help: "getUpdates requests that failed",
+        labels: ["account"],
+    },
+} satisfies Record<string, CounterDefinition>;
+
+type CounterKey = keyof typeof COUNTERS;
+
+const SEND_LATENCY = {
+    name: "serverchan_bot_send_latency_seconds",
+    help: "Outbound API request latency (all methods), excluding time spent waiting for the send limiter",
+    /** Upper bounds in seconds */
+    buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+};
+
+/** Used when a webhook request cannot be attributed to an account */
+export const UNKNOWN_ACCOUNT_LABEL = "unknown";
+
+type Histogram = {
+    /** Per-bucket (non-cumulative) counts; the last slot is +Inf */
+    counts: number[];
+    sum: number;
+    count: number;
+};
+
+/** Counter name -> serialized label set -> value */
+const counters = new Map<CounterKey, Map<string, number>>();
+/** Account id -> send latency */
+const sendLatency = new Map<string, Histogram>();
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(names: readonly string[], values: readonly string[]): string {
+    return names.map((name, index) => `${name}="${escapeLabelValue(values[index] ?? "")}"`).join(",");
+}
+
+function increment(key: CounterKey, values: string[]) {
+    let series = counters.get(key);
+    if (!series) {
+        series = new Map();
+        counters.set(key, series);
+    }
+    const labels = formatLabels(COUNTERS[key].labels, values);
+    series.set(labels, (series.get(labels) ?? 0) + 1);
+}
+
+export function recordServerChanBotInboundUpdate(accountId: string) {
+    increment("inboundUpdates", [accountId]);
+}
+
+export function recordServerChanBotDispatch(accountId: string) {
+    increment("dispatches", [accountId]);
+}
+
+/**
+ * Count one outbound API request (message, edit, upload or SendKey push) and
+ * observe its latency
+ */
+export function recordServerChanBotSend(
+    accountId: string,
+    result: { method: string; ok: boolean; latencyMs: number },
+) {
+    increment("outboundSends", [accountId, result.method]);
+    increment(result.ok ? "outboundSuccesses" : "outboundFailures", [accountId, result.method]);
+
+    let histogram = sendLatency.get(accountId);
+    if (!histogram) {
+        histogram = { counts: new Array(SEND_LATENCY.buckets.length + 1).fill(0), sum: 0, count: 0 };
+        sendLatency.set(accountId, histogram);
+    }
+    const seconds = Math.max(0, result.latencyMs) / 1000;
+    const bucket = SEND_LATENCY.buckets.findIndex((bound) => seconds <= bound);
+    histogram.counts[bucket === -1 ? SEND_LATENCY.buckets.length : bucket] += 1;
+    histogram.sum += seconds;
+    histogram.count += 1;
+}
+
+export function recordServerChanBotWebhookReject(accountId: string | undefined, status: number) {
+    increment("webhookRejects", [accountId ?? UNKNOWN_ACCOUNT_LABEL, String(status)]);
+}
+
+export function recordServerChanBotPollingError(accountId: string) {
+    increment("pollingErrors", [accountId]);
+}
+
+/**
+ * Render all metrics in Prometheus text exposition format (version 0.0.4)
+ */
+export function renderServerChanBotMetrics(): string {
+    const lines: string[] = [];
+
+    for (const key of Object.keys(COUNTERS) as CounterKey[]) {
+        const { name, help } = COUNTERS[key];
+        lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} counter`);
+        for (const [labels, value] of counters.get(key) ?? []) {
+            lines.push(`${name}{${labels}} ${value}`);
+        }
+    }
+
+    const { name, help, buckets } = SEND_LATENCY;
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} histogram`);
+    for (const [accountId, histogram] of sendLatency) {
+        const account = `account="${escapeLabelValue(accountId)}"`;
+        let cumulative = 0;
+        buckets.forEach((bound, index) => {
+            cumulative += histogram.counts[index];
+            lines.push(`${name}_bucket{${account},le="${bound}"} ${cumulative}`);
+        });
+        lines.push(`${name}_bucket{${account},le="+Inf"} ${histogram.count}`);
+        lines.push(`${name}_sum{${account}} ${histogram.sum}`);
+        lines.push(`${name}_count{${account}} ${histogram.count}`);
+    }
+
+    return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,366 @@
+/**
+ * Durable per-account outbound delivery queue for Server酱³ Bot
+ *
+ * Messages to the same chat are delivered strictly in order; each chat drains
+ * independently, so a chat waiting out a retry does not hold up the others.
+ * Transient failures (network errors, timeouts, HTTP 5xx, HTTP 429) are retried
+ * with exponential backoff and jitter; permanent failures, unrecognized errors
+ * and exhausted retries move the message to a dead-letter list. Pending and dead-lettered items are persisted to
+ * `<state dir>/serverchan-bot/<accountId>.outbox.json` so they survive a
+ * gateway restart. Stopping an account stops its queue: retry timers are
+ * cleared, sends in flight finish, and callers still waiting are released
+ * while their messages stay in the file for the next start.
+ */
+
+import { randomUUID } from "node:crypto";
+import { ServerChanApiError, type ServerChanSendResult } from "./api.js";
+import type { ServerChanBotParseMode } from "./send.js";
+import { readJsonStateFile, resolveAccountStatePath, writeJsonStateFile } from "./state.js";
+
+export type OutboundQueueItem = {
+    id: string;
+    chatId: string;
+    /** Message text, or the caption when `mediaUrl` is set */
+    text: string;
+    parseMode?: ServerChanBotParseMode;
+    /** Deliver without a notification sound */
+    silent?: boolean;
+    /** Photo / document to upload; only the URL is persisted */
+    mediaUrl?: string;
+    createdAt: number;
+    attempts: number;
+    nextAttemptAt: number;
+    lastError?: string;
+};
+
+export type DeadLetterItem = OutboundQueueItem & {
+    failedAt: number;
+};
+
+export type OutboundQueueStats = {
+    outboundQueueDepth: number;
+    outboundOldestPendingAgeMs: number | null;
+    outboundDeadLetterCount: number;
+};
+
+export type OutboundSender = (item: OutboundQueueItem) => Promise<ServerChanSendResult>;
+
+type OutboundQueueLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+    debug?: (message: string) => void;
+};
+
+type OutboundQueueFile = {
+    pending?: OutboundQueueItem[];
+    deadLetter?: DeadLetterItem[];
+};
+
+type SentMessage = NonNullable<ServerChanSendResult["result"]>;
+
+type Waiter = {
+    resolve: (result: SentMessage) => void;
+    reject: (err: Error) => void;
+};
+
+export type ServerChanBotOutboundQueue = {
+    /** Queue a message; resolves once the API acknowledged it, rejects when dead-lettered */
+    enqueue: (message: {
+        chatId: string;
+        text: string;
+        parseMode?: ServerChanBotParseMode;
+        silent?: boolean;
+        mediaUrl?: string;
+    }) => Promise<SentMessage>;
+    setSender: (send: OutboundSender) => void;
+    /** Stop draining; resolves once sends in flight have finished */
+    stop: () => Promise<void>;
+    stats: () => OutboundQueueStats;
+    listDeadLetters: () => DeadLetterItem[];
+};
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 60_000;
+const DEAD_LETTER_LIMIT = 200;
+
+const STOPPED_ERROR = "outbound queue stopped; the message stays queued for the next start";
+
+const queues = new Map<string, ServerChanBotOutboundQueue>();
+
+type SendFailure = { transient: boolean; error: string; retryAfterMs?: number };
+
+/**
+ * Classify a failed send. Network errors, timeouts, 5xx and 429 are worth
+ * retrying (see `ServerChanApiError.retryable`); anything else is permanent,
+ * since an error the API client did not raise will not go away on its own.
+ */
+export function classifySendFailure(err: unknown): SendFailure {
+    if (err instanceof ServerChanApiError) {
+        return { transient: err.retryable, error: err.message, retryAfterMs: err.retryAfterMs };
+    }
+    return { transient: false, error: err instanceof Error ? err.message : String(err) };
+}
+
+/**
+ * Backoff for the given attempt number (1-based): exponential, capped, with jitter
+ */
+export function computeRetryDelayMs(attempt: number): number {
+    const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+    return Math.round(exp / 2 + Math.random() * (exp / 2));
+}
+
+function createOutboundQueue(params: {
+    accountId: string;
+    send: OutboundSender;
+    log?: OutboundQueueLog;
+}): ServerChanBotOutboundQueue {
+    const { accountId, log } = params;
+    const filePath = resolveAccountStatePath(accountId, "outbox.json");
+    let send = params.send;
+    let pending: OutboundQueueItem[] = [];
+    let deadLetter: DeadLetterItem[] = [];
+    const waiters = new Map<string, Waiter>();
+    /** Drain loops by chat */
+    const draining = new Map<string, Promise<void>>();
+    /** Retry timers by chat */
+    const timers = new Map<string, ReturnType<typeof setTimeout>>();
+    /** Item being sent by each chat's drain loop */
+    const sending = new Set<string>();
+    let stopped = false;
+
+    const persist = async () => {
+        try {
+            const file: OutboundQueueFile = { pending, deadLetter };
+            await writeJsonStateFile(filePath, file);
+        } catch (err) {
+            log?.error?.(`[${accountId}] failed to persist outbound queue: ${String(err)}`);
+        }
+    };
+
+    const loaded = (async () => {
+        try {
+            const file = await readJsonStateFile<OutboundQueueFile>(filePath);
+            pending = [...(file?.pending ?? []), ...pending];
+            deadLetter = file?.deadLetter ?? [];
+            if (file?.pending?.length) {
+                log?.info?.(
+                    `[${accountId}] resuming ${file.pending.length} pending outbound message(s)`,
+                );
+            }
+        } catch (err) {
+            log?.error?.(`[${accountId}] failed to load outbound queue: ${String(err)}`);
+        }
+    })();
+
+    const settle = (id: string, outcome: { result?: SentMessage; error?: string }) => {
+        const waiter = waiters.get(id);
+        if (!waiter) {
+            return;
+        }
+        waiters.delete(id);
+        if (outcome.result) {
+            waiter.resolve(outcome.result);
+        } else {
+            waiter.reject(new Error(outcome.error ?? "Failed to send message"));
+        }
+    };
+
+    const remove = (item: OutboundQueueItem) => {
+        pending = pending.filter((entry) => entry !== item);
+    };
+
+    const schedule = (chatId: string, delayMs: number) => {
+        if (stopped) {
+            return;
+        }
+        clearTimeout(timers.get(chatId));
+        timers.set(
+            chatId,
+            setTimeout(() => {
+                timers.delete(chatId);
+                void drain(chatId);
+            }, delayMs),
+        );
+    };
+
+    const drain = (chatId: string) => {
+        if (stopped || draining.has(chatId)) {
+            return;
+        }
+        draining.set(chatId, drainChat(chatId).finally(() => draining.delete(chatId)));
+    };
+
+    const drainChat = async (chatId: string) => {
+        await loaded;
+        for (;;) {
+            const item = stopped ? undefined : pending.find((entry) => entry.chatId === chatId);
+            if (!item) {
+                return;
+            }
+            const waitMs = item.nextAttemptAt - Date.now();
+            if (waitMs > 0) {
+                schedule(chatId, waitMs);
+                return;
+            }
+
+            item.attempts += 1;
+            let failure: SendFailure | null = null;
+            let delivered: SentMessage | undefined;
+            sending.add(item.id);
+            try {
+                const result = await send(item);
+                delivered = result.result ?? {
+                    message_id: 0,
+                    chat_id: Number(item.chatId),
+                    text: item.text,
+                };
+            } catch (err) {
+                failure = classifySendFailure(err);
+            } finally {
+                sending.delete(item.id);
+            }
+
+            if (!failure) {
+                remove(item);
+                await persist();
+                settle(item.id, { result: delivered });
+                continue;
+            }
+
+            item.lastError = failure.error;
+            if (failure.transient && item.attempts < MAX_ATTEMPTS) {
+                // Never retry sooner than the API's retry-after hint
+                const delayMs = Math.max(
+                    computeRetryDelayMs(item.attempts),
+                    failure.retryAfterMs ?? 0,
+                );
+                item.nextAttemptAt = Date.now() + delayMs;
+                log?.info?.(
+                    `[${accountId}] send to ${item.chatId} failed (attempt ${item.attempts}/${MAX_ATTEMPTS}): ${failure.error}; retrying in ${delayMs}ms`,
+                );
+                await persist();
+                continue;
+            }
+
+            remove(item);
+            deadLetter = [...deadLetter, { ...item, failedAt: Date.now() }].slice(-DEAD_LETTER_LIMIT);
+            log?.error?.(
+                `[${accountId}] send to ${item.chatId} dead-lettered after ${item.attempts} attempt(s): ${failure.error}`,
+            );
+            await persist();
+            settle(item.id, { error: failure.error });
+        }
+    };
+
+    void loaded.then(() => {
+        for (const chatId of new Set(pending.map((item) => item.chatId))) {
+            void drain(chatId);
+        }
+    });
+
+    return {
+        enqueue: async ({ chatId, text, parseMode, silent, mediaUrl }) => {
+            await loaded;
+            const now = Date.now();
+            const item: OutboundQueueItem = {
+                id: randomUUID(),
+                chatId,
+                text,
+                parseMode,
+                silent,
+                mediaUrl,
+                createdAt: now,
+                attempts: 0,
+                nextAttemptAt: now,
+            };
+            const delivered = new Promise<SentMessage>((resolve, reject) => {
+                waiters.set(item.id, { resolve, reject });
+            });
+            // Stopping may release the caller while the item is still being persisted
+            delivered.catch(() => {});
+            pending.push(item);
+            await persist();
+            if (stopped) {
+                settle(item.id, { error: STOPPED_ERROR });
+            }
+            void drain(chatId);
+            return await delivered;
+        },
+        setSender: (next) => {
+            send = next;
+        },
+        stop: async () => {
+            stopped = true;
+            for (const timer of timers.values()) {
+                clearTimeout(timer);
+            }
+            timers.clear();
+            // Sends in flight settle their callers when they finish
+            for (const id of [...waiters.keys()]) {
+                if (!sending.has(id)) {
+                    settle(id, { error: STOPPED_ERROR });
+                }
+            }
+            await Promise.all(draining.values());
+            // A send that failed while stopping is retried on the next start
+            for (const id of [...waiters.keys()]) {
+                settle(id, { error: STOPPED_ERROR });
+            }
+        },
+        stats: () => ({
+            outboundQueueDepth: pending.length,
+            outboundOldestPendingAgeMs: pending.length > 0 ? Date.now() - pending[0].createdAt : null,
+            outboundDeadLetterCount: deadLetter.length,
+        }),
+        listDeadLetters: () => [...deadLetter],
+    };
+}
+
+/**
+ * Get (or create) the outbound queue for an account. The sender is refreshed on
+ * every call so config reloads (e.g. a rotated token) take effect.
+ */
+export function getServerChanBotOutboundQueue(params: {
+    accountId: string;
+    send: OutboundSender;
+    log?: OutboundQueueLog;
+}): ServerChanBotOutboundQueue {
+    const existing = queues.get(params.accountId);
+    if (existing) {
+        existing.setSender(params.send);
+        return existing;
+    }
+    const queue = createOutboundQueue(params);
+    queues.set(params.accountId, queue);
+    return queue;
+}
+
+/**
+ * Stop an account's queue (see `ServerChanBotOutboundQueue.stop`). The next
+ * `getServerChanBotOutboundQueue` call starts a fresh queue from the state file.
+ */
+export async function stopServerChanBotOutboundQueue(accountId: string): Promise<void> {
+    const queue = queues.get(accountId);
+    if (!queue) {
+        return;
+    }
+    await queue.stop();
+    if (queues.get(accountId) === queue) {
+        queues.delete(accountId);
+    }
+}
+
+/**
+ * Queue metrics for account snapshots (empty when the account never queued anything)
+ */
+export function describeServerChanBotOutboundQueue(accountId: string): Partial<OutboundQueueStats> {
+    return queues.get(accountId)?.stats() ?? {};
+}
+
+/**
+ * Inspect messages that could not be delivered for an account
+ */
+export function listServerChanBotDeadLetters(accountId: string): DeadLetterItem[] {
+    return queues.get(accountId)?.listDeadLetters() ?? [];
+}
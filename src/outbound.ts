@@ -0,0 +1,262 @@
+/**
+ * Account-level outbound sends for Server酱³ Bot
+ *
+ * Replies, pushes and scheduled messages go through the account's outbound
+ * queue (see outbound-queue.ts), split by its textChunkLimit; short system
+ * notices and stream edits are sent directly. Outbound-only accounts push
+ * through the SendKey API instead.
+ */
+
+import type { ResolvedServerChanBotAccount, ServerChanBotLog } from "./accounts.js";
+import { ServerChanApiError } from "./api.js";
+import { DEFAULT_TEXT_CHUNK_LIMIT, chunkServerChanText } from "./chunk.js";
+import { formatServerChanMarkdown } from "./format.js";
+import { getServerChanBotOutboundQueue } from "./outbound-queue.js";
+import { getServerChanBotRuntime } from "./runtime.js";
+import {
+    editServerChanBotText,
+    formatServerChanBotMediaLink,
+    sendServerChanBotMedia,
+    sendServerChanBotText,
+    sendServerChanSendKeyText,
+    type ServerChanBotParseMode,
+} from "./send.js";
+import { createServerChanBotReplyStream, type ServerChanBotReplyStream } from "./stream.js";
+
+/** Notices are dropped rather than queued behind a long send backlog */
+const NOTICE_MAX_WAIT_MS = 10_000;
+
+/** Longer reply text is sent as separate messages after the media */
+const MEDIA_CAPTION_LIMIT = 1024;
+
+/**
+ * Outbound queue for an account, sending with the account's current token
+ */
+export function getAccountOutboundQueue(account: ResolvedServerChanBotAccount, log?: ServerChanBotLog) {
+    const { botToken, apiBaseUrl } = account.config;
+    return getServerChanBotOutboundQueue({
+        accountId: account.accountId,
+        log,
+        send: async (item) => {
+            if (!botToken) {
+                throw new ServerChanApiError("Server酱³ Bot token not configured", {
+                    method: "sendMessage",
+                    retryable: false,
+                });
+            }
+            if (item.mediaUrl) {
+                return await sendServerChanBotMedia({
+                    accountId: account.accountId,
+                    botToken,
+                    apiBaseUrl,
+                    chatId: item.chatId,
+                    mediaUrl: item.mediaUrl,
+                    caption: item.text,
+                    parseMode: item.parseMode,
+                    rateLimit: account.config.outboundRateLimit,
+                    loadMedia: (url, maxBytes) =>
+                        getServerChanBotRuntime().media.loadWebMedia(url, maxBytes),
+                    log,
+                });
+            }
+            return await sendServerChanBotText({
+                accountId: account.accountId,
+                botToken,
+                apiBaseUrl,
+                chatId: item.chatId,
+                text: item.text,
+                parseMode: item.parseMode,
+                silent: item.silent,
+                rateLimit: account.config.outboundRateLimit,
+                log,
+            });
+        },
+    });
+}
+
+/**
+ * Markdown parts are sized by their formatted length, which is what the API
+ * counts (tables, for one, grow when aligned)
+ */
+function measureForParseMode(parseMode: ServerChanBotParseMode | undefined) {
+    return parseMode === "markdown" ? (text: string) => formatServerChanMarkdown(text).length : undefined;
+}
+
+/**
+ * Split a message by the account's textChunkLimit and queue the parts in order.
+ * Each part is only queued once the previous one was acknowledged by the API.
+ */
+export async function sendServerChanBotChunks(params: {
+    account: ResolvedServerChanBotAccount;
+    chatId: string;
+    text: string;
+    /** Overrides the account's parseMode */
+    parseMode?: ServerChanBotParseMode;
+    silent?: boolean;
+    log?: ServerChanBotLog;
+}) {
+    const { account, chatId, text, silent, log } = params;
+    const parseMode = params.parseMode ?? account.config.parseMode;
+    const limit =
+        account.config.textChunkLimit && account.config.textChunkLimit > 0
+            ? account.config.textChunkLimit
+            : DEFAULT_TEXT_CHUNK_LIMIT;
+    const parts = chunkServerChanText(text, limit, {
+        partMarkers: account.config.chunkPartMarkers,
+        measure: measureForParseMode(parseMode),
+    });
+    const queue = getAccountOutboundQueue(account, log);
+    const sent = [];
+    for (const part of parts) {
+        sent.push(
+            await queue.enqueue({
+                chatId,
+                text: part,
+                parseMode,
+                silent,
+            }),
+        );
+    }
+    return sent;
+}
+
+/**
+ * Stream reply blocks into one message: new messages go through the outbound
+ * queue, edits are sent directly (a lost edit is superseded by the next one)
+ */
+export function createAccountReplyStream(params: {
+    account: ResolvedServerChanBotAccount;
+    chatId: string;
+    log?: ServerChanBotLog;
+}): ServerChanBotReplyStream {
+    const { account, chatId, log } = params;
+    return createServerChanBotReplyStream({
+        accountId: account.accountId,
+        limit:
+            account.config.textChunkLimit && account.config.textChunkLimit > 0
+                ? account.config.textChunkLimit
+                : DEFAULT_TEXT_CHUNK_LIMIT,
+        intervalMs: account.config.streamEditIntervalMs,
+        measure: measureForParseMode(account.config.parseMode),
+        send: async (text) => {
+            const sent = await getAccountOutboundQueue(account, log).enqueue({
+                chatId,
+                text,
+                parseMode: account.config.parseMode,
+            });
+            return sent.message_id;
+        },
+        edit: async (messageId, text) => {
+            if (!account.config.botToken) {
+                throw new Error("Server酱³ Bot token not configured");
+            }
+            await editServerChanBotText({
+                accountId: account.accountId,
+                botToken: account.config.botToken,
+                apiBaseUrl: account.config.apiBaseUrl,
+                chatId,
+                messageId,
+                text,
+                parseMode: account.config.parseMode,
+                rateLimit: account.config.outboundRateLimit,
+                log,
+            });
+        },
+        log,
+    });
+}
+
+/**
+ * Queue media with the reply text: the text becomes the first item's caption
+ * when it is short enough, otherwise it follows the media as regular messages.
+ */
+export async function sendServerChanBotMediaWithText(params: {
+    account: ResolvedServerChanBotAccount;
+    chatId: string;
+    mediaUrls: string[];
+    text?: string;
+    log?: ServerChanBotLog;
+}) {
+    const { account, chatId, mediaUrls, log } = params;
+    const text = params.text?.trim() ?? "";
+    const captioned = text.length <= MEDIA_CAPTION_LIMIT;
+    const queue = getAccountOutboundQueue(account, log);
+    const sent = [];
+    for (const [index, mediaUrl] of mediaUrls.entries()) {
+        sent.push(
+            await queue.enqueue({
+                chatId,
+                text: index === 0 && captioned ? text : "",
+                parseMode: account.config.parseMode,
+                mediaUrl,
+            }),
+        );
+    }
+    if (text && !captioned) {
+        sent.push(...(await sendServerChanBotChunks({ account, chatId, text, log })));
+    }
+    return sent;
+}
+
+/**
+ * Push a message from an outbound-only account through the SendKey API; media
+ * is appended as links. Resolves with the push id.
+ */
+export async function sendServerChanBotSendKeyPush(params: {
+    account: ResolvedServerChanBotAccount;
+    text: string;
+    title?: string;
+    mediaUrls?: string[];
+    log?: ServerChanBotLog;
+}): Promise<string | undefined> {
+    const { account, title, log } = params;
+    if (!account.config.sendKey) {
+        throw new Error("Server酱 SendKey not configured");
+    }
+    const text = (params.mediaUrls ?? []).reduce(
+        (body, mediaUrl) => formatServerChanBotMediaLink(mediaUrl, body),
+        params.text,
+    );
+    const result = await sendServerChanSendKeyText({
+        accountId: account.accountId,
+        sendKey: account.config.sendKey,
+        apiBaseUrl: account.config.sendKeyApiBaseUrl,
+        text,
+        title,
+        rateLimit: account.config.outboundRateLimit,
+        log,
+    });
+    const pushId = result.data?.pushid;
+    return pushId !== undefined ? String(pushId) : undefined;
+}
+
+/**
+ * Send a short system notice (pairing code, throttling) outside the outbound queue
+ */
+export async function sendServerChanBotNotice(params: {
+    account: ResolvedServerChanBotAccount;
+    botToken: string;
+    chatId: string;
+    text: string;
+    log?: ServerChanBotLog;
+}) {
+    const { account, botToken, chatId, text, log } = params;
+    return await sendServerChanBotText({
+        accountId: account.accountId,
+        botToken,
+        apiBaseUrl: account.config.apiBaseUrl,
+        chatId,
+        text,
+        rateLimit: account.config.outboundRateLimit,
+        maxWaitMs: NOTICE_MAX_WAIT_MS,
+        log,
+    });
+}
+
+/**
+ * Title as the first line (bold in markdown), followed by the text
+ */
+export function composePushMessage(title: string | undefined, text: string, parseMode?: ServerChanBotParseMode): string {
+    const heading = title && parseMode === "markdown" ? `**${title}**` : title;
+    return [heading, text].filter(Boolean).join("\n\n");
+}
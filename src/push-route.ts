@@ -0,0 +1,270 @@
+/**
+ * Local push endpoint for scripts (pushPath / pushKey)
+ *
+ * A POST sends a message right away or, with `sendAt` / `cron`, schedules it;
+ * `<pushPath>/jobs` lists and cancels scheduled messages. Accounts may share a
+ * path; the presented key selects the account.
+ */
+
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { getAccountScheduler } from "./account-scheduler.js";
+import type { ResolvedServerChanBotAccount, ServerChanBotLog } from "./accounts.js";
+import { timingSafeStringEqual } from "./api.js";
+import { normalizeRoutePath, readJsonBody, sendJsonResponse } from "./http.js";
+import { composePushMessage, sendServerChanBotChunks, sendServerChanBotSendKeyPush } from "./outbound.js";
+import type { ServerChanBotParseMode } from "./send.js";
+import type { ServerChanBotStatusPatch } from "./status-issues.js";
+
+type PushRoute = {
+    path: string;
+    /** Bearer / X-Sc3Bot-Push-Key value that authorizes a push for this account */
+    key: string;
+    account: ResolvedServerChanBotAccount;
+    log?: ServerChanBotLog;
+    statusSink?: (patch: ServerChanBotStatusPatch) => void;
+};
+
+const pushRoutes = new Map<string, PushRoute[]>();
+
+const PUSH_KEY_HEADER = "x-sc3bot-push-key";
+
+const PUSH_MAX_BODY_BYTES = 64 * 1024;
+
+export function registerServerChanBotPushRoute(route: PushRoute): () => void {
+    const key = normalizeRoutePath(route.path);
+    const normalizedRoute = { ...route, path: key };
+    pushRoutes.set(key, [...(pushRoutes.get(key) ?? []), normalizedRoute]);
+    return () => {
+        const updated = (pushRoutes.get(key) ?? []).filter((entry) => entry !== normalizedRoute);
+        if (updated.length > 0) {
+            pushRoutes.set(key, updated);
+        } else {
+            pushRoutes.delete(key);
+        }
+    };
+}
+
+/**
+ * Pick the account a push request is for. Answers 401 when the key does not
+ * cover the requested account and 400 when it matches several accounts.
+ */
+function selectPushRoute(
+    res: ServerResponse,
+    authorized: PushRoute[],
+    requestedAccount: string,
+): PushRoute | null {
+    const candidates = requestedAccount
+        ? authorized.filter((route) => route.account.accountId === requestedAccount)
+        : authorized;
+    if (candidates.length === 0) {
+        // Same answer as a wrong key: the key does not cover that account
+        sendJsonResponse(res, 401, { ok: false, error: "unauthorized" });
+        return null;
+    }
+    if (candidates.length > 1) {
+        sendJsonResponse(res, 400, { ok: false, error: "key matches several accounts; set \"account\"" });
+        return null;
+    }
+    return candidates[0];
+}
+
+/**
+ * `sendAt` of a push request: ISO 8601 string or epoch milliseconds.
+ * NaN when present but unparsable.
+ */
+function parsePushSendAt(value: unknown): number | undefined {
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? value : Number.NaN;
+    }
+    return typeof value === "string" && value.trim() ? Date.parse(value.trim()) : Number.NaN;
+}
+
+/**
+ * `GET <pushPath>/jobs` lists scheduled messages (`?all=1` includes finished
+ * ones, `?chatId=` filters); `DELETE <pushPath>/jobs/<id>` cancels one
+ */
+async function handleServerChanBotPushJobsRequest(
+    res: ServerResponse,
+    url: URL,
+    route: PushRoute,
+    jobId: string | undefined,
+): Promise<void> {
+    const { account, log, statusSink } = route;
+    const scheduler = getAccountScheduler(account, log, statusSink);
+    if (jobId === undefined) {
+        const all = url.searchParams.get("all");
+        const jobs = await scheduler.list({
+            chatId: url.searchParams.get("chatId")?.trim() || undefined,
+            includeFinished: all === "1" || all === "true",
+        });
+        sendJsonResponse(res, 200, { ok: true, account: account.accountId, jobs });
+        return;
+    }
+    const job = await scheduler.cancel(jobId);
+    if (!job) {
+        sendJsonResponse(res, 404, { ok: false, error: "no active scheduled message with that id" });
+        return;
+    }
+    log?.info?.(`[${account.accountId}] scheduled message ${job.id} cancelled`);
+    sendJsonResponse(res, 200, { ok: true, account: account.accountId, job });
+}
+
+/**
+ * Send a message on behalf of scripts: POST JSON `{ text, title?, parseMode?,
+ * silent?, account?, chatId?, sendAt?, cron? }` to the configured pushPath with
+ * the account's pushKey. Responds with the message_id of the (first) sent
+ * message, or with the created job when `sendAt` / `cron` defer the delivery.
+ * Scheduled messages are managed under `<pushPath>/jobs`.
+ */
+export async function handleServerChanBotPushRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+): Promise<boolean> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = normalizeRoutePath(url.pathname);
+    let routes = pushRoutes.get(path);
+    let jobsRequest: { id?: string } | null = null;
+    if (!routes) {
+        const match = /^(.*)\/jobs(?:\/([^/]+))?$/.exec(path);
+        routes = match ? pushRoutes.get(normalizeRoutePath(match[1])) : undefined;
+        jobsRequest = match ? { id: match[2] !== undefined ? decodeURIComponent(match[2]) : undefined } : null;
+    }
+    if (!routes || routes.length === 0) {
+        return false;
+    }
+
+    const allowedMethod = !jobsRequest ? "POST" : jobsRequest.id !== undefined ? "DELETE" : "GET";
+    if (req.method !== allowedMethod) {
+        res.setHeader("Allow", allowedMethod);
+        sendJsonResponse(res, 405, { ok: false, error: "method not allowed" });
+        return true;
+    }
+
+    const authorization = req.headers.authorization ?? "";
+    const headerKey = req.headers[PUSH_KEY_HEADER];
+    const presented = authorization.startsWith("Bearer ")
+        ? authorization.slice(7).trim()
+        : (Array.isArray(headerKey) ? headerKey[0] : headerKey)?.trim() ?? "";
+    // Every key is compared so timing does not reveal which one matched
+    const matches = routes.map((route) => timingSafeStringEqual(presented, route.key));
+    const authorized = routes.filter((_, index) => presented && matches[index]);
+    if (authorized.length === 0) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        sendJsonResponse(res, 401, { ok: false, error: "unauthorized" });
+        return true;
+    }
+
+    if (jobsRequest) {
+        const route = selectPushRoute(res, authorized, url.searchParams.get("account")?.trim() ?? "");
+        if (route) {
+            await handleServerChanBotPushJobsRequest(res, url, route, jobsRequest.id);
+        }
+        return true;
+    }
+
+    const body = await readJsonBody(req, PUSH_MAX_BODY_BYTES);
+    if (!body.ok) {
+        sendJsonResponse(res, body.error === "payload too large" ? 413 : 400, {
+            ok: false,
+            error: body.error ?? "invalid payload",
+        });
+        return true;
+    }
+    const payload = (body.value && typeof body.value === "object" ? body.value : {}) as Record<string, unknown>;
+
+    const route = selectPushRoute(res, authorized, typeof payload.account === "string" ? payload.account.trim() : "");
+    if (!route) {
+        return true;
+    }
+    const { account, log, statusSink } = route;
+
+    const text = typeof payload.text === "string" ? payload.text.trim() : "";
+    const title = typeof payload.title === "string" ? payload.title.trim() : "";
+    if (!text && !title) {
+        sendJsonResponse(res, 400, { ok: false, error: "text is required" });
+        return true;
+    }
+    if (payload.parseMode !== undefined && payload.parseMode !== "text" && payload.parseMode !== "markdown") {
+        sendJsonResponse(res, 400, { ok: false, error: "parseMode must be \"text\" or \"markdown\"" });
+        return true;
+    }
+    const silent = typeof payload.silent === "boolean" ? payload.silent : undefined;
+    const chatId =
+        typeof payload.chatId === "string" || typeof payload.chatId === "number"
+            ? String(payload.chatId).trim()
+            : (account.config.chatId ?? "");
+    // SendKey pushes always go to the key's owner
+    if (account.type !== "sendKey" && !/^-?\d+$/.test(chatId)) {
+        sendJsonResponse(res, 400, { ok: false, error: "chatId is required (no default chatId configured)" });
+        return true;
+    }
+
+    const sendAt = parsePushSendAt(payload.sendAt);
+    if (sendAt !== undefined && Number.isNaN(sendAt)) {
+        sendJsonResponse(res, 400, { ok: false, error: "sendAt must be an ISO 8601 time or epoch milliseconds" });
+        return true;
+    }
+    if (payload.cron !== undefined && typeof payload.cron !== "string") {
+        sendJsonResponse(res, 400, { ok: false, error: "cron must be a string" });
+        return true;
+    }
+    if (sendAt !== undefined || payload.cron !== undefined) {
+        try {
+            const job = await getAccountScheduler(account, log, statusSink).schedule({
+                chatId,
+                text,
+                title: title || undefined,
+                parseMode: payload.parseMode as ServerChanBotParseMode | undefined,
+                silent,
+                sendAt,
+                cron: payload.cron as string | undefined,
+            });
+            log?.info?.(
+                `[${account.accountId}] scheduled message ${job.id} for ${new Date(job.nextRunAt ?? 0).toISOString()}`,
+            );
+            sendJsonResponse(res, 202, { ok: true, account: account.accountId, job });
+        } catch (err) {
+            sendJsonResponse(res, 400, { ok: false, error: err instanceof Error ? err.message : String(err) });
+        }
+        return true;
+    }
+
+    if (account.type === "sendKey") {
+        try {
+            const pushId = await sendServerChanBotSendKeyPush({ account, text, title: title || undefined, log });
+            statusSink?.({ lastOutboundAt: Date.now() });
+            sendJsonResponse(res, 200, { ok: true, account: account.accountId, push_id: pushId });
+        } catch (err) {
+            log?.error?.(`[${account.accountId}] SendKey push failed: ${String(err)}`);
+            sendJsonResponse(res, 502, { ok: false, error: err instanceof Error ? err.message : String(err) });
+        }
+        return true;
+    }
+
+    const parseMode = (payload.parseMode as ServerChanBotParseMode | undefined) ?? account.config.parseMode;
+    try {
+        const sent = await sendServerChanBotChunks({
+            account,
+            chatId,
+            text: composePushMessage(title, text, parseMode),
+            parseMode,
+            silent,
+            log,
+        });
+        statusSink?.({ lastOutboundAt: Date.now() });
+        sendJsonResponse(res, 200, {
+            ok: true,
+            account: account.accountId,
+            chat_id: chatId,
+            message_id: sent[0]?.message_id,
+            message_ids: sent.map((item) => item.message_id),
+        });
+    } catch (err) {
+        log?.error?.(`[${account.accountId}] push to ${chatId} failed: ${String(err)}`);
+        sendJsonResponse(res, 502, { ok: false, error: err instanceof Error ? err.message : String(err) });
+    }
+    return true;
+}
@@ -0,0 +1,200 @@
+/**
+ * Inbound rate limiting for Server酱³ Bot
+ *
+ * Every account has one token bucket for all inbound traffic plus one bucket
+ * per chat. A message is dispatched only when both buckets have a token.
+ * Chats that keep hitting their limit are blocked for a while. Limiting is off
+ * unless the account sets `rateLimit.enabled`.
+ */
+
+export type ServerChanBotRateLimitConfig = {
+    /** Off by default */
+    enabled?: boolean;
+    /** Messages a chat may send in a burst */
+    chatBurst?: number;
+    /** Sustained messages per minute for a chat */
+    chatPerMinute?: number;
+    accountBurst?: number;
+    accountPerMinute?: number;
+    /** Send one "slow down" reply when a chat starts being throttled */
+    notify?: boolean;
+    /** Throttled messages within `blockWindowMs` before a chat is blocked */
+    blockAfter?: number;
+    blockWindowMs?: number;
+    blockDurationMs?: number;
+};
+
+export type InboundRateDecision =
+    | { action: "allow" }
+    | { action: "throttle"; scope: "chat" | "account"; notify: boolean }
+    | { action: "block"; until: number; notify: boolean };
+
+export type InboundRateStats = {
+    inboundThrottledCount: number;
+    inboundBlockedCount: number;
+    blockedChats: number;
+};
+
+const DEFAULTS = {
+    chatBurst: 10,
+    chatPerMinute: 30,
+    accountBurst: 60,
+    accountPerMinute: 300,
+    blockAfter: 20,
+    blockWindowMs: 10 * 60_000,
+    blockDurationMs: 10 * 60_000,
+};
+
+const MAX_TRACKED_CHATS = 5000;
+
+type TokenBucket = {
+    tokens: number;
+    updatedAt: number;
+};
+
+type ChatState = {
+    bucket: TokenBucket;
+    /** Timestamps of recent throttled messages */
+    strikes: number[];
+    blockedUntil: number;
+    noticeSent: boolean;
+};
+
+type AccountLimiter = {
+    bucket: TokenBucket;
+    chats: Map<string, ChatState>;
+    throttled: number;
+    blocked: number;
+};
+
+const limiters = new Map<string, AccountLimiter>();
+
+function positive(value: number | undefined, fallback: number): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Top up a bucket for the time elapsed since its last update
+ */
+function refill(bucket: TokenBucket, burst: number, perMinute: number, now: number) {
+    const elapsedMs = Math.max(0, now - bucket.updatedAt);
+    bucket.tokens = Math.min(burst, bucket.tokens + (elapsedMs * perMinute) / 60_000);
+    bucket.updatedAt = now;
+}
+
+function getAccountLimiter(accountId: string, accountBurst: number, now: number): AccountLimiter {
+    let limiter = limiters.get(accountId);
+    if (!limiter) {
+        limiter = {
+            bucket: { tokens: accountBurst, updatedAt: now },
+            chats: new Map(),
+            throttled: 0,
+            blocked: 0,
+        };
+        limiters.set(accountId, limiter);
+    }
+    return limiter;
+}
+
+/**
+ * Forget chats that are idle (full bucket, not blocked); keeps memory bounded
+ */
+function pruneChats(limiter: AccountLimiter, chatBurst: number, now: number) {
+    if (limiter.chats.size <= MAX_TRACKED_CHATS) {
+        return;
+    }
+    for (const [chatId, state] of limiter.chats) {
+        if (state.blockedUntil <= now && state.bucket.tokens >= chatBurst) {
+            limiter.chats.delete(chatId);
+        }
+    }
+}
+
+/**
+ * Take a token for an inbound message from `chatId`
+ */
+export function checkServerChanBotInboundRate(params: {
+    accountId: string;
+    chatId: string;
+    config?: ServerChanBotRateLimitConfig;
+    now?: number;
+}): InboundRateDecision {
+    const { accountId, chatId, config } = params;
+    if (config?.enabled !== true) {
+        return { action: "allow" };
+    }
+    const now = params.now ?? Date.now();
+    const chatBurst = positive(config?.chatBurst, DEFAULTS.chatBurst);
+    const chatPerMinute = positive(config?.chatPerMinute, DEFAULTS.chatPerMinute);
+    const accountBurst = positive(config?.accountBurst, DEFAULTS.accountBurst);
+    const accountPerMinute = positive(config?.accountPerMinute, DEFAULTS.accountPerMinute);
+    const blockAfter = positive(config?.blockAfter, DEFAULTS.blockAfter);
+    const blockWindowMs = positive(config?.blockWindowMs, DEFAULTS.blockWindowMs);
+    const blockDurationMs = positive(config?.blockDurationMs, DEFAULTS.blockDurationMs);
+    const notify = config?.notify ?? true;
+
+    const limiter = getAccountLimiter(accountId, accountBurst, now);
+    let chat = limiter.chats.get(chatId);
+    if (!chat) {
+        pruneChats(limiter, chatBurst, now);
+        chat = {
+            bucket: { tokens: chatBurst, updatedAt: now },
+            strikes: [],
+            blockedUntil: 0,
+            noticeSent: false,
+        };
+        limiter.chats.set(chatId, chat);
+    }
+
+    if (chat.blockedUntil > now) {
+        limiter.blocked += 1;
+        return { action: "block", until: chat.blockedUntil, notify: false };
+    }
+
+    refill(chat.bucket, chatBurst, chatPerMinute, now);
+    refill(limiter.bucket, accountBurst, accountPerMinute, now);
+
+    if (chat.bucket.tokens >= 1 && limiter.bucket.tokens >= 1) {
+        chat.bucket.tokens -= 1;
+        limiter.bucket.tokens -= 1;
+        chat.noticeSent = false;
+        return { action: "allow" };
+    }
+
+    limiter.throttled += 1;
+    const scope = chat.bucket.tokens < 1 ? "chat" : "account";
+    const shouldNotify = notify && !chat.noticeSent;
+    chat.noticeSent = true;
+
+    if (scope === "chat") {
+        chat.strikes = [...chat.strikes.filter((at) => now - at < blockWindowMs), now];
+        if (chat.strikes.length >= blockAfter) {
+            chat.strikes = [];
+            chat.blockedUntil = now + blockDurationMs;
+            return { action: "block", until: chat.blockedUntil, notify: shouldNotify };
+        }
+    }
+    return { action: "throttle", scope, notify: shouldNotify };
+}
+
+/**
+ * Throttle counters for account snapshots (empty before the first inbound message)
+ */
+export function describeServerChanBotInboundRate(accountId: string): Partial<InboundRateStats> {
+    const limiter = limiters.get(accountId);
+    if (!limiter) {
+        return {};
+    }
+    const now = Date.now();
+    let blockedChats = 0;
+    for (const state of limiter.chats.values()) {
+        if (state.blockedUntil > now) {
+            blockedChats += 1;
+        }
+    }
+    return {
+        inboundThrottledCount: limiter.throttled,
+        inboundBlockedCount: limiter.blocked,
+        blockedChats,
+    };
+}
@@ -0,0 +1,285 @@
+/**
+ * Inbound receive modes for Server酱³ Bot
+ *
+ * - "polling": getUpdates long polling
+ * - "webhook": updates are pushed to the gateway's webhook route
+ * - "hybrid": webhook first; health checks (getWebhookInfo + a probe of the
+ *   public webhook URL) trigger a failover to polling, and the webhook is
+ *   restored once its URL is reachable again
+ */
+
+import { serverChanBotGetWebhookInfo } from "./api.js";
+import { sleepWithAbort } from "./abort.js";
+
+export type ServerChanBotReceiveMode = "polling" | "webhook" | "hybrid";
+
+/** Transport currently delivering updates in hybrid mode */
+export type ServerChanBotActiveMode = "webhook" | "polling";
+
+export type ServerChanBotModeChange = {
+    mode: ServerChanBotActiveMode;
+    reason: string;
+    at: number;
+};
+
+type ReceiveModeLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+    debug?: (message: string) => void;
+};
+
+/** Query parameter answered by the webhook route for health probes */
+export const WEBHOOK_HEALTH_PARAM = "sc3bot_health";
+
+export const DEFAULT_WEBHOOK_HEALTH_CHECK_INTERVAL_MS = 60_000;
+export const DEFAULT_WEBHOOK_FAILOVER_THRESHOLD = 2;
+
+const HEALTH_PROBE_TIMEOUT_MS = 5000;
+
+/**
+ * Pick the receive mode. Without an explicit `receiveMode`, `pollingEnabled`
+ * wins; otherwise webhook is used when webhook config exists, else polling.
+ */
+export function resolveServerChanBotReceiveMode(config: {
+    receiveMode?: ServerChanBotReceiveMode;
+    pollingEnabled?: boolean;
+    webhookUrl?: string;
+    webhookPath?: string;
+    webhookSecret?: string;
+}): ServerChanBotReceiveMode {
+    if (config.receiveMode) {
+        return config.receiveMode;
+    }
+    if (typeof config.pollingEnabled === "boolean") {
+        return config.pollingEnabled ? "polling" : "webhook";
+    }
+    const hasWebhookConfig =
+        Boolean(config.webhookUrl?.trim()) ||
+        Boolean(config.webhookPath?.trim()) ||
+        Boolean(config.webhookSecret?.trim());
+    return hasWebhookConfig ? "webhook" : "polling";
+}
+
+/**
+ * Request the webhook URL's health route; returns a problem description or null
+ */
+export async function probeWebhookEndpoint(params: {
+    url: string;
+    healthToken: string;
+    signal: AbortSignal;
+}): Promise<string | null> {
+    let probeUrl: URL;
+    try {
+        probeUrl = new URL(params.url);
+    } catch {
+        return `invalid webhook url: ${params.url}`;
+    }
+    probeUrl.searchParams.set(WEBHOOK_HEALTH_PARAM, params.healthToken);
+    try {
+        const response = await fetch(probeUrl, {
+            method: "GET",
+            signal: AbortSignal.any([params.signal, AbortSignal.timeout(HEALTH_PROBE_TIMEOUT_MS)]),
+        });
+        const body = await response.text();
+        if (!response.ok || body.trim() !== params.healthToken) {
+            return `webhook endpoint returned HTTP ${response.status}`;
+        }
+        return null;
+    } catch (err) {
+        return `webhook endpoint unreachable: ${err instanceof Error ? err.message : String(err)}`;
+    }
+}
+
+/**
+ * Check the remote webhook and the public endpoint; returns a problem description or null
+ */
+async function checkWebhookHealth(params: {
+    botToken: string;
+    apiBaseUrl?: string;
+    url: string;
+    healthToken: string;
+    since: number;
+    /** Whether the remote webhook URL is expected to equal `url` */
+    verifyUrl: boolean;
+    signal: AbortSignal;
+}): Promise<string | null> {
+    const { botToken, apiBaseUrl, url, since, verifyUrl, signal } = params;
+    try {
+        const info = await serverChanBotGetWebhookInfo(botToken, { apiBaseUrl, signal });
+        const remoteUrl = info.result?.url?.trim() ?? "";
+        if (verifyUrl && remoteUrl !== url) {
+            return remoteUrl ? `webhook now points to ${remoteUrl}` : "webhook no longer registered";
+        }
+        const lastErrorAt = (info.result?.last_error_date ?? 0) * 1000;
+        if (lastErrorAt > since) {
+            return `delivery error: ${info.result?.last_error_message ?? "unknown"}`;
+        }
+    } catch {
+        // The Bot API being down says nothing about the webhook; rely on the probe
+        if (signal.aborted) {
+            return null;
+        }
+    }
+    return await probeWebhookEndpoint(params);
+}
+
+/**
+ * Run hybrid receiving until `abortSignal` fires. The webhook route and the
+ * initial remote registration must already be in place. Returns the mode that
+ * was active when it stopped.
+ */
+export async function runServerChanBotHybridReceiver(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    webhookUrl: string;
+    healthToken: string;
+    /** Whether this account manages the remote webhook (webhookAutoRegister) */
+    managesRemoteWebhook: boolean;
+    checkIntervalMs?: number;
+    failoverThreshold?: number;
+    abortSignal: AbortSignal;
+    log?: ReceiveModeLog;
+    /** Re-register the remote webhook; returns false when registration failed */
+    registerWebhook: () => Promise<boolean>;
+    /** Remove the remote webhook this account registered so getUpdates can be used */
+    releaseWebhook: () => Promise<void>;
+    poll: (signal: AbortSignal) => Promise<void>;
+    /** Called on every switch between webhook and polling */
+    onModeChange: (change: ServerChanBotModeChange) => void;
+    /**
+     * Called with the health problem when failover is needed but the webhook is
+     * not managed by this account, and with null once it is healthy again
+     */
+    onFailoverBlocked?: (problem: string | null) => void;
+}): Promise<ServerChanBotActiveMode> {
+    const {
+        accountId,
+        botToken,
+        apiBaseUrl,
+        webhookUrl,
+        healthToken,
+        managesRemoteWebhook,
+        abortSignal,
+        log,
+        registerWebhook,
+        releaseWebhook,
+        poll,
+        onModeChange,
+        onFailoverBlocked,
+    } = params;
+    const checkIntervalMs =
+        params.checkIntervalMs && params.checkIntervalMs > 0
+            ? params.checkIntervalMs
+            : DEFAULT_WEBHOOK_HEALTH_CHECK_INTERVAL_MS;
+    const failoverThreshold = Math.max(
+        1,
+        params.failoverThreshold ?? DEFAULT_WEBHOOK_FAILOVER_THRESHOLD,
+    );
+
+    let mode: ServerChanBotActiveMode = "webhook";
+    let failures = 0;
+    let failoverBlocked = false;
+    let lastCheckAt = Date.now();
+    let polling: { controller: AbortController; done: Promise<void> } | null = null;
+
+    const switchMode = (next: ServerChanBotActiveMode, reason: string) => {
+        mode = next;
+        log?.info?.(`[${accountId}] receive mode switched to ${next}: ${reason}`);
+        onModeChange({ mode: next, reason, at: Date.now() });
+    };
+
+    const startPolling = () => {
+        const controller = new AbortController();
+        const done = poll(AbortSignal.any([abortSignal, controller.signal])).catch((err) => {
+            log?.error?.(`[${accountId}] fallback polling stopped: ${String(err)}`);
+        });
+        polling = { controller, done };
+    };
+
+    const stopPolling = async () => {
+        const current = polling;
+        polling = null;
+        if (current) {
+            current.controller.abort();
+            await current.done;
+        }
+    };
+
+    try {
+        while (!abortSignal.aborted) {
+            await sleepWithAbort(checkIntervalMs, abortSignal);
+            if (abortSignal.aborted) {
+                break;
+            }
+
+            if (mode === "webhook") {
+                const problem = await checkWebhookHealth({
+                    botToken,
+                    apiBaseUrl,
+                    url: webhookUrl,
+                    healthToken,
+                    since: lastCheckAt,
+                    verifyUrl: managesRemoteWebhook,
+                    signal: abortSignal,
+                });
+                lastCheckAt = Date.now();
+                if (!problem) {
+                    failures = 0;
+                    if (failoverBlocked) {
+                        failoverBlocked = false;
+                        onFailoverBlocked?.(null);
+                    }
+                    continue;
+                }
+                failures += 1;
+                log?.error?.(
+                    `[${accountId}] webhook health check failed (${failures}/${failoverThreshold}): ${problem}`,
+                );
+                if (failures < failoverThreshold || abortSignal.aborted) {
+                    continue;
+                }
+                // getUpdates only works without a webhook, and one registered elsewhere
+                // (with a secret this account does not know) must not be removed
+                if (!managesRemoteWebhook) {
+                    if (!failoverBlocked) {
+                        failoverBlocked = true;
+                        log?.error?.(
+                            `[${accountId}] not falling back to polling: the remote webhook is not managed by this account (webhookAutoRegister is false)`,
+                        );
+                    }
+                    onFailoverBlocked?.(problem);
+                    continue;
+                }
+                await releaseWebhook();
+                startPolling();
+                switchMode("polling", problem);
+                continue;
+            }
+
+            const problem = await probeWebhookEndpoint({
+                url: webhookUrl,
+                healthToken,
+                signal: abortSignal,
+            });
+            if (problem) {
+                log?.debug?.(`[${accountId}] webhook still unavailable: ${problem}`);
+                continue;
+            }
+            await stopPolling();
+            if (abortSignal.aborted) {
+                break;
+            }
+            if (!(await registerWebhook())) {
+                startPolling();
+                continue;
+            }
+            failures = 0;
+            lastCheckAt = Date.now();
+            switchMode("webhook", "webhook endpoint reachable again");
+        }
+    } finally {
+        await stopPolling();
+    }
+    return mode;
+}
@@ -0,0 +1,152 @@
+/**
+ * Agent tool for scheduled Server酱³ Bot messages
+ *
+ * Lets the agent turn "remind me at 9:00" into a scheduled message on the same
+ * per-account scheduler the push endpoint uses (see scheduler.ts), and list or
+ * cancel what it scheduled earlier.
+ *
+ * Tool factories only receive the config, so the conversation an agent run is
+ * answering is carried in an AsyncLocalStorage set around the dispatch. Inside a
+ * conversation the tool schedules for that chat and only sees the jobs created
+ * from it; the account owner (the user whose id is the account's `chatId`) may
+ * also target other chats and manage every job. Calls outside a Server酱³ Bot
+ * conversation (CLI, heartbeats) act for the operator.
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { Type } from "@sinclair/typebox";
+import type { ChannelAgentTool } from "openclaw/plugin-sdk";
+import { jsonResult, stringEnum } from "openclaw/plugin-sdk";
+import type { ScheduledJob, ServerChanBotScheduler } from "./scheduler.js";
+
+const SCHEDULE_ACTIONS = ["schedule", "list", "cancel"] as const;
+
+export type ServerChanBotScheduleTarget = {
+    accountId: string;
+    scheduler: ServerChanBotScheduler;
+    /** Chat used outside a conversation when the agent does not name one */
+    defaultChatId?: string;
+    /** SendKey accounts always push to the key's owner */
+    fixedRecipient: boolean;
+};
+
+/** The Server酱³ Bot conversation an agent run is answering */
+export type ServerChanBotConversation = {
+    accountId: string;
+    chatId: string;
+    senderId: string;
+    /** May schedule for other chats and list / cancel every job */
+    isOwner: boolean;
+};
+
+const conversations = new AsyncLocalStorage<ServerChanBotConversation>();
+
+/**
+ * Run an agent dispatch as `conversation`, binding the schedule tool to it
+ */
+export function runInServerChanBotConversation<T>(conversation: ServerChanBotConversation, run: () => T): T {
+    return conversations.run(conversation, run);
+}
+
+function readString(args: Record<string, unknown>, key: string): string | undefined {
+    const value = args[key];
+    if (value === undefined || value === null) {
+        return undefined;
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+        throw new Error(`${key} must be a string`);
+    }
+    return String(value).trim() || undefined;
+}
+
+/**
+ * Build the `serverchan_bot_schedule` tool; `resolveTarget` throws when the
+ * account is not usable
+ */
+export function createServerChanBotScheduleTool(deps: {
+    resolveTarget: (accountId?: string) => ServerChanBotScheduleTarget;
+}): ChannelAgentTool {
+    return {
+        label: "Server酱³ Bot schedule",
+        name: "serverchan_bot_schedule",
+        description:
+            "Schedule a Server酱³ Bot message for later (sendAt, ISO 8601) or on a recurring cron schedule " +
+            "(5 fields, gateway local time), list pending scheduled messages, or cancel one by id.",
+        parameters: Type.Object({
+            action: stringEnum(SCHEDULE_ACTIONS, { description: "schedule, list or cancel" }),
+            text: Type.Optional(Type.String({ description: "Message text (schedule)" })),
+            title: Type.Optional(Type.String({ description: "Optional title shown above the text (schedule)" })),
+            sendAt: Type.Optional(Type.String({ description: "One-shot delivery time, ISO 8601 with offset" })),
+            cron: Type.Optional(Type.String({ description: "Recurring schedule, e.g. \"0 9 * * 1-5\"" })),
+            to: Type.Optional(
+                Type.String({ description: "Target chat id (owner only); defaults to the current chat" }),
+            ),
+            id: Type.Optional(Type.String({ description: "Scheduled message id (cancel)" })),
+            accountId: Type.Optional(
+                Type.String({ description: "Server酱³ Bot account; defaults to the default account" }),
+            ),
+        }),
+        execute: async (_toolCallId: string, rawArgs: unknown) => {
+            const args = (rawArgs ?? {}) as Record<string, unknown>;
+            const action = readString(args, "action");
+            const conversation = conversations.getStore();
+            const restricted = conversation !== undefined && !conversation.isOwner;
+            const requestedAccountId = readString(args, "accountId");
+            if (restricted && requestedAccountId && requestedAccountId !== conversation.accountId) {
+                throw new Error("only the bot owner can use another account");
+            }
+            const target = deps.resolveTarget(requestedAccountId ?? conversation?.accountId);
+            const { accountId, scheduler } = target;
+            const currentChatId = conversation?.accountId === accountId ? conversation.chatId : undefined;
+            const to = readString(args, "to");
+            // Other chats' jobs are invisible, so their ids are reported as unknown
+            const visible = (job: ScheduledJob) => !restricted || job.ownerChatId === conversation.chatId;
+
+            if (action === "list") {
+                const jobs = await scheduler.list({ chatId: restricted || target.fixedRecipient ? undefined : to });
+                return jsonResult({ ok: true, account: accountId, jobs: jobs.filter(visible) });
+            }
+            if (action === "cancel") {
+                const id = readString(args, "id");
+                if (!id) {
+                    throw new Error("id is required to cancel a scheduled message");
+                }
+                const owned = (await scheduler.list()).some((job) => job.id === id && visible(job));
+                const job = owned ? await scheduler.cancel(id) : null;
+                if (!job) {
+                    throw new Error(`no active scheduled message with id ${id}`);
+                }
+                return jsonResult({ ok: true, account: accountId, job });
+            }
+            if (action !== "schedule") {
+                throw new Error("action must be schedule, list or cancel");
+            }
+
+            const text = readString(args, "text");
+            if (!text) {
+                throw new Error("text is required");
+            }
+            if (restricted && to !== undefined && to !== conversation.chatId) {
+                throw new Error("only the bot owner can schedule messages for another chat");
+            }
+            const chatId = target.fixedRecipient ? "" : (to ?? currentChatId ?? target.defaultChatId ?? "");
+            if (!target.fixedRecipient && !/^-?\d+$/.test(chatId)) {
+                throw new Error("to is required (no default chatId configured)");
+            }
+            const sendAtRaw = readString(args, "sendAt");
+            const sendAt = sendAtRaw === undefined ? undefined : Date.parse(sendAtRaw);
+            if (sendAt !== undefined && Number.isNaN(sendAt)) {
+                throw new Error("sendAt must be an ISO 8601 time");
+            }
+            const job = await scheduler.schedule({
+                chatId,
+                text,
+                title: readString(args, "title"),
+                sendAt,
+                cron: readString(args, "cron"),
+                ownerChatId: conversation?.chatId,
+            });
+            return jsonResult({ ok: true, account: accountId, job });
+        },
+    };
+}
@@ -0,0 +1,436 @@
+/**
+ * Scheduled and recurring outbound messages for Server酱³ Bot
+ *
+ * A job is either one-shot (`sendAt`) or recurring (`cron`, see cron.ts). Jobs
+ * and their delivery results are persisted to
+ * `<state dir>/serverchan-bot/<accountId>.schedule.json` so they survive a
+ * gateway restart. Timers only run while the account is started; runs that
+ * were missed in the meantime (or fired more than a minute late) follow the
+ * catch-up policy:
+ * - "skip": record them as skipped and wait for the next occurrence
+ * - "once": deliver a single late message for the whole backlog
+ * - "all": deliver every missed run, up to MAX_CATCH_UP_RUNS
+ * A job never runs twice at once; stopping waits for runs already sending.
+ */
+
+import { randomUUID } from "node:crypto";
+import { nextServerChanBotCronRun, parseServerChanBotCron } from "./cron.js";
+import type { ServerChanBotParseMode } from "./send.js";
+import { readJsonStateFile, resolveAccountStatePath, writeJsonStateFile } from "./state.js";
+
+export type ServerChanBotCatchUpPolicy = "skip" | "once" | "all";
+
+/**
+ * "scheduled": waiting for its next run; one-shot jobs end as "done", "failed"
+ * or "missed" (skipped by the catch-up policy); any active job can be "cancelled"
+ */
+export type ScheduledJobState = "scheduled" | "done" | "failed" | "missed" | "cancelled";
+
+export type ScheduledJobRun = {
+    /** Occurrence the run belongs to */
+    scheduledFor: number;
+    /** When it was delivered, failed or skipped */
+    at: number;
+    ok: boolean;
+    /** Dropped by the catch-up policy instead of being delivered */
+    skipped?: boolean;
+    messageId?: string;
+    error?: string;
+};
+
+export type ScheduledJob = {
+    id: string;
+    chatId: string;
+    text: string;
+    title?: string;
+    parseMode?: ServerChanBotParseMode;
+    silent?: boolean;
+    /** One-shot delivery time (epoch ms) */
+    sendAt?: number;
+    /** Recurring schedule in the gateway's local time */
+    cron?: string;
+    /** Chat whose conversation created the job through the agent tool; unset for operator jobs */
+    ownerChatId?: string;
+    state: ScheduledJobState;
+    /** Next occurrence; null once the job has finished */
+    nextRunAt: number | null;
+    createdAt: number;
+    updatedAt: number;
+    /** Delivery attempts so far (skipped runs not included) */
+    runs: number;
+    /** Latest runs, oldest first */
+    history: ScheduledJobRun[];
+};
+
+export type ScheduledMessage = Pick<
+    ScheduledJob,
+    "chatId" | "text" | "title" | "parseMode" | "silent" | "sendAt" | "cron" | "ownerChatId"
+>;
+
+export type SchedulerStats = {
+    scheduledJobs: number;
+    scheduledNextRunAt: number | null;
+    /** Jobs whose latest delivery failed */
+    scheduledFailures: number;
+};
+
+/** Deliver one run of a job; resolves with the sent message id */
+export type ScheduledSender = (job: ScheduledJob) => Promise<{ messageId?: string }>;
+
+export type ServerChanBotSchedulerOptions = {
+    send: ScheduledSender;
+    catchUp?: ServerChanBotCatchUpPolicy;
+    /** Missed runs older than this are skipped whatever the policy */
+    catchUpMaxAgeMs?: number;
+};
+
+type SchedulerLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+};
+
+type ScheduleFile = {
+    jobs?: ScheduledJob[];
+};
+
+export type ServerChanBotScheduler = {
+    /** Validate and store a job; throws when sendAt / cron are invalid */
+    schedule: (message: ScheduledMessage) => Promise<ScheduledJob>;
+    /** Active jobs by next run; finished ones too with `includeFinished` */
+    list: (filter?: { chatId?: string; includeFinished?: boolean }) => Promise<ScheduledJob[]>;
+    /** Cancel an active job; null when the id is unknown or the job already finished */
+    cancel: (id: string) => Promise<ScheduledJob | null>;
+    /** Catch up on missed runs and arm the timer; returns a stop function that settles once running jobs finished */
+    start: () => () => Promise<void>;
+    setOptions: (options: ServerChanBotSchedulerOptions) => void;
+    stats: () => SchedulerStats;
+};
+
+export const DEFAULT_CATCH_UP_POLICY: ServerChanBotCatchUpPolicy = "once";
+
+/** A run that fires later than this counts as missed */
+const MISSED_GRACE_MS = 60_000;
+const MAX_CATCH_UP_RUNS = 20;
+/** Bounds the backlog walk of a frequent job after a long outage */
+const MAX_MISSED_SCAN = 10_000;
+const MAX_ACTIVE_JOBS = 500;
+const FINISHED_JOB_LIMIT = 100;
+const HISTORY_LIMIT = 20;
+/** setTimeout cannot wait much longer than 24 days; the timer is re-armed instead */
+const MAX_TIMER_MS = 60 * 60_000;
+
+const schedulers = new Map<string, ServerChanBotScheduler>();
+
+function createScheduler(params: {
+    accountId: string;
+    options: ServerChanBotSchedulerOptions;
+    log?: SchedulerLog;
+}): ServerChanBotScheduler {
+    const { accountId, log } = params;
+    const filePath = resolveAccountStatePath(accountId, "schedule.json");
+    let options = params.options;
+    let jobs: ScheduledJob[] = [];
+    let running = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    /** Runs still sending, by job id */
+    const inFlight = new Map<string, Promise<void>>();
+
+    const persist = async () => {
+        try {
+            const file: ScheduleFile = { jobs };
+            await writeJsonStateFile(filePath, file);
+        } catch (err) {
+            log?.error?.(`[${accountId}] failed to persist scheduled messages: ${String(err)}`);
+        }
+    };
+
+    const loaded = (async () => {
+        try {
+            const file = await readJsonStateFile<ScheduleFile>(filePath);
+            jobs = [...(file?.jobs ?? []), ...jobs];
+        } catch (err) {
+            log?.error?.(`[${accountId}] failed to load scheduled messages: ${String(err)}`);
+        }
+    })();
+
+    const isActive = (job: ScheduledJob) => job.state === "scheduled" && job.nextRunAt !== null;
+
+    /** Keep every active job and only the most recently finished ones */
+    const prune = () => {
+        const finished = jobs
+            .filter((job) => !isActive(job))
+            .sort((a, b) => b.updatedAt - a.updatedAt)
+            .slice(0, FINISHED_JOB_LIMIT);
+        const keep = new Set(finished);
+        jobs = jobs.filter((job) => isActive(job) || keep.has(job));
+    };
+
+    const record = (job: ScheduledJob, run: ScheduledJobRun) => {
+        job.history = [...job.history, run].slice(-HISTORY_LIMIT);
+        job.updatedAt = run.at;
+    };
+
+    /**
+     * Take the job's due occurrences and move it past them. Occurrences within
+     * the grace period are delivered; older ones follow the catch-up policy.
+     */
+    const takeDueRuns = (job: ScheduledJob, now: number) => {
+        const schedule = job.cron ? parseServerChanBotCron(job.cron) : null;
+        // Only the latest MAX_CATCH_UP_RUNS occurrences are kept
+        const due: number[] = [];
+        let missedTotal = 0;
+        let next = job.nextRunAt;
+        while (next !== null && next <= now && missedTotal < MAX_MISSED_SCAN) {
+            missedTotal += now - next > MISSED_GRACE_MS ? 1 : 0;
+            due.push(next);
+            if (due.length > MAX_CATCH_UP_RUNS) {
+                due.shift();
+            }
+            next = schedule ? nextServerChanBotCronRun(schedule, next) : null;
+        }
+        job.nextRunAt = schedule
+            ? next !== null && next > now
+                ? next
+                : nextServerChanBotCronRun(schedule, now)
+            : null;
+
+        const policy = options.catchUp ?? DEFAULT_CATCH_UP_POLICY;
+        const maxAgeMs = options.catchUpMaxAgeMs;
+        const onTime = due.filter((at) => now - at <= MISSED_GRACE_MS);
+        const eligible = due.filter(
+            (at) => now - at > MISSED_GRACE_MS && (maxAgeMs === undefined || now - at <= maxAgeMs),
+        );
+        const catchUp =
+            policy === "all" ? eligible : policy === "once" && onTime.length === 0 ? eligible.slice(-1) : [];
+        if (missedTotal > 0) {
+            log?.info?.(
+                `[${accountId}] scheduled message ${job.id} missed ${missedTotal} run(s); catch-up "${policy}" delivers ${catchUp.length}`,
+            );
+        }
+        return due.map((scheduledFor) => ({
+            scheduledFor,
+            deliver: onTime.includes(scheduledFor) || catchUp.includes(scheduledFor),
+        }));
+    };
+
+    const runJob = async (job: ScheduledJob, runs: Array<{ scheduledFor: number; deliver: boolean }>) => {
+        if (!job.cron) {
+            // Finished before sending, so a restart mid-send does not deliver it twice
+            job.state = runs.some((run) => run.deliver) ? "done" : "missed";
+        }
+        await persist();
+
+        let lastDelivery: ScheduledJobRun | undefined;
+        for (const { scheduledFor, deliver } of runs) {
+            if (job.state === "cancelled") {
+                break;
+            }
+            if (!deliver) {
+                record(job, { scheduledFor, at: Date.now(), ok: false, skipped: true });
+                continue;
+            }
+            job.runs += 1;
+            try {
+                const sent = await options.send(job);
+                lastDelivery = { scheduledFor, at: Date.now(), ok: true, messageId: sent.messageId };
+            } catch (err) {
+                const error = err instanceof Error ? err.message : String(err);
+                lastDelivery = { scheduledFor, at: Date.now(), ok: false, error };
+                log?.error?.(`[${accountId}] scheduled message ${job.id} to ${job.chatId} failed: ${error}`);
+            }
+            record(job, lastDelivery);
+        }
+        if (!job.cron && lastDelivery && !lastDelivery.ok) {
+            job.state = "failed";
+        }
+        prune();
+        await persist();
+    };
+
+    const arm = () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        if (!running) {
+            return;
+        }
+        // A job that is still sending is re-armed once its run finished
+        const next = Math.min(
+            ...jobs.filter((job) => isActive(job) && !inFlight.has(job.id)).map((job) => job.nextRunAt as number),
+        );
+        if (!Number.isFinite(next)) {
+            return;
+        }
+        timer = setTimeout(tick, Math.min(MAX_TIMER_MS, Math.max(0, next - Date.now())));
+    };
+
+    const launch = (job: ScheduledJob, runs: Array<{ scheduledFor: number; deliver: boolean }>) => {
+        const run = runJob(job, runs)
+            .catch((err) => {
+                log?.error?.(`[${accountId}] scheduled message ${job.id} failed: ${String(err)}`);
+            })
+            .finally(() => {
+                inFlight.delete(job.id);
+                arm();
+            });
+        inFlight.set(job.id, run);
+    };
+
+    const tick = () => {
+        timer = null;
+        if (!running) {
+            return;
+        }
+        const now = Date.now();
+        for (const job of jobs) {
+            if (!isActive(job) || (job.nextRunAt as number) > now || inFlight.has(job.id)) {
+                continue;
+            }
+            try {
+                launch(job, takeDueRuns(job, now));
+            } catch (err) {
+                // Only an edited schedule file can hold an unparsable cron expression
+                job.state = "failed";
+                job.nextRunAt = null;
+                record(job, { scheduledFor: now, at: now, ok: false, error: String(err) });
+                log?.error?.(`[${accountId}] scheduled message ${job.id} disabled: ${String(err)}`);
+                void persist();
+            }
+        }
+        arm();
+    };
+
+    const snapshot = (job: ScheduledJob): ScheduledJob => ({ ...job, history: [...job.history] });
+
+    return {
+        schedule: async (message) => {
+            await loaded;
+            const now = Date.now();
+            if ((message.sendAt === undefined) === (message.cron === undefined)) {
+                throw new Error("set exactly one of sendAt or cron");
+            }
+            let nextRunAt: number | null;
+            let cron: string | undefined;
+            if (message.cron !== undefined) {
+                cron = message.cron.trim();
+                nextRunAt = nextServerChanBotCronRun(parseServerChanBotCron(cron), now);
+                if (nextRunAt === null) {
+                    throw new Error(`cron expression "${cron}" never fires`);
+                }
+            } else {
+                const sendAt = message.sendAt as number;
+                if (!Number.isFinite(sendAt)) {
+                    throw new Error("sendAt is not a valid time");
+                }
+                if (sendAt < now - MISSED_GRACE_MS) {
+                    throw new Error("sendAt is in the past");
+                }
+                nextRunAt = sendAt;
+            }
+            if (jobs.filter(isActive).length >= MAX_ACTIVE_JOBS) {
+                throw new Error(`too many scheduled messages (limit ${MAX_ACTIVE_JOBS})`);
+            }
+
+            const job: ScheduledJob = {
+                id: randomUUID(),
+                chatId: message.chatId,
+                text: message.text,
+                title: message.title,
+                parseMode: message.parseMode,
+                silent: message.silent,
+                sendAt: message.sendAt,
+                cron,
+                ownerChatId: message.ownerChatId,
+                state: "scheduled",
+                nextRunAt,
+                createdAt: now,
+                updatedAt: now,
+                runs: 0,
+                history: [],
+            };
+            jobs.push(job);
+            await persist();
+            arm();
+            return snapshot(job);
+        },
+        list: async (filter) => {
+            await loaded;
+            return jobs
+                .filter((job) => filter?.includeFinished || isActive(job))
+                .filter((job) => filter?.chatId === undefined || job.chatId === filter.chatId)
+                .sort((a, b) => (a.nextRunAt ?? Infinity) - (b.nextRunAt ?? Infinity) || a.createdAt - b.createdAt)
+                .map(snapshot);
+        },
+        cancel: async (id) => {
+            await loaded;
+            const job = jobs.find((entry) => entry.id === id);
+            if (!job || !isActive(job)) {
+                return null;
+            }
+            job.state = "cancelled";
+            job.nextRunAt = null;
+            job.updatedAt = Date.now();
+            prune();
+            await persist();
+            arm();
+            return snapshot(job);
+        },
+        start: () => {
+            running = true;
+            void loaded.then(() => {
+                const pending = jobs.filter(isActive).length;
+                if (pending > 0) {
+                    log?.info?.(`[${accountId}] ${pending} scheduled message(s) pending`);
+                }
+                tick();
+            });
+            return async () => {
+                running = false;
+                arm();
+                await Promise.all(inFlight.values());
+            };
+        },
+        setOptions: (next) => {
+            options = next;
+        },
+        stats: () => {
+            const active = jobs.filter(isActive);
+            return {
+                scheduledJobs: active.length,
+                scheduledNextRunAt:
+                    active.length > 0 ? Math.min(...active.map((job) => job.nextRunAt as number)) : null,
+                scheduledFailures: jobs.filter((job) => {
+                    const last = job.history.filter((run) => !run.skipped).at(-1);
+                    return last !== undefined && !last.ok;
+                }).length,
+            };
+        },
+    };
+}
+
+/**
+ * Get (or create) the scheduler for an account. Options are refreshed on every
+ * call so config reloads (catch-up policy, rotated credentials) take effect.
+ */
+export function getServerChanBotScheduler(params: {
+    accountId: string;
+    options: ServerChanBotSchedulerOptions;
+    log?: SchedulerLog;
+}): ServerChanBotScheduler {
+    const existing = schedulers.get(params.accountId);
+    if (existing) {
+        existing.setOptions(params.options);
+        return existing;
+    }
+    const scheduler = createScheduler(params);
+    schedulers.set(params.accountId, scheduler);
+    return scheduler;
+}
+
+/**
+ * Scheduler metrics for account snapshots (empty before the scheduler was used)
+ */
+export function describeServerChanBotScheduler(accountId: string): Partial<SchedulerStats> {
+    return schedulers.get(accountId)?.stats() ?? {};
+}
@@ -0,0 +1,158 @@
+/**
+ * Outbound send rate limiter for Server酱³ Bot
+ *
+ * One token bucket per bot token, shared by every send path (replies, the
+ * outbound adapter, pairing and approval notices). Bursts are queued rather
+ * than rejected, and a 429 retry-after hint pauses all sends for that token.
+ */
+
+import { ServerChanApiError } from "./api.js";
+import { sleepWithAbort } from "./abort.js";
+
+export type ServerChanBotSendRateConfig = {
+    /** Sustained sends per second (default 5) */
+    perSecond?: number;
+    /** Sends allowed back-to-back before spacing kicks in (default 10) */
+    burst?: number;
+};
+
+export type SendLimiterStats = {
+    /** Estimated wait for a message sent now */
+    outboundEstimatedDelayMs: number;
+    /** Sends currently waiting for a slot */
+    outboundSendsWaiting: number;
+};
+
+const DEFAULT_PER_SECOND = 5;
+const DEFAULT_BURST = 10;
+
+type SendLimiter = {
+    perSecond: number;
+    burst: number;
+    /** May go negative: each waiting send has reserved a future token */
+    tokens: number;
+    updatedAt: number;
+    pausedUntil: number;
+    waiting: number;
+};
+
+const limiters = new Map<string, SendLimiter>();
+
+const NEVER_ABORTED = new AbortController().signal;
+
+function positive(value: number | undefined, fallback: number): number {
+    return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+function getLimiter(botToken: string, config?: ServerChanBotSendRateConfig): SendLimiter {
+    const perSecond = positive(config?.perSecond, DEFAULT_PER_SECOND);
+    const burst = positive(config?.burst, DEFAULT_BURST);
+    let limiter = limiters.get(botToken);
+    if (!limiter) {
+        limiter = {
+            perSecond,
+            burst,
+            tokens: burst,
+            updatedAt: Date.now(),
+            pausedUntil: 0,
+            waiting: 0,
+        };
+        limiters.set(botToken, limiter);
+    } else if (config) {
+        // Accounts sharing a token share the bucket; the latest config wins
+        limiter.perSecond = perSecond;
+        limiter.burst = burst;
+    }
+    return limiter;
+}
+
+function refill(limiter: SendLimiter, now: number) {
+    const elapsedMs = Math.max(0, now - limiter.updatedAt);
+    limiter.tokens = Math.min(limiter.burst, limiter.tokens + (elapsedMs * limiter.perSecond) / 1000);
+    limiter.updatedAt = now;
+}
+
+/**
+ * Wait before the next send, assuming `ahead` more sends are already lined up
+ */
+function delayFor(limiter: SendLimiter, now: number, ahead = 0): number {
+    const tokens = limiter.tokens - ahead;
+    const tokenDelay = tokens >= 1 ? 0 : Math.ceil(((1 - tokens) * 1000) / limiter.perSecond);
+    return Math.max(tokenDelay, limiter.pausedUntil - now);
+}
+
+/**
+ * Wait for a send slot. With `maxWaitMs`, a longer expected wait throws a
+ * retryable ServerChanApiError carrying the estimate as `retryAfterMs`.
+ * Returns how long the caller waited.
+ */
+export async function acquireServerChanBotSendSlot(params: {
+    botToken: string;
+    config?: ServerChanBotSendRateConfig;
+    maxWaitMs?: number;
+    signal?: AbortSignal;
+}): Promise<number> {
+    const { botToken, config, maxWaitMs } = params;
+    const signal = params.signal ?? NEVER_ABORTED;
+    const limiter = getLimiter(botToken, config);
+    const startedAt = Date.now();
+    refill(limiter, startedAt);
+
+    const delayMs = delayFor(limiter, startedAt);
+    if (maxWaitMs !== undefined && delayMs > maxWaitMs) {
+        throw new ServerChanApiError(`Send rate limited; retry in ${delayMs}ms`, {
+            method: "sendMessage",
+            retryable: true,
+            retryAfterMs: delayMs,
+        });
+    }
+
+    limiter.tokens -= 1;
+    limiter.waiting += 1;
+    try {
+        await sleepWithAbort(delayMs, signal);
+        // A retry-after received while waiting pushes every pending send back
+        while (!signal.aborted && limiter.pausedUntil > Date.now()) {
+            await sleepWithAbort(limiter.pausedUntil - Date.now(), signal);
+        }
+    } finally {
+        limiter.waiting -= 1;
+    }
+    return Date.now() - startedAt;
+}
+
+/**
+ * Pause all sends for a token (e.g. after HTTP 429 with a retry-after hint)
+ */
+export function deferServerChanBotSends(botToken: string, delayMs: number) {
+    const limiter = getLimiter(botToken);
+    limiter.pausedUntil = Math.max(limiter.pausedUntil, Date.now() + delayMs);
+}
+
+/**
+ * Estimated wait for a message sent now with this token, behind `queuedAhead`
+ * messages that have not reached the limiter yet (e.g. an outbound queue)
+ */
+export function estimateServerChanBotSendDelayMs(botToken: string, queuedAhead = 0): number {
+    const limiter = limiters.get(botToken);
+    if (!limiter) {
+        return 0;
+    }
+    const now = Date.now();
+    refill(limiter, now);
+    return Math.max(0, delayFor(limiter, now, queuedAhead));
+}
+
+/**
+ * Limiter metrics for account snapshots (empty before the first send)
+ */
+export function describeServerChanBotSendLimiter(botToken?: string): Partial<SendLimiterStats> {
+    const limiter = botToken ? limiters.get(botToken) : undefined;
+    if (!botToken || !limiter) {
+        return {};
+    }
+    return {
+        outboundEstimatedDelayMs: estimateServerChanBotSendDelayMs(botToken),
+        outboundSendsWaiting: limiter.waiting,
+    };
+}
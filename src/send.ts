@@ -0,0 +1,349 @@
+/**
+ * Single-message send path for Server酱³ Bot (formatting + plain-text fallback,
+ * message edits, media uploads with a text-link fallback, SendKey pushes)
+ *
+ * Every API call goes through the per-token send limiter.
+ */
+
+import { basename } from "node:path";
+import {
+    MAX_DOCUMENT_BYTES,
+    MAX_PHOTO_BYTES,
+    ServerChanApiError,
+    serverChanBotEditMessageText,
+    serverChanBotSendDocument,
+    serverChanBotSendMessage,
+    serverChanBotSendPhoto,
+    serverChanSendKeyPush,
+    type ServerChanPushResult,
+    type ServerChanSendResult,
+    type ServerChanUploadFile,
+} from "./api.js";
+import { formatServerChanMarkdown, stripMarkdown } from "./format.js";
+import { recordServerChanBotSend } from "./metrics.js";
+import {
+    acquireServerChanBotSendSlot,
+    deferServerChanBotSends,
+    type ServerChanBotSendRateConfig,
+} from "./send-limiter.js";
+
+export type ServerChanBotParseMode = "text" | "markdown";
+
+/** Loads a media URL or local path (the runtime's loadWebMedia) */
+export type ServerChanBotMediaLoader = (
+    url: string,
+    maxBytes: number,
+) => Promise<{ buffer: Buffer; contentType?: string; fileName?: string; kind: string }>;
+
+type SendLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+};
+
+/** Waits longer than this are logged so throttling is visible */
+const SLOW_SLOT_LOG_MS = 1000;
+
+/**
+ * Send one API request once the limiter grants a slot; 429 hints pause the token
+ */
+async function sendWithLimiter<T>(params: {
+    accountId: string;
+    /** API method, for metrics ("send" for SendKey pushes) */
+    method: string;
+    /** Limiter key: the bot token, or the SendKey of push-only accounts */
+    botToken: string;
+    chatId: string;
+    rateLimit?: ServerChanBotSendRateConfig;
+    maxWaitMs?: number;
+    log?: SendLog;
+    request: () => Promise<T>;
+}): Promise<T> {
+    const { accountId, method, botToken, chatId, rateLimit, maxWaitMs, log, request } = params;
+    const waitedMs = await acquireServerChanBotSendSlot({ botToken, config: rateLimit, maxWaitMs });
+    if (waitedMs >= SLOW_SLOT_LOG_MS) {
+        log?.info?.(`[${accountId}] send to ${chatId} delayed ${waitedMs}ms by rate limiter`);
+    }
+    const startedAt = Date.now();
+    try {
+        const result = await request();
+        recordServerChanBotSend(accountId, { method, ok: true, latencyMs: Date.now() - startedAt });
+        return result;
+    } catch (err) {
+        recordServerChanBotSend(accountId, { method, ok: false, latencyMs: Date.now() - startedAt });
+        if (err instanceof ServerChanApiError && err.retryAfterMs) {
+            deferServerChanBotSends(botToken, err.retryAfterMs);
+        }
+        throw err;
+    }
+}
+
+/**
+ * Descriptions the API uses when it cannot parse a markdown message. The API
+ * answers `{ ok: false, error_code: 400, error: "Bad Request: can't parse
+ * entities: ..." }` (older versions use `description` instead of `error`), and
+ * api.ts turns that into the message `sendMessage failed: <description>`.
+ */
+const MARKDOWN_REJECTION_RE = /can't parse|entit|markdown/i;
+
+function isBadRequest(err: unknown): err is ServerChanApiError {
+    return err instanceof ServerChanApiError && !err.retryable && (err.status === 400 || err.errorCode === 400);
+}
+
+/**
+ * Whether a failed send was a 400 about the markdown itself. Other 400s (chat
+ * not found, message is not modified, ...) would fail as plain text too.
+ */
+export function isMarkdownRejection(err: unknown): boolean {
+    return isBadRequest(err) && MARKDOWN_REJECTION_RE.test(err.message);
+}
+
+/**
+ * Run a text request in the account's format. In markdown mode the text is
+ * converted to the Server酱³ dialect; if the API rejects it, the request is
+ * repeated once as plain text.
+ */
+async function withMarkdownFallback(params: {
+    accountId: string;
+    chatId: string;
+    text: string;
+    parseMode?: ServerChanBotParseMode;
+    log?: SendLog;
+    request: (body: string, parseMode?: "text" | "markdown") => Promise<ServerChanSendResult>;
+}): Promise<ServerChanSendResult> {
+    const { accountId, chatId, text, parseMode, log, request } = params;
+    if (parseMode !== "markdown") {
+        return await request(text);
+    }
+
+    try {
+        return await request(formatServerChanMarkdown(text), "markdown");
+    } catch (err) {
+        if (!isMarkdownRejection(err)) {
+            if (isBadRequest(err)) {
+                // Logged here so a markdown error worded differently is visible before the message is dead-lettered
+                log?.error?.(
+                    `[${accountId}] markdown message to ${chatId} rejected (${String(err)}); ` +
+                        "not a known markdown error, so it is not resent as plain text",
+                );
+            }
+            throw err;
+        }
+        log?.info?.(
+            `[${accountId}] markdown rejected for ${chatId} (${String(err)}); resending as plain text`,
+        );
+        return await request(stripMarkdown(text), "text");
+    }
+}
+
+/**
+ * Send one message, falling back to plain text when markdown is rejected
+ */
+export async function sendServerChanBotText(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    chatId: string;
+    text: string;
+    parseMode?: ServerChanBotParseMode;
+    /** Deliver without a notification sound */
+    silent?: boolean;
+    rateLimit?: ServerChanBotSendRateConfig;
+    /** Fail fast (retryable error with retryAfterMs) instead of waiting longer for a slot */
+    maxWaitMs?: number;
+    log?: SendLog;
+}): Promise<ServerChanSendResult> {
+    const { accountId, botToken, apiBaseUrl, chatId, text, parseMode, silent, log } = params;
+    return await withMarkdownFallback({
+        accountId,
+        chatId,
+        text,
+        parseMode,
+        log,
+        request: (body, mode) =>
+            sendWithLimiter({
+                accountId,
+                botToken,
+                chatId,
+                rateLimit: params.rateLimit,
+                maxWaitMs: params.maxWaitMs,
+                log,
+                method: "sendMessage",
+                request: () =>
+                    serverChanBotSendMessage(botToken, chatId, body, { apiBaseUrl, parseMode: mode, silent }),
+            }),
+    });
+}
+
+/**
+ * Replace the text of a sent message; shares the send limiter and the
+ * markdown handling of sendServerChanBotText
+ */
+export async function editServerChanBotText(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    chatId: string;
+    messageId: number | string;
+    text: string;
+    parseMode?: ServerChanBotParseMode;
+    rateLimit?: ServerChanBotSendRateConfig;
+    log?: SendLog;
+}): Promise<ServerChanSendResult> {
+    const { accountId, botToken, apiBaseUrl, chatId, messageId, text, parseMode, log } = params;
+    return await withMarkdownFallback({
+        accountId,
+        chatId,
+        text,
+        parseMode,
+        log,
+        request: (body, mode) =>
+            sendWithLimiter({
+                accountId,
+                botToken,
+                chatId,
+                rateLimit: params.rateLimit,
+                log,
+                method: "editMessageText",
+                request: () =>
+                    serverChanBotEditMessageText(botToken, chatId, messageId, body, {
+                        apiBaseUrl,
+                        parseMode: mode,
+                    }),
+            }),
+    });
+}
+
+function mediaFileName(url: string, fallback: string): string {
+    try {
+        const name = basename(new URL(url).pathname);
+        return name || fallback;
+    } catch {
+        return basename(url) || fallback;
+    }
+}
+
+/**
+ * Text sent instead of a media upload that could not be delivered
+ */
+export function formatServerChanBotMediaLink(mediaUrl: string, caption?: string): string {
+    const link = `📎 ${mediaUrl}`;
+    return caption?.trim() ? `${caption.trim()}\n\n${link}` : link;
+}
+
+/**
+ * Send a media URL: images up to MAX_PHOTO_BYTES go through sendPhoto, other
+ * files through sendDocument. When loading or uploading fails the caption is
+ * sent with a link to the media instead.
+ */
+export async function sendServerChanBotMedia(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    chatId: string;
+    mediaUrl: string;
+    caption?: string;
+    parseMode?: ServerChanBotParseMode;
+    rateLimit?: ServerChanBotSendRateConfig;
+    maxWaitMs?: number;
+    loadMedia: ServerChanBotMediaLoader;
+    log?: SendLog & { error?: (message: string) => void };
+}): Promise<ServerChanSendResult> {
+    const { accountId, botToken, apiBaseUrl, chatId, mediaUrl, caption, loadMedia, log } = params;
+    try {
+        const media = await loadMedia(mediaUrl, MAX_DOCUMENT_BYTES);
+        const file: ServerChanUploadFile = {
+            data: media.buffer,
+            fileName: media.fileName || mediaFileName(mediaUrl, "file"),
+            contentType: media.contentType,
+        };
+        const asPhoto = media.kind === "image" && media.buffer.byteLength <= MAX_PHOTO_BYTES;
+        const options = { apiBaseUrl, caption: caption?.trim() || undefined };
+        return await sendWithLimiter({
+            accountId,
+            botToken,
+            chatId,
+            rateLimit: params.rateLimit,
+            maxWaitMs: params.maxWaitMs,
+            log,
+            method: asPhoto ? "sendPhoto" : "sendDocument",
+            request: () =>
+                asPhoto
+                    ? serverChanBotSendPhoto(botToken, chatId, file, options)
+                    : serverChanBotSendDocument(botToken, chatId, file, options),
+        });
+    } catch (err) {
+        log?.error?.(
+            `[${accountId}] media upload of ${mediaUrl} to ${chatId} failed (${String(err)}); sending a link instead`,
+        );
+    }
+    return await sendServerChanBotText({
+        accountId,
+        botToken,
+        apiBaseUrl,
+        chatId,
+        text: formatServerChanBotMediaLink(mediaUrl, caption),
+        parseMode: params.parseMode,
+        rateLimit: params.rateLimit,
+        maxWaitMs: params.maxWaitMs,
+        log,
+    });
+}
+
+/** The SendKey API shows at most this many title characters */
+const SENDKEY_TITLE_MAX_CHARS = 32;
+
+/**
+ * Split text for the SendKey API: the first non-empty line (without heading
+ * marks) becomes the title and the rest the markdown body. When the title had
+ * to be shortened, the body keeps the full text.
+ */
+export function splitServerChanSendKeyText(text: string): { title: string; desp: string } {
+    const lines = text.trim().split("\n");
+    const index = lines.findIndex((line) => line.trim());
+    if (index < 0) {
+        return { title: "", desp: "" };
+    }
+    const firstLine = lines[index].trim().replace(/^#{1,6}\s+/, "");
+    const rest = lines.slice(index + 1).join("\n").trim();
+    const chars = Array.from(firstLine);
+    if (chars.length <= SENDKEY_TITLE_MAX_CHARS) {
+        return { title: firstLine, desp: rest };
+    }
+    return {
+        title: `${chars.slice(0, SENDKEY_TITLE_MAX_CHARS - 1).join("")}…`,
+        desp: text.trim(),
+    };
+}
+
+/**
+ * Push text through the classic SendKey API (outbound-only accounts). Without
+ * an explicit title the first line of the text becomes the title.
+ */
+export async function sendServerChanSendKeyText(params: {
+    accountId: string;
+    sendKey: string;
+    apiBaseUrl?: string;
+    text: string;
+    title?: string;
+    rateLimit?: ServerChanBotSendRateConfig;
+    maxWaitMs?: number;
+    log?: SendLog;
+}): Promise<ServerChanPushResult> {
+    const { accountId, sendKey, apiBaseUrl, text, log } = params;
+    const message = params.title?.trim()
+        ? { title: params.title.trim(), desp: text.trim() }
+        : splitServerChanSendKeyText(text);
+    if (!message.title) {
+        throw new Error("SendKey push requires a non-empty title or text");
+    }
+    return await sendWithLimiter({
+        accountId,
+        botToken: sendKey,
+        chatId: "sendkey",
+        rateLimit: params.rateLimit,
+        maxWaitMs: params.maxWaitMs,
+        log,
+        method: "send",
+        request: () => serverChanSendKeyPush(sendKey, message, { apiBaseUrl }),
+    });
+}
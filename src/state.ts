@@ -0,0 +1,139 @@
+/**
+ * Per-account persistent state for Server酱³ Bot
+ *
+ * Files live under `<OpenClaw state dir>/serverchan-bot/` and are written
+ * atomically (temp file + rename), one write at a time per file.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import { getServerChanBotRuntime } from "./runtime.js";
+
+export type ServerChanBotAccountState = {
+    lastUpdateId?: number;
+    updatedAt?: number;
+};
+
+type UpdateWatermark = {
+    /** Updates received but not yet processed */
+    inFlight: Set<number>;
+    /** Processed updates still waiting on an older one */
+    finished: Set<number>;
+};
+
+const pendingWrites = new Map<string, Promise<void>>();
+const confirmedUpdateIds = new Map<string, number>();
+const watermarks = new Map<string, UpdateWatermark>();
+
+export function resolveServerChanBotStateDir(): string {
+    return path.join(getServerChanBotRuntime().state.resolveStateDir(), "serverchan-bot");
+}
+
+/**
+ * Resolve a state file path for an account, e.g. `default.json` or `default.outbox.json`
+ */
+export function resolveAccountStatePath(accountId: string, suffix = "json"): string {
+    const safeId = accountId.replace(/[^a-zA-Z0-9_-]/g, "_") || "default";
+    return path.join(resolveServerChanBotStateDir(), `${safeId}.${suffix}`);
+}
+
+export async function readJsonStateFile<T>(filePath: string): Promise<T | null> {
+    try {
+        const raw = await fs.readFile(filePath, "utf8");
+        return JSON.parse(raw) as T;
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+            return null;
+        }
+        throw err;
+    }
+}
+
+export async function writeJsonStateFile(filePath: string, value: unknown): Promise<void> {
+    const previous = pendingWrites.get(filePath) ?? Promise.resolve();
+    const next = previous
+        .catch(() => undefined)
+        .then(async () => {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            const tmpPath = `${filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tmpPath, `${JSON.stringify(value, null, 2)}\n`, "utf8");
+            await fs.rename(tmpPath, filePath);
+        });
+    pendingWrites.set(filePath, next);
+    try {
+        await next;
+    } finally {
+        if (pendingWrites.get(filePath) === next) {
+            pendingWrites.delete(filePath);
+        }
+    }
+}
+
+/**
+ * Read the last confirmed update_id for an account (undefined when never polled)
+ */
+export async function readLastUpdateId(accountId: string): Promise<number | undefined> {
+    const cached = confirmedUpdateIds.get(accountId);
+    if (cached !== undefined) {
+        return cached;
+    }
+    const state = await readJsonStateFile<ServerChanBotAccountState>(resolveAccountStatePath(accountId));
+    const lastUpdateId = typeof state?.lastUpdateId === "number" ? state.lastUpdateId : undefined;
+    if (lastUpdateId !== undefined) {
+        confirmedUpdateIds.set(accountId, lastUpdateId);
+    }
+    return lastUpdateId;
+}
+
+/**
+ * Persist an update_id once it has been fully processed. Only moves forward.
+ */
+export async function recordConfirmedUpdateId(accountId: string, updateId: number): Promise<void> {
+    await readLastUpdateId(accountId);
+    const current = confirmedUpdateIds.get(accountId);
+    if (current !== undefined && current >= updateId) {
+        return;
+    }
+    confirmedUpdateIds.set(accountId, updateId);
+    const state: ServerChanBotAccountState = { lastUpdateId: updateId, updatedAt: Date.now() };
+    await writeJsonStateFile(resolveAccountStatePath(accountId), state);
+}
+
+/**
+ * Start tracking an update; call the returned function once it has been
+ * processed (or given up on). The persisted offset only moves up to the
+ * highest update below which every tracked update has finished, so a restart
+ * never skips an update still running in a slower chat lane.
+ */
+export function trackServerChanBotUpdate(accountId: string, updateId: number): () => Promise<void> {
+    let watermark = watermarks.get(accountId);
+    if (!watermark) {
+        watermark = { inFlight: new Set(), finished: new Set() };
+        watermarks.set(accountId, watermark);
+    }
+    const tracked = watermark;
+    tracked.inFlight.add(updateId);
+    let done = false;
+    return async () => {
+        if (done) {
+            return;
+        }
+        done = true;
+        tracked.inFlight.delete(updateId);
+        tracked.finished.add(updateId);
+        const oldestInFlight = tracked.inFlight.size > 0 ? Math.min(...tracked.inFlight) : Infinity;
+        let confirmable: number | undefined;
+        for (const id of tracked.finished) {
+            if (id < oldestInFlight) {
+                tracked.finished.delete(id);
+                confirmable = confirmable === undefined ? id : Math.max(confirmable, id);
+            }
+        }
+        if (tracked.inFlight.size === 0 && tracked.finished.size === 0 && watermarks.get(accountId) === tracked) {
+            watermarks.delete(accountId);
+        }
+        if (confirmable !== undefined) {
+            await recordConfirmedUpdateId(accountId, confirmable);
+        }
+    };
+}
@@ -0,0 +1,271 @@
+/**
+ * Status diagnostics for Server酱³ Bot accounts (`openclaw channels status`)
+ */
+
+import type { ChannelAccountSnapshot, ChannelStatusIssue } from "openclaw/plugin-sdk";
+import { DEFAULT_ACCOUNT_ID } from "openclaw/plugin-sdk";
+import type { DispatchLaneStats } from "./dispatch-lanes.js";
+import type { OutboundQueueStats } from "./outbound-queue.js";
+import type { InboundRateStats } from "./rate-limit.js";
+import type { ServerChanBotActiveMode, ServerChanBotReceiveMode } from "./receive-mode.js";
+import type { SchedulerStats } from "./scheduler.js";
+import type { SendLimiterStats } from "./send-limiter.js";
+
+export type ServerChanBotIssueSeverity = "error" | "warning" | "info";
+
+/** Core only renders message and fix, so the severity is also prefixed to the message */
+export type ServerChanBotStatusIssue = ChannelStatusIssue & {
+    severity: ServerChanBotIssueSeverity;
+};
+
+/**
+ * Runtime fields this plugin reports through setStatus
+ */
+export type ServerChanBotStatusPatch = {
+    lastInboundAt?: number;
+    lastOutboundAt?: number;
+    webhookUrl?: string;
+    webhookMismatch?: string | null;
+    receiveMode?: ServerChanBotReceiveMode;
+    /** Transport currently receiving updates */
+    mode?: ServerChanBotActiveMode;
+    modeSwitchCount?: number;
+    lastModeSwitchAt?: number | null;
+    lastModeSwitchReason?: string | null;
+    /** Health problem of an unmanaged hybrid webhook that cannot fall back to polling */
+    webhookFailoverBlocked?: string | null;
+    pollingConsecutiveFailures?: number;
+    lastPollingErrorAt?: number | null;
+    lastError?: string | null;
+};
+
+/**
+ * Account snapshot with this plugin's runtime fields, config facts and queue metrics
+ */
+export type ServerChanBotAccountSnapshot = ChannelAccountSnapshot &
+    Omit<ServerChanBotStatusPatch, "lastInboundAt" | "lastOutboundAt"> &
+    Partial<
+        OutboundQueueStats & InboundRateStats & DispatchLaneStats & SendLimiterStats & SchedulerStats
+    > & {
+        accountType?: "bot" | "sendKey";
+        /** SendKey accounts: pushes only, no polling or webhook */
+        outboundOnly?: boolean;
+        chatId?: string;
+        webhookSecretConfigured?: boolean;
+        pushPath?: string;
+        pushKeyConfigured?: boolean;
+        inboundIdleWarningMs?: number;
+    };
+
+const POLLING_FAILURE_WARNING = 3;
+const POLLING_FAILURE_ERROR = 10;
+
+function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60_000);
+    if (minutes < 120) {
+        return `${minutes}m`;
+    }
+    return `${Math.round(minutes / 60)}h`;
+}
+
+function probeError(probe: unknown): string | null {
+    if (!probe || typeof probe !== "object") {
+        return null;
+    }
+    const { ok, error } = probe as { ok?: boolean; error?: string };
+    return ok === false ? (error ?? "unknown error") : null;
+}
+
+/**
+ * Collect issues for all accounts; some checks (shared webhook paths) span accounts
+ */
+export function collectServerChanBotStatusIssues(
+    accounts: ChannelAccountSnapshot[],
+    now = Date.now(),
+): ServerChanBotStatusIssue[] {
+    const issues: ServerChanBotStatusIssue[] = [];
+    const push = (
+        account: ChannelAccountSnapshot,
+        severity: ServerChanBotIssueSeverity,
+        kind: ChannelStatusIssue["kind"],
+        message: string,
+        fix: string,
+    ) => {
+        issues.push({
+            channel: "serverchan-bot",
+            accountId: account.accountId ?? DEFAULT_ACCOUNT_ID,
+            kind,
+            severity,
+            message: `[${severity}] ${message}`,
+            fix,
+        });
+    };
+
+    const webhookPaths = new Map<string, ServerChanBotAccountSnapshot[]>();
+
+    for (const account of accounts as ServerChanBotAccountSnapshot[]) {
+        if (!account.configured) {
+            if (account.accountType === "sendKey") {
+                push(
+                    account,
+                    "error",
+                    "config",
+                    "Server酱 SendKey not configured",
+                    "Set sendKey to the SendKey from the Server酱 console, or remove type: \"sendKey\"",
+                );
+            } else {
+                push(
+                    account,
+                    "error",
+                    "config",
+                    "Server酱³ Bot token not configured",
+                    "Set channels.serverchan-bot.botToken or the SERVERCHAN_BOT_TOKEN environment variable",
+                );
+            }
+            continue;
+        }
+        if (account.enabled === false) {
+            continue;
+        }
+
+        const probeFailure = probeError(account.probe);
+        if (probeFailure) {
+            push(
+                account,
+                "error",
+                "auth",
+                `getMe probe failed: ${probeFailure}`,
+                "Check that botToken is valid in the Server酱³ console and that apiBaseUrl is reachable",
+            );
+        }
+
+        if (account.outboundOnly) {
+            push(
+                account,
+                "info",
+                "config",
+                "Outbound-only SendKey account: messages are pushed, nothing is received",
+                "Configure a botToken account to receive messages",
+            );
+        }
+
+        const failures = account.pollingConsecutiveFailures ?? 0;
+        if (failures >= POLLING_FAILURE_WARNING) {
+            push(
+                account,
+                failures >= POLLING_FAILURE_ERROR ? "error" : "warning",
+                "runtime",
+                `Polling has failed ${failures} times in a row${account.lastError ? `: ${account.lastError}` : ""}`,
+                "Check network access to the Bot API and the token; the loop keeps retrying with backoff",
+            );
+        }
+
+        const usesWebhook = account.receiveMode === "webhook" || account.receiveMode === "hybrid";
+        if (usesWebhook && !account.webhookSecretConfigured) {
+            push(
+                account,
+                "warning",
+                "config",
+                "Webhook mode without webhookSecret: anyone who knows the URL can inject messages",
+                "Set webhookSecret (and optionally webhookAuthMode: \"hmac\")",
+            );
+        }
+        if (usesWebhook && account.webhookPath) {
+            webhookPaths.set(account.webhookPath, [
+                ...(webhookPaths.get(account.webhookPath) ?? []),
+                account,
+            ]);
+        }
+
+        if (account.pushPath && !account.pushKeyConfigured) {
+            push(
+                account,
+                "error",
+                "config",
+                `pushPath "${account.pushPath}" is set without pushKey; the push endpoint is disabled`,
+                "Set pushKey to a long random string and send it as \"Authorization: Bearer <pushKey>\"",
+            );
+        }
+
+        if (account.scheduledFailures) {
+            push(
+                account,
+                "warning",
+                "runtime",
+                `${account.scheduledFailures} scheduled message(s) failed on their latest run`,
+                "List them with GET <pushPath>/jobs?all=1 and check the recorded errors",
+            );
+        }
+
+        if (account.webhookMismatch) {
+            push(
+                account,
+                "warning",
+                "config",
+                `Server酱³ Bot webhook mismatch: ${account.webhookMismatch}`,
+                "Set webhookUrl to a public URL and restart the account, or update the webhook in the Server酱³ console",
+            );
+        }
+
+        if (account.running && account.receiveMode === "hybrid" && account.mode === "polling") {
+            push(
+                account,
+                "warning",
+                "runtime",
+                `Server酱³ Bot webhook unavailable, receiving via polling fallback (${account.lastModeSwitchReason ?? "unknown reason"})`,
+                "Check the reverse proxy / public URL in webhookUrl; the webhook is restored automatically once reachable",
+            );
+        }
+
+        if (account.running && account.webhookFailoverBlocked) {
+            push(
+                account,
+                "error",
+                "runtime",
+                `Server酱³ Bot webhook unavailable and not managed by this account, so there is no polling fallback (${account.webhookFailoverBlocked})`,
+                "Fix the endpoint behind the registered webhook, or set webhookAutoRegister: true so the account can switch to polling",
+            );
+        }
+
+        if (account.chatId && !/^-?\d+$/.test(account.chatId)) {
+            push(
+                account,
+                "error",
+                "config",
+                `chatId "${account.chatId}" is not a numeric Server酱³ chat id`,
+                "Use the numeric UID shown by the bot (e.g. in the pairing message) as chatId",
+            );
+        }
+
+        const idleThresholdMs = account.inboundIdleWarningMs ?? 0;
+        const idleSince = account.lastInboundAt ?? account.lastStartAt;
+        if (!account.outboundOnly && account.running && idleThresholdMs > 0 && idleSince && now - idleSince > idleThresholdMs) {
+            push(
+                account,
+                "warning",
+                "runtime",
+                `No inbound messages for ${formatDuration(now - idleSince)} (threshold ${formatDuration(idleThresholdMs)})`,
+                "Send the bot a test message; if it does not arrive, check the webhook/polling setup",
+            );
+        }
+    }
+
+    for (const [path, sharing] of webhookPaths) {
+        if (sharing.length < 2) {
+            continue;
+        }
+        const withoutSecret = sharing.filter((account) => !account.webhookSecretConfigured);
+        const ids = sharing.map((account) => account.accountId).join(", ");
+        for (const account of sharing) {
+            push(
+                account,
+                withoutSecret.length > 1 ? "error" : "warning",
+                "config",
+                `Webhook path ${path} is shared by accounts ${ids}${withoutSecret.length > 1 ? "; requests cannot be routed without secrets" : ""}`,
+                "Give each account its own webhookPath, or distinct webhookSecret values",
+            );
+        }
+    }
+
+    return issues;
+}
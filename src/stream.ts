@@ -0,0 +1,189 @@
+/**
+ * Progressive replies for Server酱³ Bot
+ *
+ * With block streaming the agent's answer arrives in blocks. Instead of one
+ * push notification per block, the first block is sent as a message and later
+ * blocks are appended to it with editMessageText, at most once per interval.
+ * When the next block would push the message past the length limit, the
+ * message is closed and the reply continues in a new one. If the API answers an
+ * edit with 405 or 501 (method not supported), the rest of that reply is sent
+ * as separate messages; the next reply tries editing again.
+ */
+
+import { ServerChanApiError } from "./api.js";
+import { chunkServerChanText } from "./chunk.js";
+
+/** "edit": one message edited as blocks arrive; "separate": one message per block */
+export type ServerChanBotStreamMode = "edit" | "separate";
+
+export const DEFAULT_STREAM_EDIT_INTERVAL_MS = 1000;
+
+export type ServerChanBotReplyStream = {
+    /** Append a block of reply text */
+    push: (text: string) => Promise<void>;
+    /** Write out pending text and close the current message */
+    finish: () => Promise<void>;
+    /** All text pushed so far */
+    text: () => string;
+};
+
+type StreamLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+};
+
+type StreamMessage = {
+    id: number | string;
+    /** Text the user currently sees */
+    shown: string;
+    /** Text the message should show after the next edit */
+    text: string;
+};
+
+const BLOCK_SEPARATOR = "\n\n";
+
+/**
+ * Only "method not supported" answers turn edits off; a 404 usually means the
+ * message is gone, which says nothing about later edits
+ */
+function isEditUnsupported(err: unknown): boolean {
+    if (!(err instanceof ServerChanApiError)) {
+        return false;
+    }
+    return [405, 501].includes(err.status ?? 0) || [405, 501].includes(err.errorCode ?? 0);
+}
+
+export function createServerChanBotReplyStream(params: {
+    accountId: string;
+    /** Longest text a single message may hold */
+    limit: number;
+    /** Minimum time between edits of the same message */
+    intervalMs?: number;
+    /** Size of a message as sent (default: its length) */
+    measure?: (text: string) => number;
+    /** Send a new message; resolves with its id */
+    send: (text: string) => Promise<number | string | undefined>;
+    edit: (messageId: number | string, text: string) => Promise<void>;
+    log?: StreamLog;
+}): ServerChanBotReplyStream {
+    const { accountId, limit, send, edit, log } = params;
+    const intervalMs = params.intervalMs ?? DEFAULT_STREAM_EDIT_INTERVAL_MS;
+    const measure = params.measure ?? ((text: string) => text.length);
+
+    let pushed = "";
+    let current: StreamMessage | null = null;
+    let lastEditAt = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let editUnsupported = false;
+    // Pushes, timed edits and finish run one at a time, in order
+    let chain: Promise<void> = Promise.resolve();
+
+    const run = (task: () => Promise<void>): Promise<void> => {
+        const next = chain.then(task);
+        chain = next.catch(() => {});
+        return next;
+    };
+
+    const sendPieces = async (text: string, keepLast: boolean) => {
+        const pieces = chunkServerChanText(text, limit, { measure });
+        for (const [index, piece] of pieces.entries()) {
+            const id = await send(piece);
+            if (keepLast && index === pieces.length - 1 && id !== undefined) {
+                current = { id, shown: piece, text: piece };
+                lastEditAt = Date.now();
+            }
+        }
+    };
+
+    /** Text appended since the last successful edit goes out as a new message */
+    const sendRemainder = async (message: StreamMessage) => {
+        current = null;
+        const remainder = message.text.slice(message.shown.length).trim();
+        if (remainder) {
+            await sendPieces(remainder, false);
+        }
+    };
+
+    const flush = async (closing: boolean) => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = undefined;
+        }
+        const message = current;
+        if (!message || message.text === message.shown) {
+            return;
+        }
+        if (editUnsupported) {
+            await sendRemainder(message);
+            return;
+        }
+        try {
+            await edit(message.id, message.text);
+            message.shown = message.text;
+            lastEditAt = Date.now();
+        } catch (err) {
+            if (isEditUnsupported(err)) {
+                editUnsupported = true;
+                log?.info?.(`[${accountId}] editMessageText not supported; sending the rest of this reply as separate messages`);
+                await sendRemainder(message);
+                return;
+            }
+            log?.error?.(`[${accountId}] reply edit failed: ${String(err)}`);
+            // A later edit carries the full text; when closing there is none, so nothing is lost
+            if (closing) {
+                await sendRemainder(message);
+            }
+        }
+    };
+
+    const schedule = () => {
+        if (timer) {
+            return;
+        }
+        timer = setTimeout(
+            () => {
+                timer = undefined;
+                void run(() => flush(false));
+            },
+            Math.max(0, lastEditAt + intervalMs - Date.now()),
+        );
+        timer.unref?.();
+    };
+
+    return {
+        push: (block) =>
+            run(async () => {
+                const text = block.trim();
+                if (!text) {
+                    return;
+                }
+                pushed = pushed ? `${pushed}${BLOCK_SEPARATOR}${text}` : text;
+
+                if (editUnsupported) {
+                    if (current) {
+                        await sendRemainder(current);
+                    }
+                    await sendPieces(text, false);
+                    return;
+                }
+
+                if (current) {
+                    const appended = `${current.text}${BLOCK_SEPARATOR}${text}`;
+                    if (measure(appended) <= limit) {
+                        current.text = appended;
+                        schedule();
+                        return;
+                    }
+                    await flush(true);
+                    current = null;
+                }
+                await sendPieces(text, true);
+            }),
+        finish: () =>
+            run(async () => {
+                await flush(true);
+                current = null;
+            }),
+        text: () => pushed,
+    };
+}
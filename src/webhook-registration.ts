@@ -0,0 +1,119 @@
+/**
+ * Remote webhook registration for Server酱³ Bot
+ *
+ * In webhook mode an account registers its URL and secret with `setWebhook`
+ * on start, checks the result with `getWebhookInfo`, and removes it with
+ * `deleteWebhook` when the account stops. A webhook registered elsewhere
+ * (webhookAutoRegister: false) is never removed.
+ */
+
+import {
+    serverChanBotDeleteWebhook,
+    serverChanBotGetWebhookInfo,
+    serverChanBotSetWebhook,
+    type ServerChanWebhookInfo,
+} from "./api.js";
+
+type WebhookRegistrationLog = {
+    info?: (message: string) => void;
+    error?: (message: string) => void;
+};
+
+export type ServerChanBotWebhookRegistration = {
+    /** Whether this process called setWebhook (and should delete it on stop) */
+    registered: boolean;
+    /** Human-readable difference between the remote and local config, null when they match */
+    mismatch: string | null;
+};
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+/**
+ * A URL the Server酱³ servers cannot reach (loopback host or invalid URL)
+ */
+export function isUnreachableWebhookUrl(url: string): boolean {
+    try {
+        return LOOPBACK_HOSTS.has(new URL(url).hostname.toLowerCase());
+    } catch {
+        return true;
+    }
+}
+
+/**
+ * Compare the remote webhook with the local config
+ */
+export function describeWebhookMismatch(
+    info: ServerChanWebhookInfo["result"],
+    expected: { url: string; secret?: string },
+): string | null {
+    const remoteUrl = info?.url?.trim() ?? "";
+    if (!remoteUrl) {
+        return `no webhook registered (expected ${expected.url})`;
+    }
+    if (remoteUrl !== expected.url) {
+        return `registered webhook is ${remoteUrl} (expected ${expected.url})`;
+    }
+    if (expected.secret && info?.has_secret === false) {
+        return "registered webhook has no secret but webhookSecret is configured";
+    }
+    if (!expected.secret && info?.has_secret) {
+        return "registered webhook has a secret but webhookSecret is not configured";
+    }
+    return null;
+}
+
+/**
+ * Register the webhook (when `register` is set) and verify the remote config
+ */
+export async function syncServerChanBotWebhook(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    url: string;
+    secret?: string;
+    register: boolean;
+    log?: WebhookRegistrationLog;
+}): Promise<ServerChanBotWebhookRegistration> {
+    const { accountId, botToken, apiBaseUrl, url, secret, register, log } = params;
+
+    let registered = false;
+    if (register) {
+        try {
+            await serverChanBotSetWebhook(botToken, url, { apiBaseUrl, secretToken: secret });
+            registered = true;
+            log?.info?.(`[${accountId}] webhook registered: ${url}`);
+        } catch (err) {
+            log?.error?.(`[${accountId}] setWebhook failed: ${String(err)}`);
+        }
+    }
+
+    try {
+        const info = await serverChanBotGetWebhookInfo(botToken, { apiBaseUrl });
+        const mismatch = describeWebhookMismatch(info.result, { url, secret });
+        if (mismatch) {
+            log?.error?.(`[${accountId}] webhook mismatch: ${mismatch}`);
+        }
+        return { registered, mismatch };
+    } catch (err) {
+        log?.error?.(`[${accountId}] getWebhookInfo failed: ${String(err)}`);
+        return { registered, mismatch: `could not read remote webhook: ${String(err)}` };
+    }
+}
+
+/**
+ * Remove a webhook this process registered (best effort)
+ */
+export async function releaseServerChanBotWebhook(params: {
+    accountId: string;
+    botToken: string;
+    apiBaseUrl?: string;
+    log?: WebhookRegistrationLog;
+}): Promise<void> {
+    const { accountId, botToken, apiBaseUrl, log } = params;
+    try {
+        await serverChanBotDeleteWebhook(botToken, { apiBaseUrl, timeoutMs: 5000 });
+        log?.info?.(`[${accountId}] webhook removed`);
+    } catch (err) {
+        log?.error?.(`[${accountId}] deleteWebhook failed: ${String(err)}`);
+    }
+}
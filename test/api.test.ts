@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ServerChanApiError, serverChanBotGetUpdates, serverChanBotSendMessage } from "../src/api.js";
+import { startFakeServerChanBotApi, type FakeServerChanBotApi } from "./fake-api-server.js";
+
+let fake: FakeServerChanBotApi;
+
+beforeEach(async () => {
+    fake = await startFakeServerChanBotApi({ maxLongPollMs: 1000 });
+});
+
+afterEach(async () => {
+    await fake.close();
+});
+
+/** The error a call rejected with */
+async function failure(call: Promise<unknown>): Promise<ServerChanApiError> {
+    const err = await call.then(
+        () => undefined,
+        (reason: unknown) => reason,
+    );
+    expect(err).toBeInstanceOf(ServerChanApiError);
+    return err as ServerChanApiError;
+}
+
+describe("API client errors", () => {
+    it("reports API rejections with the method, status and description", async () => {
+        fake.failNext("sendMessage", { status: 400, error: "Bad Request: chat not found" });
+
+        const err = await failure(serverChanBotSendMessage(fake.token, "1", "hi", { apiBaseUrl: fake.baseUrl }));
+        expect(err.message).toBe("sendMessage failed: Bad Request: chat not found");
+        expect(err).toMatchObject({ method: "sendMessage", status: 400, errorCode: 400, retryable: false });
+    });
+
+    it("marks 429 retryable with the server's retry-after hint", async () => {
+        fake.failNext("sendMessage", { status: 429, error: "Too Many Requests", retryAfter: 3 });
+
+        const err = await failure(serverChanBotSendMessage(fake.token, "1", "hi", { apiBaseUrl: fake.baseUrl }));
+        expect(err).toMatchObject({ status: 429, retryable: true, retryAfterMs: 3000 });
+    });
+
+    it("times out a request that takes too long", async () => {
+        const err = await failure(
+            serverChanBotGetUpdates(fake.token, { apiBaseUrl: fake.baseUrl, timeout: 1, timeoutMs: 50 }),
+        );
+        expect(err.message).toBe("getUpdates timed out after 50ms");
+        expect(err.retryable).toBe(true);
+    });
+
+    it("stops when the caller aborts, without marking the request retryable", async () => {
+        const controller = new AbortController();
+        const call = serverChanBotGetUpdates(fake.token, {
+            apiBaseUrl: fake.baseUrl,
+            timeout: 1,
+            signal: controller.signal,
+        });
+        setTimeout(() => controller.abort(), 20);
+
+        const err = await failure(call);
+        expect(err.message).toBe("getUpdates aborted");
+        expect(err.retryable).toBe(false);
+    });
+
+    it("reports network errors as retryable", async () => {
+        const err = await failure(serverChanBotSendMessage(fake.token, "1", "hi", { apiBaseUrl: "http://127.0.0.1:9" }));
+        expect(err.message).toMatch(/^sendMessage network error/);
+        expect(err).toMatchObject({ status: undefined, retryable: true });
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { chunkServerChanText } from "../src/chunk.js";
+import { formatServerChanMarkdown } from "../src/format.js";
+
+const formattedLength = (text: string) => formatServerChanMarkdown(text).length;
+
+function table(rows: number): string {
+    const lines = ["| 名称 | 状态 | 说明 |", "| --- | --- | --- |"];
+    for (let i = 1; i <= rows; i += 1) {
+        lines.push(`| item-${i} | ok | row ${i} of the report |`);
+    }
+    return lines.join("\n");
+}
+
+describe("chunkServerChanText", () => {
+    it("returns short text as one part", () => {
+        expect(chunkServerChanText("hello\nworld", 100)).toEqual(["hello\nworld"]);
+    });
+
+    it("packs lines greedily without exceeding the limit", () => {
+        const text = Array.from({ length: 20 }, (_, i) => `line ${i}`).join("\n");
+        const parts = chunkServerChanText(text, 30);
+
+        expect(parts.every((part) => part.length <= 30)).toBe(true);
+        expect(parts.join("\n")).toBe(text);
+    });
+
+    it("never splits inside a link or inline code", () => {
+        const text = `${"word ".repeat(8)}[a link label](https://example.com/path) \`some code\` tail`;
+        const parts = chunkServerChanText(text, 50);
+
+        expect(parts.some((part) => part.includes("[a link label](https://example.com/path)"))).toBe(true);
+        expect(parts.some((part) => part.includes("`some code`"))).toBe(true);
+    });
+
+    it("re-fences the parts of an oversized code block", () => {
+        const code = ["```ts", ...Array.from({ length: 30 }, (_, i) => `const v${i} = ${i};`), "```"].join("\n");
+        const parts = chunkServerChanText(code, 120);
+
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            expect(part.length).toBeLessThanOrEqual(120);
+            expect(part.startsWith("```ts\n")).toBe(true);
+            expect(part.endsWith("\n```")).toBe(true);
+        }
+    });
+
+    it("keeps list items with their continuation lines", () => {
+        const text = ["- first item", "  continues here", "- second item", "  also continues"].join("\n");
+        const parts = chunkServerChanText(text, 35);
+
+        expect(parts).toEqual(["- first item\n  continues here", "- second item\n  also continues"]);
+    });
+
+    it("adds part markers within the limit", () => {
+        const text = Array.from({ length: 30 }, (_, i) => `line ${i}`).join("\n");
+        const parts = chunkServerChanText(text, 40, { partMarkers: true });
+
+        expect(parts[0].startsWith(`(1/${parts.length})\n`)).toBe(true);
+        expect(parts.every((part) => part.length <= 40)).toBe(true);
+    });
+
+    it("sizes markdown parts by their formatted length", () => {
+        // One wide cell pads every row of the aligned table
+        const rows = Array.from({ length: 25 }, (_, i) => `| r${i} | ok |`);
+        const wide = `| ${"wide name ".repeat(6).trim()} | ok |`;
+        const text = [`Intro ${"text ".repeat(40)}`, ["| name | state |", "| --- | --- |", wide, ...rows].join("\n")].join(
+            "\n\n",
+        );
+        const limit = 1000;
+        expect(text.length).toBeLessThan(limit);
+        expect(formattedLength(text)).toBeGreaterThan(limit);
+
+        const parts = chunkServerChanText(text, limit, { measure: formattedLength });
+
+        expect(parts.length).toBeGreaterThan(1);
+        expect(parts.every((part) => formattedLength(part) <= limit)).toBe(true);
+    });
+
+    it("repeats the table header in every part of a split table", () => {
+        const parts = chunkServerChanText(table(40), 600, { measure: formattedLength });
+
+        expect(parts.length).toBeGreaterThan(1);
+        for (const part of parts) {
+            const lines = part.split("\n");
+            expect(lines.slice(0, 2)).toEqual(["| 名称 | 状态 | 说明 |", "| --- | --- | --- |"]);
+            expect(formattedLength(part)).toBeLessThanOrEqual(600);
+        }
+        const rows = parts.flatMap((part) => part.split("\n").slice(2));
+        expect(rows).toHaveLength(40);
+    });
+
+    it("keeps a table that fits in one part whole", () => {
+        const text = ["before", table(3), "after"].join("\n");
+        const parts = chunkServerChanText(text, table(3).length + 5);
+
+        expect(parts).toContain(table(3));
+    });
+});
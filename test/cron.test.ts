@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { nextServerChanBotCronRun, parseServerChanBotCron } from "../src/cron.js";
+
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+    new Date(year, month - 1, day, hour, minute).getTime();
+
+describe("parseServerChanBotCron", () => {
+    it("expands ranges, steps, lists and names", () => {
+        const schedule = parseServerChanBotCron("*/15 9-11 1,15 jan-mar MON-fri");
+        expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+        expect([...schedule.hours]).toEqual([9, 10, 11]);
+        expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+        expect([...schedule.months]).toEqual([1, 2, 3]);
+        expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it("accepts shortcuts and folds weekday 7 into Sunday", () => {
+        expect(parseServerChanBotCron("@daily")).toMatchObject({ dayOfMonthRestricted: false });
+        expect([...parseServerChanBotCron("0 0 * * 7").daysOfWeek]).toEqual([0]);
+        expect([...parseServerChanBotCron("5/20 * * * *").minutes]).toEqual([5, 25, 45]);
+    });
+
+    it.each([
+        ["* * * *", /expected 5 fields/],
+        ["60 * * * *", /minute 60 is outside 0-59/],
+        ["* * * foo *", /bad month "foo"/],
+        ["* 5-2 * * *", /reversed/],
+        ["*/0 * * * *", /bad minute/],
+    ])("rejects %s", (expression, reason) => {
+        expect(() => parseServerChanBotCron(expression)).toThrow(reason);
+    });
+});
+
+describe("nextServerChanBotCronRun", () => {
+    it("finds the next matching minute strictly after the given time", () => {
+        const schedule = parseServerChanBotCron("30 9 * * *");
+        expect(nextServerChanBotCronRun(schedule, at(2026, 3, 10, 9, 30))).toBe(at(2026, 3, 11, 9, 30));
+        expect(nextServerChanBotCronRun(schedule, at(2026, 3, 10, 8, 59))).toBe(at(2026, 3, 10, 9, 30));
+    });
+
+    it("fires on either day field when both are restricted", () => {
+        // The 13th, or any Friday
+        const schedule = parseServerChanBotCron("0 0 13 * 5");
+        // 2026-03-01 is a Sunday: Friday the 6th comes before the 13th
+        expect(nextServerChanBotCronRun(schedule, at(2026, 3, 1))).toBe(at(2026, 3, 6));
+        expect(nextServerChanBotCronRun(schedule, at(2026, 3, 11))).toBe(at(2026, 3, 13));
+    });
+
+    it("reaches Feb 29 across leap years", () => {
+        const schedule = parseServerChanBotCron("0 12 29 2 *");
+        expect(nextServerChanBotCronRun(schedule, at(2026, 1, 1))).toBe(at(2028, 2, 29, 12));
+    });
+
+    it("returns null for schedules that never fire", () => {
+        expect(nextServerChanBotCronRun(parseServerChanBotCron("0 0 31 2 *"), at(2026, 1, 1))).toBeNull();
+    });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { createInboundDebouncer } from "../src/debounce.js";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("createInboundDebouncer", () => {
+    it("runs one batch per key after the sender pauses", async () => {
+        const runs: Array<[string, string[]]> = [];
+        const debouncer = createInboundDebouncer<string>({
+            run: async (key, items) => {
+                runs.push([key, items]);
+            },
+        });
+
+        debouncer.push("a", "1", 40);
+        debouncer.push("b", "x", 40);
+        await sleep(20);
+        debouncer.push("a", "2", 40);
+        await sleep(30);
+        expect(runs).toEqual([["b", ["x"]]]);
+        expect(debouncer.pending()).toBe(2);
+
+        await sleep(30);
+        expect(runs).toEqual([
+            ["b", ["x"]],
+            ["a", ["1", "2"]],
+        ]);
+        expect(debouncer.pending()).toBe(0);
+    });
+
+    it("hands pending items to take without running them", async () => {
+        const runs: string[][] = [];
+        const debouncer = createInboundDebouncer<string>({
+            run: async (_key, items) => {
+                runs.push(items);
+            },
+        });
+
+        debouncer.push("a", "1", 20);
+        expect(debouncer.take("a")).toEqual(["1"]);
+        expect(debouncer.take("a")).toBeUndefined();
+        await sleep(40);
+        expect(runs).toEqual([]);
+    });
+
+    it("flushes matching keys early", async () => {
+        const runs: string[] = [];
+        const debouncer = createInboundDebouncer<string>({
+            run: async (key) => {
+                runs.push(key);
+            },
+        });
+
+        debouncer.push("acct1:chat", "1", 60_000);
+        debouncer.push("acct2:chat", "2", 60_000);
+        await debouncer.flush((key) => key.startsWith("acct1:"));
+
+        expect(runs).toEqual(["acct1:chat"]);
+        expect(debouncer.pending()).toBe(1);
+        await debouncer.flush(() => true);
+    });
+
+    it("reports failed batches", async () => {
+        const errors: string[] = [];
+        const debouncer = createInboundDebouncer<string>({
+            run: async () => {
+                throw new Error("boom");
+            },
+            onError: (key, err) => errors.push(`${key}: ${(err as Error).message}`),
+        });
+
+        debouncer.push("a", "1", 0);
+        await sleep(20);
+        expect(errors).toEqual(["a: boom"]);
+    });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { getServerChanBotDispatchScheduler } from "../src/dispatch-lanes.js";
+
+let accountCounter = 0;
+const nextAccountId = () => `lanes${++accountCounter}`;
+
+const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>((done) => {
+        resolve = done;
+    });
+    return { promise, resolve };
+};
+
+describe("dispatch lanes", () => {
+    it("runs a lane's tasks in order while other lanes proceed", async () => {
+        const scheduler = getServerChanBotDispatchScheduler({ accountId: nextAccountId(), maxConcurrent: 2 });
+        const order: string[] = [];
+        const gate = deferred();
+
+        const first = scheduler.run("a", async () => {
+            await gate.promise;
+            order.push("a1");
+        });
+        const second = scheduler.run("a", async () => {
+            order.push("a2");
+        });
+        await scheduler.run("b", async () => {
+            order.push("b1");
+        });
+        expect(order).toEqual(["b1"]);
+
+        gate.resolve();
+        await Promise.all([first, second]);
+        expect(order).toEqual(["b1", "a1", "a2"]);
+    });
+
+    it("caps concurrency across lanes", async () => {
+        const scheduler = getServerChanBotDispatchScheduler({ accountId: nextAccountId(), maxConcurrent: 1 });
+        const gate = deferred();
+        const blocked = scheduler.run("a", () => gate.promise);
+        let ranB = false;
+        const other = scheduler.run("b", async () => {
+            ranB = true;
+        });
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        expect(ranB).toBe(false);
+        expect(scheduler.stats()).toMatchObject({ dispatchActive: 1, dispatchLanes: 2 });
+
+        gate.resolve();
+        await Promise.all([blocked, other]);
+        expect(ranB).toBe(true);
+    });
+
+    it("drops offers past the lane depth", async () => {
+        const scheduler = getServerChanBotDispatchScheduler({ accountId: nextAccountId(), maxLaneDepth: 2 });
+        const gate = deferred();
+
+        const running = scheduler.offer("a", () => gate.promise);
+        const queued = scheduler.offer("a", async () => undefined);
+        expect(running).not.toBeNull();
+        expect(queued).not.toBeNull();
+        expect(scheduler.offer("a", async () => undefined)).toBeNull();
+        expect(scheduler.offer("b", async () => undefined)).not.toBeNull();
+        expect(scheduler.stats()).toMatchObject({ dispatchLaneMaxDepth: 2, dispatchDroppedCount: 1 });
+
+        gate.resolve();
+        await Promise.all([running, queued]);
+        expect(scheduler.offer("a", async () => undefined)).not.toBeNull();
+    });
+});
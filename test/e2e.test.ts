@@ -0,0 +1,604 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { WEBHOOK_NONCE_HEADER } from "../src/api.js";
+import { serverChanBotPlugin } from "../src/channel.js";
+import { readLastUpdateId } from "../src/state.js";
+import {
+    installTestRuntime,
+    startFakeServerChanBotApi,
+    startTestAccount,
+    startTestGateway,
+    waitFor,
+    type FakeServerChanBotApi,
+    type RunningAccount,
+    type TestRuntime,
+} from "./harness.js";
+
+let fake: FakeServerChanBotApi;
+let gateway: Awaited<ReturnType<typeof startTestGateway>>;
+let runtime: TestRuntime;
+let running: RunningAccount | undefined;
+
+beforeAll(async () => {
+    gateway = await startTestGateway();
+});
+
+afterAll(async () => {
+    await gateway.close();
+});
+
+beforeEach(async () => {
+    runtime = installTestRuntime();
+    fake = await startFakeServerChanBotApi({ maxLongPollMs: 200 });
+});
+
+afterEach(async () => {
+    await running?.stop();
+    running = undefined;
+    await fake.close();
+    runtime.cleanup();
+});
+
+describe("polling", () => {
+    it("dispatches inbound messages and sends the agent reply", async () => {
+        running = startTestAccount(fake);
+        fake.pushUpdate({ chat_id: 20001, text: "你好" });
+
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20001));
+        expect(sent.text).toBe("echo: 你好");
+        expect(runtime.dispatched).toHaveLength(1);
+        expect(runtime.dispatched[0].Body).toBe("你好");
+        expect(running.statuses.some((status) => status.mode === "polling")).toBe(true);
+    });
+
+    it("keeps each chat's messages in order", async () => {
+        running = startTestAccount(fake);
+        for (const text of ["one", "two", "three"]) {
+            fake.pushUpdate({ chat_id: 20002, text });
+        }
+
+        await waitFor(() => fake.sentMessages.filter((message) => message.chat_id === 20002).length === 3);
+        expect(fake.sentMessages.filter((message) => message.chat_id === 20002).map((message) => message.text)).toEqual([
+            "echo: one",
+            "echo: two",
+            "echo: three",
+        ]);
+    });
+
+    it("does not confirm an offset past an update still running in another chat", async () => {
+        let releaseSlow!: () => void;
+        const slow = new Promise<void>((resolve) => {
+            releaseSlow = resolve;
+        });
+        runtime.reply = async (ctx) => {
+            if (ctx.To === "20007") {
+                await slow;
+            }
+            return `echo: ${ctx.Body ?? ""}`;
+        };
+        running = startTestAccount(fake);
+        const slowUpdate = fake.pushUpdate({ chat_id: 20007, text: "slow" });
+        const fastUpdate = fake.pushUpdate({ chat_id: 20008, text: "fast" });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20008));
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        const confirmed = await readLastUpdateId(running.accountId);
+        expect(confirmed === undefined || confirmed < slowUpdate.update_id).toBe(true);
+
+        releaseSlow();
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20007));
+        const accountId = running.accountId;
+        let finalOffset: number | undefined;
+        await waitFor(() => {
+            void readLastUpdateId(accountId).then((value) => {
+                finalOffset = value;
+            });
+            return finalOffset === fastUpdate.update_id;
+        });
+    });
+
+    it("backs off after a polling error and recovers", async () => {
+        fake.failNext("getUpdates", { status: 502, error: "Bad Gateway" });
+        running = startTestAccount(fake);
+        fake.pushUpdate({ chat_id: 20045, text: "after the outage" });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20045));
+        const failed = running.statuses.findIndex((status) => status.pollingConsecutiveFailures === 1);
+        expect(running.statuses[failed]).toMatchObject({ lastError: "getUpdates failed: Bad Gateway" });
+        expect(running.statuses.slice(failed).some((status) => status.pollingConsecutiveFailures === 0)).toBe(true);
+        expect(running.logs.some((line) => /polling error \(1 consecutive\).*retrying in \d+ms/.test(line))).toBe(true);
+    });
+
+    it("keeps formatted markdown replies within textChunkLimit", async () => {
+        const rows = Array.from({ length: 40 }, (_, i) => `| r${i} | ok |`);
+        const reply = ["Report:", "| name | state |", "| --- | --- |", `| ${"wide ".repeat(12).trim()} | ok |`, ...rows].join(
+            "\n",
+        );
+        runtime.reply = () => reply;
+        running = startTestAccount(fake, { parseMode: "markdown", textChunkLimit: 800 });
+        fake.pushUpdate({ chat_id: 20009, text: "report" });
+
+        await waitFor(() => fake.sentMessages.filter((message) => message.chat_id === 20009).length >= 2);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        const sent = fake.sentMessages.filter((message) => message.chat_id === 20009);
+        expect(sent.every((message) => message.parse_mode === "markdown" && message.text.length <= 800)).toBe(true);
+        // Every part of the split table keeps its header row
+        expect(sent.every((message) => message.text.includes("name"))).toBe(true);
+    });
+
+    it("answers built-in commands without dispatching to the agent", async () => {
+        running = startTestAccount(fake);
+        fake.pushUpdate({ chat_id: 20003, text: "/whoami" });
+
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20003));
+        expect(sent.text).toContain("20003");
+        expect(runtime.dispatched).toHaveLength(0);
+    });
+
+    it("answers commands only from senders the DM policy allows", async () => {
+        running = startTestAccount(fake, { dmPolicy: "allowlist", allowFrom: ["20034"] });
+        fake.pushUpdate({ chat_id: 20035, text: "/whoami" });
+        fake.pushUpdate({ chat_id: 20034, text: "/whoami" });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20034));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(fake.sentMessages.filter((message) => message.chat_id === 20035)).toEqual([]);
+    });
+
+    it("resets a group's shared session only for allowed senders", async () => {
+        running = startTestAccount(fake, { groupPolicy: "open", allowFrom: ["20036"] });
+        const group = { id: -20037, type: "group" };
+        fake.pushUpdate({ chat: group, from: { id: 20038 }, text: "/reset" });
+        fake.pushUpdate({ chat: group, from: { id: 20036 }, text: "/reset" });
+
+        await waitFor(() => runtime.dispatched.length === 1);
+        expect(runtime.dispatched[0]).toMatchObject({ SenderId: "20036", Body: "/reset", CommandAuthorized: true });
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(runtime.dispatched).toHaveLength(1);
+    });
+});
+
+describe("access control", () => {
+    it("sends unknown senders a pairing code instead of dispatching", async () => {
+        running = startTestAccount(fake, { dmPolicy: "pairing" });
+        fake.pushUpdate({ chat_id: 20040, text: "hello" });
+
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20040));
+        expect(sent.text).toBe("pairing code: PAIR01");
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(runtime.dispatched).toEqual([]);
+    });
+
+    it("dispatches only senders in allowFrom under the allowlist policy", async () => {
+        running = startTestAccount(fake, { dmPolicy: "allowlist", allowFrom: ["serverchan-bot:20041"] });
+        fake.pushUpdate({ chat_id: 20042, text: "let me in" });
+        fake.pushUpdate({ chat_id: 20041, text: "hi" });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20041));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(runtime.dispatched.map((ctx) => ctx.SenderId)).toEqual(["20041"]);
+        expect(fake.sentMessages.filter((message) => message.chat_id === 20042)).toEqual([]);
+    });
+});
+
+describe("groups", () => {
+    it("dispatches group messages only when the bot is mentioned or a trigger matches", async () => {
+        running = startTestAccount(fake, { groupPolicy: "open", groupTriggers: ["bot,"] });
+        const group = { id: -20046, type: "group" };
+        fake.pushUpdate({ chat: group, from: { id: 20047 }, text: "just chatting" });
+        fake.pushUpdate({ chat: group, from: { id: 20047 }, text: "@fake_bot 你好" });
+        fake.pushUpdate({ chat: group, from: { id: 20047 }, text: "bot, ping" });
+
+        await waitFor(() => runtime.dispatched.length === 2);
+        expect(runtime.dispatched.map((ctx) => ctx.Body)).toEqual(["你好", "ping"]);
+        expect(runtime.dispatched.every((ctx) => ctx.WasMentioned === true)).toBe(true);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(runtime.dispatched).toHaveLength(2);
+    });
+});
+
+describe("metrics", () => {
+    it("serves per-account counters behind the metrics token", async () => {
+        running = startTestAccount(fake, {
+            metricsPath: "/serverchan-bot/e2e-metrics",
+            metricsToken: "metrics-token",
+        });
+        fake.pushUpdate({ chat_id: 20053, text: "count me" });
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20053));
+        const url = `${gateway.url}/serverchan-bot/e2e-metrics`;
+
+        expect((await fetch(url)).status).toBe(401);
+        const response = await fetch(url, { headers: { Authorization: "Bearer metrics-token" } });
+        expect(response.status).toBe(200);
+        const lines = (await response.text()).split("\n");
+        const account = running.accountId;
+        expect(lines).toContain(`serverchan_bot_inbound_updates_total{account="${account}"} 1`);
+        expect(lines).toContain(`serverchan_bot_outbound_sends_total{account="${account}",method="sendMessage"} 1`);
+    });
+});
+
+describe("inbound media", () => {
+    it("downloads attachments and describes the ones it could not fetch", async () => {
+        running = startTestAccount(fake, { inboundMediaMaxBytes: 16 });
+        const photo = fake.addFile("small png", { mimeType: "image/png" });
+        const document = fake.addFile("a report longer than the limit", { fileName: "report.pdf" });
+        fake.pushUpdate({ chat_id: 20048, caption: "看看这个", photo: [photo], document });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20048));
+        const ctx = runtime.dispatched[0];
+        expect(ctx.Body).toBe("看看这个\n<media:photo>\n<media:document: report.pdf (too large)>");
+        expect(ctx.MediaTypes).toEqual(["image/png"]);
+        expect(ctx.MediaPaths).toHaveLength(1);
+    });
+});
+
+describe("debouncing", () => {
+    it("confirms held updates only after the merged message was dispatched", async () => {
+        running = startTestAccount(fake, { inboundDebounceMs: 400 });
+        fake.pushUpdate({ chat_id: 20020, text: "part one" });
+        const last = fake.pushUpdate({ chat_id: 20020, text: "part two" });
+
+        await new Promise((resolve) => setTimeout(resolve, 250));
+        expect(runtime.dispatched).toHaveLength(0);
+        expect(await readLastUpdateId(running.accountId)).toBeUndefined();
+
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20020));
+        expect(sent.text).toBe("echo: part one\npart two");
+        const accountId = running.accountId;
+        let offset: number | undefined;
+        await waitFor(() => {
+            void readLastUpdateId(accountId).then((value) => {
+                offset = value;
+            });
+            return offset === last.update_id;
+        });
+    });
+
+    it("dispatches held messages when the account stops", async () => {
+        running = startTestAccount(fake, { inboundDebounceMs: 60_000 });
+        fake.pushUpdate({ chat_id: 20021, text: "before shutdown" });
+        await waitFor(() => running?.logs.some((line) => line.includes("held for 60000ms")));
+
+        await running.stop();
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20021));
+        expect(sent.text).toBe("echo: before shutdown");
+    });
+});
+
+describe("inbound flood control", () => {
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+    it("rate limits on arrival, not when a chat's turn comes", async () => {
+        runtime.reply = async (ctx) => {
+            await sleep(1100);
+            return `echo: ${ctx.Body ?? ""}`;
+        };
+        running = startTestAccount(fake, { rateLimit: { enabled: true, chatBurst: 2, chatPerMinute: 60 } });
+        for (let i = 1; i <= 8; i += 1) {
+            fake.pushUpdate({ chat_id: 20010, text: `flood ${i}` });
+        }
+
+        await waitFor(() => fake.sentMessages.filter((message) => message.text.startsWith("echo:")).length === 2);
+        await sleep(1300);
+        expect(runtime.dispatched.map((ctx) => ctx.Body)).toEqual(["flood 1", "flood 2"]);
+    });
+
+    it("drops updates past the per-chat queue cap", async () => {
+        runtime.reply = async (ctx) => {
+            await sleep(200);
+            return `echo: ${ctx.Body ?? ""}`;
+        };
+        running = startTestAccount(fake, { rateLimit: { enabled: false }, maxQueuedPerChat: 2 });
+        for (let i = 1; i <= 5; i += 1) {
+            fake.pushUpdate({ chat_id: 20011, text: `queued ${i}` });
+        }
+        fake.pushUpdate({ chat_id: 20012, text: "other chat" });
+
+        await waitFor(() => fake.sentMessages.filter((message) => message.chat_id === 20012).length === 1);
+        await sleep(600);
+        expect(runtime.dispatched.filter((ctx) => ctx.To === "20011").map((ctx) => ctx.Body)).toEqual([
+            "queued 1",
+            "queued 2",
+        ]);
+        expect(running.logs.filter((line) => line.includes("chat queue full"))).toHaveLength(3);
+    });
+});
+
+describe("webhook", () => {
+    it("accepts updates with the shared secret and rejects others", async () => {
+        running = startTestAccount(fake, {
+            receiveMode: "webhook",
+            webhookPath: "/serverchan-bot/e2e-secret",
+            webhookUrl: `${gateway.url}/serverchan-bot/e2e-secret`,
+            webhookSecret: "s3cret",
+            webhookAutoRegister: false,
+        });
+        await waitFor(() => running?.statuses.some((status) => status.mode === "webhook"));
+        const url = `${gateway.url}/serverchan-bot/e2e-secret`;
+
+        const rejected = await fake.postWebhook(url, fake.pushUpdate({ chat_id: 20004, text: "x" }), {
+            secret: "wrong",
+        });
+        expect(rejected.status).toBe(401);
+
+        const accepted = await fake.postWebhook(url, fake.pushUpdate({ chat_id: 20004, text: "hook" }), {
+            secret: "s3cret",
+        });
+        expect(accepted.status).toBe(200);
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20004));
+        expect(sent.text).toBe("echo: hook");
+    });
+
+    it("verifies HMAC-signed updates", async () => {
+        running = startTestAccount(fake, {
+            receiveMode: "webhook",
+            webhookPath: "/serverchan-bot/e2e-hmac",
+            webhookUrl: `${gateway.url}/serverchan-bot/e2e-hmac`,
+            webhookSecret: "hmac-secret",
+            webhookAuthMode: "hmac",
+            webhookAutoRegister: false,
+        });
+        await waitFor(() => running?.statuses.some((status) => status.mode === "webhook"));
+        const url = `${gateway.url}/serverchan-bot/e2e-hmac`;
+
+        const unsigned = await fake.postWebhook(url, fake.pushUpdate({ chat_id: 20005, text: "x" }), {
+            secret: "hmac-secret",
+        });
+        expect(unsigned.status).toBe(401);
+
+        const signed = await fake.postWebhook(url, fake.pushUpdate({ chat_id: 20005, text: "signed" }), {
+            secret: "hmac-secret",
+            sign: true,
+        });
+        expect(signed.status).toBe(200);
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20005));
+        expect(sent.text).toBe("echo: signed");
+
+        const replayed = fake.pushUpdate({ chat_id: 20005, text: "replayed" });
+        const options = { secret: "hmac-secret", sign: true, nonce: "n-1", timestamp: Math.floor(Date.now() / 1000) };
+        expect((await fake.postWebhook(url, replayed, options)).status).toBe(200);
+        expect((await fake.postWebhook(url, replayed, options)).status).toBe(401);
+        const swapped = await fake.postWebhook(url, replayed, {
+            ...options,
+            headers: { [WEBHOOK_NONCE_HEADER]: "n-2" },
+        });
+        expect(swapped.status).toBe(401);
+    });
+
+    it("dispatches a redelivered update only once", async () => {
+        running = startTestAccount(fake, {
+            receiveMode: "webhook",
+            webhookPath: "/serverchan-bot/e2e-dedupe",
+            webhookUrl: `${gateway.url}/serverchan-bot/e2e-dedupe`,
+            webhookSecret: "dedupe",
+            webhookAutoRegister: false,
+        });
+        await waitFor(() => running?.statuses.some((status) => status.mode === "webhook"));
+        const url = `${gateway.url}/serverchan-bot/e2e-dedupe`;
+        const update = fake.pushUpdate({ chat_id: 20052, text: "once" });
+
+        expect((await fake.postWebhook(url, update, { secret: "dedupe" })).status).toBe(200);
+        expect((await fake.postWebhook(url, update, { secret: "dedupe" })).status).toBe(200);
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20052));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(runtime.dispatched).toHaveLength(1);
+    });
+
+    it("registers its webhook on start and removes it on stop", async () => {
+        const url = `${gateway.url}/serverchan-bot/e2e-register`;
+        running = startTestAccount(fake, {
+            receiveMode: "webhook",
+            webhookPath: "/serverchan-bot/e2e-register",
+            webhookUrl: url,
+            webhookSecret: "register-secret",
+        });
+
+        await waitFor(() => fake.webhook());
+        expect(fake.webhook()).toEqual({ url, secret: "register-secret" });
+        const update = fake.pushUpdate({ chat_id: 20043, text: "via webhook" });
+        expect((await fake.postWebhook(url, update, { secret: "register-secret" })).status).toBe(200);
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20043));
+
+        await running.stop();
+        expect(fake.webhook()).toBeNull();
+    });
+
+    it("falls back to polling when its own webhook is unreachable", async () => {
+        const url = "http://127.0.0.1:9/serverchan-bot/e2e-managed";
+        running = startTestAccount(fake, {
+            receiveMode: "hybrid",
+            webhookPath: "/serverchan-bot/e2e-managed",
+            // Nothing listens here, so the health probe fails
+            webhookUrl: url,
+            webhookHealthCheckIntervalMs: 50,
+            webhookFailoverThreshold: 1,
+        });
+
+        await waitFor(() => running?.statuses.some((status) => status.mode === "polling"));
+        expect(fake.webhook()).toBeNull();
+        fake.pushUpdate({ chat_id: 20044, text: "via fallback" });
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20044));
+        expect(sent.text).toBe("echo: via fallback");
+    });
+
+    it("keeps an unmanaged webhook and reports that it cannot fall back to polling", async () => {
+        const manualUrl = "http://127.0.0.1:9/serverchan-bot/manual";
+        await fetch(`${fake.baseUrl}/bot${fake.token}/setWebhook`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ url: manualUrl, secret_token: "operator-secret" }),
+        });
+        running = startTestAccount(fake, {
+            receiveMode: "hybrid",
+            webhookPath: "/serverchan-bot/e2e-hybrid",
+            // Nothing listens here, so the health probe fails
+            webhookUrl: manualUrl,
+            webhookAutoRegister: false,
+            webhookHealthCheckIntervalMs: 50,
+            webhookFailoverThreshold: 1,
+        });
+
+        const blocked = await waitFor(() => running?.statuses.find((status) => status.webhookFailoverBlocked));
+        expect(blocked.webhookFailoverBlocked).toEqual(expect.any(String));
+        expect(running.statuses.some((status) => status.mode === "polling")).toBe(false);
+        expect(fake.webhook()).toEqual({ url: manualUrl, secret: "operator-secret" });
+
+        await running.stop();
+        expect(fake.webhook()).toEqual({ url: manualUrl, secret: "operator-secret" });
+    });
+});
+
+describe("outbound", () => {
+    it("sends text through the plugin's outbound adapter", async () => {
+        const plugin = serverChanBotPlugin as unknown as {
+            outbound: { sendText: (ctx: Record<string, unknown>) => Promise<{ messageId?: string }> };
+        };
+        const cfg = {
+            channels: { "serverchan-bot": { botToken: fake.token, apiBaseUrl: fake.baseUrl } },
+        };
+
+        const result = await plugin.outbound.sendText({ cfg, to: "20006", text: "hello from outbound" });
+
+        expect(result.messageId).toBeTruthy();
+        expect(fake.sentMessages.at(-1)).toMatchObject({ chat_id: 20006, text: "hello from outbound" });
+    });
+
+    it("streams reply blocks into one message and only closes it on the final payload", async () => {
+        runtime.reply = () => ["第一段", "第二段", "第三段"];
+        running = startTestAccount(fake, { streamMode: "edit" });
+        fake.pushUpdate({ chat_id: 20033, text: "stream" });
+
+        await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20033)?.text.includes("第三段"));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        const sent = fake.sentMessages.filter((message) => message.chat_id === 20033);
+        expect(sent).toHaveLength(1);
+        expect(sent[0].text).toBe("第一段\n\n第二段\n\n第三段");
+    });
+
+    type ScheduleTool = {
+        name: string;
+        execute: (toolCallId: string, args: Record<string, unknown>) => Promise<{ details: unknown }>;
+    };
+    const scheduleTool = (cfg: unknown) =>
+        (serverChanBotPlugin as unknown as { agentTools: (params: { cfg: unknown }) => ScheduleTool[] }).agentTools({
+            cfg,
+        })[0];
+    const inAnHour = () => new Date(Date.now() + 3_600_000).toISOString();
+
+    it("sends and schedules messages posted to the push endpoint", async () => {
+        running = startTestAccount(fake, {
+            chatId: "20049",
+            pushPath: "/serverchan-bot/e2e-push",
+            pushKey: "push-key",
+        });
+        await waitFor(() => running?.statuses.some((status) => status.running));
+        const url = `${gateway.url}/serverchan-bot/e2e-push`;
+        const push = (body: unknown, key = "push-key") =>
+            fetch(url, {
+                method: "POST",
+                headers: { Authorization: `Bearer ${key}`, "Content-Type": "application/json" },
+                body: JSON.stringify(body),
+            });
+
+        expect((await push({ text: "nope" }, "wrong-key")).status).toBe(401);
+        expect((await push({})).status).toBe(400);
+
+        const sent = await push({ title: "构建完成", text: "all green", parseMode: "text" });
+        expect(sent.status).toBe(200);
+        expect(await sent.json()).toMatchObject({ ok: true, chat_id: "20049", message_id: expect.any(Number) });
+        expect(fake.sentMessages.at(-1)).toMatchObject({ chat_id: 20049, text: "构建完成\n\nall green" });
+
+        const scheduled = await push({ chatId: 20050, text: "later", sendAt: inAnHour() });
+        expect(scheduled.status).toBe(202);
+        const { job } = (await scheduled.json()) as { job: { id: string } };
+        const auth = { Authorization: "Bearer push-key" };
+        const listed = (await (await fetch(`${url}/jobs`, { headers: auth })).json()) as {
+            jobs: Array<{ id: string }>;
+        };
+        expect(listed.jobs.map((item) => item.id)).toEqual([job.id]);
+        const cancelled = await fetch(`${url}/jobs/${job.id}`, { method: "DELETE", headers: auth });
+        expect(cancelled.status).toBe(200);
+        expect(fake.sentMessages.some((message) => message.chat_id === 20050)).toBe(false);
+    });
+
+    it("pushes through the SendKey API for outbound-only accounts", async () => {
+        running = startTestAccount(fake, {
+            type: "sendKey",
+            sendKey: fake.sendKey,
+            sendKeyApiBaseUrl: fake.baseUrl,
+        });
+        await waitFor(() => running?.statuses.some((status) => status.running));
+        const plugin = serverChanBotPlugin as unknown as {
+            outbound: { sendText: (ctx: Record<string, unknown>) => Promise<{ messageId?: string }> };
+        };
+
+        const result = await plugin.outbound.sendText({
+            cfg: running.cfg,
+            accountId: running.accountId,
+            to: "20051",
+            text: "部署完成\n详情见日志",
+        });
+
+        expect(result.messageId).toBe("1");
+        expect(fake.pushes).toMatchObject([{ title: "部署完成", desp: "详情见日志" }]);
+        expect(fake.sentMessages).toEqual([]);
+    });
+
+    it("schedules a message through the agent tool", async () => {
+        running = startTestAccount(fake, { chatId: "20030" });
+        const tool = scheduleTool(running.cfg);
+        expect(tool.name).toBe("serverchan_bot_schedule");
+
+        const result = await tool.execute("call-1", {
+            action: "schedule",
+            accountId: running.accountId,
+            text: "stand-up in 5 minutes",
+            sendAt: new Date(Date.now() + 200).toISOString(),
+        });
+        expect(result.details).toMatchObject({ ok: true, job: { chatId: "20030", state: "scheduled" } });
+
+        const sent = await waitFor(() => fake.sentMessages.find((message) => message.chat_id === 20030));
+        expect(sent.text).toBe("stand-up in 5 minutes");
+        const cancelUnknown = tool.execute("call-2", { action: "cancel", accountId: running.accountId, id: "nope" });
+        await expect(cancelUnknown).rejects.toThrow(/no active scheduled message/);
+    });
+
+    it("binds the agent tool to the chat whose conversation calls it", async () => {
+        running = startTestAccount(fake, { chatId: "20030" });
+        const accountId = running.accountId;
+        const tool = scheduleTool(running.cfg);
+        const call = (args: Record<string, unknown>) =>
+            tool.execute("call", { accountId, ...args }).then(
+                (result) => result.details as { job?: { id: string }; jobs?: Array<{ text: string }> },
+                (err: unknown) => String(err),
+            );
+        const operatorJob = (await call({ action: "schedule", text: "operator", sendAt: inAnHour() })) as {
+            job: { id: string };
+        };
+
+        const results: unknown[] = [];
+        runtime.reply = async (ctx) => {
+            if (ctx.SenderId === "20031") {
+                results.push(await call({ action: "schedule", text: "mine", sendAt: inAnHour() }));
+                results.push(await call({ action: "schedule", text: "x", to: "20030", sendAt: inAnHour() }));
+                results.push(await call({ action: "list" }));
+                results.push(await call({ action: "cancel", id: operatorJob.job.id }));
+            } else {
+                results.push(await call({ action: "schedule", text: "for 20032", to: "20032", sendAt: inAnHour() }));
+            }
+            return "ok";
+        };
+        fake.pushUpdate({ chat_id: 20031, text: "remind me" });
+        await waitFor(() => results.length === 4);
+
+        expect(results[0]).toMatchObject({ job: { chatId: "20031", ownerChatId: "20031" } });
+        expect(results[1]).toMatch(/only the bot owner/);
+        expect((results[2] as { jobs: Array<{ text: string }> }).jobs.map((job) => job.text)).toEqual(["mine"]);
+        expect(results[3]).toMatch(/no active scheduled message/);
+
+        // The owner (the user behind the account's chatId) may target other chats
+        fake.pushUpdate({ chat_id: 20030, text: "remind them" });
+        await waitFor(() => results.length === 5);
+        expect(results[4]).toMatchObject({ job: { chatId: "20032", ownerChatId: "20030" } });
+    });
+});
@@ -0,0 +1,533 @@
+/**
+ * Fake Server酱³ Bot API server
+ *
+ * Implements the subset of the Bot API this plugin uses (getMe, sendMessage,
+ * editMessageText, sendPhoto, sendDocument, getUpdates, getFile + file downloads, setWebhook,
+ * deleteWebhook, getWebhookInfo) on a local HTTP port, and can push webhook
+ * posts to the plugin.
+ * Point an account's `apiBaseUrl` at `baseUrl` to run the whole
+ * startAccount → poll/webhook → dispatch → sendMessage path without network.
+ * It also stands in for the classic SendKey push API (`/<sendKey>.send`) when
+ * used as `sendKeyApiBaseUrl`.
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+    WEBHOOK_NONCE_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    signWebhookPayload,
+    type ServerChanFile,
+    type ServerChanMessage,
+    type ServerChanUpdate,
+} from "../src/api.js";
+
+export type FakeSentMessage = {
+    message_id: number;
+    chat_id: number;
+    /** Message text, or the caption of a photo / document */
+    text: string;
+    parse_mode?: string;
+    silent?: boolean;
+    /** Number of editMessageText calls that changed this message */
+    edits?: number;
+    /** Set for sendPhoto / sendDocument uploads */
+    media?: {
+        type: "photo" | "document";
+        file_name: string;
+        content_type: string;
+        size: number;
+    };
+    date: number;
+};
+
+export type FakeSendKeyPush = {
+    pushid: string;
+    title: string;
+    desp: string;
+    date: number;
+};
+
+export type FakeApiFailure = {
+    status: number;
+    error?: string;
+    /** Report the error in `description` instead of `error`, as some API versions do */
+    description?: string;
+    /** How many consecutive calls should fail (default 1) */
+    times?: number;
+    /** Seconds reported as `parameters.retry_after` (e.g. for 429) */
+    retryAfter?: number;
+};
+
+export type FakeServerChanBotApi = {
+    baseUrl: string;
+    token: string;
+    /** Messages received through sendMessage / sendPhoto / sendDocument, in order (edits applied) */
+    sentMessages: FakeSentMessage[];
+    sendKey: string;
+    /** Notifications received through the SendKey push API, in order */
+    pushes: FakeSendKeyPush[];
+    /**
+     * Queue an inbound message for getUpdates; returns the created update.
+     * Attachments reference files created with `addFile`.
+     */
+    pushUpdate: (message: Partial<ServerChanMessage>) => ServerChanUpdate;
+    /** Store a file that getFile / downloads will serve */
+    addFile: (data: Uint8Array | string, meta?: { fileName?: string; mimeType?: string }) => ServerChanFile;
+    /**
+     * POST an update to a webhook URL the way Server酱³ does. With `sign`, the
+     * body is HMAC-signed with `secret` instead of sending the secret header.
+     */
+    postWebhook: (
+        url: string,
+        update: ServerChanUpdate,
+        options?: {
+            secret?: string;
+            sign?: boolean;
+            /** Unix seconds used for the signature (default now) */
+            timestamp?: number;
+            nonce?: string;
+            headers?: Record<string, string>;
+        },
+    ) => Promise<{ status: number; body: string }>;
+    /** Make the next call(s) to an API method ("send" for SendKey pushes) fail with the given HTTP status */
+    failNext: (method: string, failure: FakeApiFailure) => void;
+    /** Webhook registered through setWebhook (null when none) */
+    webhook: () => { url: string; secret?: string } | null;
+    close: () => Promise<void>;
+};
+
+const DEFAULT_CHAT_ID = 10001;
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.statusCode = status;
+    res.setHeader("Content-Type", "application/json");
+    res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString("utf8");
+    if (!raw.trim()) {
+        return {};
+    }
+    try {
+        const parsed = JSON.parse(raw) as unknown;
+        return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : {};
+    } catch {
+        return {};
+    }
+}
+
+async function readForm(req: IncomingMessage): Promise<FormData | null> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+        chunks.push(chunk as Buffer);
+    }
+    try {
+        return await new Request("http://127.0.0.1/", {
+            method: "POST",
+            headers: { "content-type": req.headers["content-type"] ?? "" },
+            body: Buffer.concat(chunks),
+        }).formData();
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Start a fake Bot API server on 127.0.0.1 (random port by default)
+ */
+export async function startFakeServerChanBotApi(params?: {
+    token?: string;
+    sendKey?: string;
+    port?: number;
+    bot?: { id: number; name?: string; username?: string };
+    /** Upper bound for getUpdates long-poll waits, to keep tests fast */
+    maxLongPollMs?: number;
+}): Promise<FakeServerChanBotApi> {
+    const token = params?.token ?? "fake-token";
+    const sendKey = params?.sendKey ?? "SCTfake-sendkey";
+    const pushes: FakeSendKeyPush[] = [];
+    const bot = params?.bot ?? { id: 1, name: "Fake Bot", username: "fake_bot" };
+    const maxLongPollMs = params?.maxLongPollMs ?? 1000;
+
+    const updates: ServerChanUpdate[] = [];
+    const sentMessages: FakeSentMessage[] = [];
+    const failures = new Map<string, FakeApiFailure>();
+    const waiters = new Set<() => void>();
+    let webhook: { url: string; secret?: string } | null = null;
+    const files = new Map<string, { path: string; data: Buffer; mimeType?: string }>();
+    let nextUpdateId = 1;
+    let nextMessageId = 1;
+    let nextFileId = 1;
+
+    const wakeWaiters = () => {
+        for (const wake of waiters) {
+            wake();
+        }
+        waiters.clear();
+    };
+
+    const takeFailure = (method: string): FakeApiFailure | null => {
+        const failure = failures.get(method);
+        if (!failure) {
+            return null;
+        }
+        const remaining = (failure.times ?? 1) - 1;
+        if (remaining > 0) {
+            failures.set(method, { ...failure, times: remaining });
+        } else {
+            failures.delete(method);
+        }
+        return failure;
+    };
+
+    const pendingUpdates = (offset: number) => updates.filter((update) => update.update_id >= offset);
+
+    const handleUpload = async (
+        req: IncomingMessage,
+        res: ServerResponse,
+        type: "photo" | "document",
+    ) => {
+        const form = await readForm(req);
+        const chatId = Number(form?.get("chat_id"));
+        const file = form?.get(type);
+        if (!Number.isFinite(chatId) || !(file instanceof Blob)) {
+            sendJson(res, 400, { ok: false, error_code: 400, error: `chat_id and ${type} are required` });
+            return;
+        }
+        const caption = form?.get("caption");
+        const parseMode = form?.get("parse_mode");
+        const message: FakeSentMessage = {
+            message_id: nextMessageId++,
+            chat_id: chatId,
+            text: typeof caption === "string" ? caption : "",
+            parse_mode: typeof parseMode === "string" ? parseMode : undefined,
+            media: {
+                type,
+                file_name: file instanceof File ? file.name : "",
+                content_type: file.type,
+                size: file.size,
+            },
+            date: Math.floor(Date.now() / 1000),
+        };
+        sentMessages.push(message);
+        sendJson(res, 200, {
+            ok: true,
+            result: {
+                message_id: message.message_id,
+                chat_id: message.chat_id,
+                text: "",
+                caption: message.text,
+                date: message.date,
+            },
+        });
+    };
+
+    const handlers: Record<
+        string,
+        (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>
+    > = {
+        getMe: async (_req, res) => {
+            sendJson(res, 200, { ok: true, result: bot });
+        },
+        sendMessage: async (req, res) => {
+            const body = await readBody(req);
+            const chatId = Number(body.chat_id);
+            if (!Number.isFinite(chatId) || typeof body.text !== "string" || !body.text) {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "chat_id and text are required" });
+                return;
+            }
+            const message: FakeSentMessage = {
+                message_id: nextMessageId++,
+                chat_id: chatId,
+                text: body.text,
+                parse_mode: typeof body.parse_mode === "string" ? body.parse_mode : undefined,
+                silent: typeof body.silent === "boolean" ? body.silent : undefined,
+                date: Math.floor(Date.now() / 1000),
+            };
+            sentMessages.push(message);
+            sendJson(res, 200, {
+                ok: true,
+                result: {
+                    message_id: message.message_id,
+                    chat_id: message.chat_id,
+                    text: message.text,
+                    date: message.date,
+                },
+            });
+        },
+        editMessageText: async (req, res) => {
+            const body = await readBody(req);
+            const message = sentMessages.find(
+                (sent) => sent.chat_id === Number(body.chat_id) && sent.message_id === Number(body.message_id),
+            );
+            if (!message || message.media) {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "message to edit not found" });
+                return;
+            }
+            if (typeof body.text !== "string" || !body.text) {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "text is required" });
+                return;
+            }
+            if (body.text === message.text) {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "message is not modified" });
+                return;
+            }
+            message.text = body.text;
+            message.parse_mode = typeof body.parse_mode === "string" ? body.parse_mode : undefined;
+            message.edits = (message.edits ?? 0) + 1;
+            sendJson(res, 200, {
+                ok: true,
+                result: {
+                    message_id: message.message_id,
+                    chat_id: message.chat_id,
+                    text: message.text,
+                    date: message.date,
+                },
+            });
+        },
+        sendPhoto: async (req, res) => {
+            await handleUpload(req, res, "photo");
+        },
+        sendDocument: async (req, res) => {
+            await handleUpload(req, res, "document");
+        },
+        getFile: async (_req, res, url) => {
+            const fileId = url.searchParams.get("file_id") ?? "";
+            const file = files.get(fileId);
+            if (!file) {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "file not found" });
+                return;
+            }
+            sendJson(res, 200, {
+                ok: true,
+                result: { file_id: fileId, file_size: file.data.byteLength, file_path: file.path },
+            });
+        },
+        setWebhook: async (req, res) => {
+            const body = await readBody(req);
+            if (typeof body.url !== "string") {
+                sendJson(res, 400, { ok: false, error_code: 400, error: "url is required" });
+                return;
+            }
+            webhook = body.url
+                ? {
+                    url: body.url,
+                    secret: typeof body.secret_token === "string" ? body.secret_token : undefined,
+                }
+                : null;
+            sendJson(res, 200, { ok: true, result: true, description: "Webhook was set" });
+        },
+        deleteWebhook: async (_req, res) => {
+            webhook = null;
+            sendJson(res, 200, { ok: true, result: true, description: "Webhook was deleted" });
+        },
+        getWebhookInfo: async (_req, res) => {
+            sendJson(res, 200, {
+                ok: true,
+                result: {
+                    url: webhook?.url ?? "",
+                    has_secret: Boolean(webhook?.secret),
+                    pending_update_count: updates.length,
+                },
+            });
+        },
+        getUpdates: async (req, res, url) => {
+            if (webhook) {
+                sendJson(res, 409, {
+                    ok: false,
+                    error_code: 409,
+                    error: "Conflict: can't use getUpdates method while webhook is active",
+                });
+                return;
+            }
+            const offset = Number(url.searchParams.get("offset") ?? 0) || 0;
+            const timeoutSec = Number(url.searchParams.get("timeout") ?? 0) || 0;
+            // Drop confirmed updates, like the real API does
+            for (let i = updates.length - 1; i >= 0; i -= 1) {
+                if (updates[i].update_id < offset) {
+                    updates.splice(i, 1);
+                }
+            }
+            if (pendingUpdates(offset).length === 0 && timeoutSec > 0) {
+                await new Promise<void>((resolve) => {
+                    const wake = () => {
+                        clearTimeout(timer);
+                        resolve();
+                    };
+                    const timer = setTimeout(() => {
+                        waiters.delete(wake);
+                        resolve();
+                    }, Math.min(timeoutSec * 1000, maxLongPollMs));
+                    waiters.add(wake);
+                    req.once("close", wake);
+                });
+            }
+            sendJson(res, 200, { ok: true, result: pendingUpdates(offset) });
+        },
+    };
+
+    const server = createServer((req, res) => {
+        const url = new URL(req.url ?? "/", "http://127.0.0.1");
+        const download = /^\/file\/bot([^/]+)\/(.+)$/.exec(url.pathname);
+        if (download) {
+            const file = [...files.values()].find((entry) => entry.path === download[2]);
+            if (download[1] !== token || !file) {
+                res.statusCode = 404;
+                res.end("Not Found");
+                return;
+            }
+            res.statusCode = 200;
+            res.setHeader("Content-Type", file.mimeType ?? "application/octet-stream");
+            res.setHeader("Content-Length", String(file.data.byteLength));
+            res.end(file.data);
+            return;
+        }
+        const push = /^\/([^/]+)\.send$/.exec(url.pathname);
+        if (push) {
+            if (push[1] !== sendKey) {
+                sendJson(res, 200, { code: 40001, message: "bad pushkey" });
+                return;
+            }
+            const failure = takeFailure("send");
+            if (failure) {
+                sendJson(res, failure.status, {
+                    code: failure.status,
+                    message: failure.error ?? `Injected failure (${failure.status})`,
+                });
+                return;
+            }
+            readBody(req)
+                .then((body) => {
+                    const title = typeof body.title === "string" ? body.title : "";
+                    if (!title) {
+                        sendJson(res, 200, { code: 20001, message: "title required" });
+                        return;
+                    }
+                    const entry: FakeSendKeyPush = {
+                        pushid: String(pushes.length + 1),
+                        title,
+                        desp: typeof body.desp === "string" ? body.desp : "",
+                        date: Math.floor(Date.now() / 1000),
+                    };
+                    pushes.push(entry);
+                    sendJson(res, 200, { code: 0, message: "", data: { pushid: entry.pushid, errno: 0 } });
+                })
+                .catch((err) => {
+                    sendJson(res, 500, { code: 500, message: String(err) });
+                });
+            return;
+        }
+        const match = /^\/bot([^/]+)\/([A-Za-z]+)$/.exec(url.pathname);
+        if (!match) {
+            sendJson(res, 404, { ok: false, error_code: 404, error: "Not Found" });
+            return;
+        }
+        const [, requestToken, method] = match;
+        if (requestToken !== token) {
+            sendJson(res, 401, { ok: false, error_code: 401, error: "Unauthorized" });
+            return;
+        }
+        const handler = handlers[method];
+        if (!handler) {
+            sendJson(res, 404, { ok: false, error_code: 404, error: `Unknown method: ${method}` });
+            return;
+        }
+        const failure = takeFailure(method);
+        if (failure) {
+            sendJson(res, failure.status, {
+                ok: false,
+                error_code: failure.status,
+                ...(failure.description !== undefined
+                    ? { description: failure.description }
+                    : { error: failure.error ?? `Injected failure (${failure.status})` }),
+                ...(failure.retryAfter !== undefined
+                    ? { parameters: { retry_after: failure.retryAfter } }
+                    : {}),
+            });
+            return;
+        }
+        handler(req, res, url).catch((err) => {
+            sendJson(res, 500, { ok: false, error_code: 500, error: String(err) });
+        });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(params?.port ?? 0, "127.0.0.1", () => resolve());
+    });
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        baseUrl: `http://127.0.0.1:${port}`,
+        token,
+        sentMessages,
+        sendKey,
+        pushes,
+        pushUpdate: (message) => {
+            const chatId = message.chat_id ?? message.chat?.id ?? DEFAULT_CHAT_ID;
+            const update: ServerChanUpdate = {
+                update_id: nextUpdateId++,
+                message: {
+                    ...message,
+                    message_id: message.message_id ?? nextMessageId++,
+                    chat_id: chatId,
+                    chat: message.chat ?? { id: chatId, type: "private" },
+                    date: message.date ?? Math.floor(Date.now() / 1000),
+                },
+            };
+            updates.push(update);
+            wakeWaiters();
+            return update;
+        },
+        addFile: (data, meta) => {
+            const fileId = `file-${nextFileId++}`;
+            const buffer = Buffer.from(data);
+            files.set(fileId, {
+                path: `files/${fileId}/${meta?.fileName ?? "file.bin"}`,
+                data: buffer,
+                mimeType: meta?.mimeType,
+            });
+            return {
+                file_id: fileId,
+                file_size: buffer.byteLength,
+                file_name: meta?.fileName,
+                mime_type: meta?.mimeType,
+            };
+        },
+        postWebhook: async (url, update, options) => {
+            const body = JSON.stringify({ ok: true, ...update });
+            const headers: Record<string, string> = {
+                "Content-Type": "application/json",
+            };
+            if (options?.secret && options.sign) {
+                const timestamp = options.timestamp ?? Math.floor(Date.now() / 1000);
+                headers[WEBHOOK_TIMESTAMP_HEADER] = String(timestamp);
+                headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(options.secret, timestamp, body, options.nonce);
+                if (options.nonce) {
+                    headers[WEBHOOK_NONCE_HEADER] = options.nonce;
+                }
+            } else if (options?.secret) {
+                headers["X-Sc3Bot-Webhook-Secret"] = options.secret;
+            }
+            Object.assign(headers, options?.headers);
+            const response = await fetch(url, { method: "POST", headers, body });
+            return { status: response.status, body: await response.text() };
+        },
+        failNext: (method, failure) => {
+            failures.set(method, failure);
+        },
+        webhook: () => webhook,
+        close: async () => {
+            wakeWaiters();
+            server.closeAllConnections();
+            await new Promise<void>((resolve) => server.close(() => resolve()));
+        },
+    };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { formatServerChanMarkdown, stripMarkdown } from "../src/format.js";
+
+describe("formatServerChanMarkdown", () => {
+    it("keeps supported markdown as is", () => {
+        const text = "# Title\n\n**bold** *italic* `code` [link](https://example.com)\n\n- item\n> quote";
+        expect(formatServerChanMarkdown(text)).toBe(text);
+    });
+
+    it("renders tables as aligned monospace blocks", () => {
+        const text = "| 名称 | n |\n| --- | --- |\n| ab | 1 |\n| 中文 | 22 |";
+        expect(formatServerChanMarkdown(text)).toBe(
+            ["```", "名称  n", "----  --", "ab    1", "中文  22", "```"].join("\n"),
+        );
+    });
+
+    it("rewrites images, strikethrough, HTML and task boxes", () => {
+        const text = "![logo](https://example.com/a.png)\n~~old~~ <b>x</b>\n- [ ] todo\n- [x] done";
+        expect(formatServerChanMarkdown(text)).toBe(
+            "[logo](https://example.com/a.png)\n\\~\\~old\\~\\~ \\<b\\>x\\</b\\>\n- ☐ todo\n- ☑ done",
+        );
+    });
+
+    it("leaves code untouched and closes unclosed fences", () => {
+        const text = "`~~a~~` and ~~b~~\n```\n| a | b |\n| --- | --- |\n<tag>";
+        expect(formatServerChanMarkdown(text)).toBe(
+            "`~~a~~` and \\~\\~b\\~\\~\n```\n| a | b |\n| --- | --- |\n<tag>\n```",
+        );
+    });
+});
+
+describe("stripMarkdown", () => {
+    it("reduces markdown to readable plain text", () => {
+        const text = "## Title\n**bold** and [site](https://example.com)\n- item\n- [x] done\n> quoted\n```js\nx = 1\n```";
+        expect(stripMarkdown(text)).toBe(
+            "Title\nbold and site (https://example.com)\n• item\n☑ done\nquoted\nx = 1",
+        );
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Test harness: a minimal OpenClaw runtime plus helpers that run an account's
+ * startAccount loop against the fake Bot API server
+ */
+
+import { mkdtempSync, rmSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { handleServerChanBotWebhookRequest, serverChanBotPlugin } from "../src/channel.js";
+import { handleServerChanBotMetricsRequest } from "../src/metrics-route.js";
+import { handleServerChanBotPushRequest } from "../src/push-route.js";
+import { setServerChanBotRuntime } from "../src/runtime.js";
+import { startFakeServerChanBotApi, type FakeServerChanBotApi } from "./fake-api-server.js";
+
+export type DispatchedContext = Record<string, unknown> & { Body?: string; SenderId?: string };
+
+type AgentReply = string | string[] | undefined;
+
+export type TestRuntime = {
+    stateDir: string;
+    /** Inbound contexts handed to the agent, in dispatch order */
+    dispatched: DispatchedContext[];
+    /**
+     * Produces the agent reply for a context (default: echo the body); an array
+     * is delivered as blocks followed by a final payload repeating them
+     */
+    reply: (ctx: DispatchedContext) => Promise<AgentReply> | AgentReply;
+    cleanup: () => void;
+};
+
+/**
+ * Install a fresh runtime with its own state directory
+ */
+export function installTestRuntime(): TestRuntime {
+    const stateDir = mkdtempSync(path.join(tmpdir(), "serverchan-bot-test-"));
+    const testRuntime: TestRuntime = {
+        stateDir,
+        dispatched: [],
+        reply: (ctx) => `echo: ${ctx.Body ?? ""}`,
+        cleanup: () => rmSync(stateDir, { recursive: true, force: true }),
+    };
+    const runtime = {
+        state: { resolveStateDir: () => stateDir },
+        media: {
+            loadWebMedia: async () => {
+                throw new Error("media loading is not available in tests");
+            },
+        },
+        channel: {
+            pairing: {
+                readAllowFromStore: async () => [],
+                upsertPairingRequest: async () => ({ code: "PAIR01", created: true }),
+                buildPairingReply: ({ code }: { code: string }) => `pairing code: ${code}`,
+            },
+            text: { chunkText: (text: string) => [text] },
+            media: {
+                saveMediaBuffer: async (_buffer: Buffer, contentType?: string) => ({
+                    path: path.join(stateDir, "media.bin"),
+                    contentType,
+                }),
+            },
+            reply: {
+                dispatchReplyWithBufferedBlockDispatcher: async (params: {
+                    ctx: DispatchedContext;
+                    dispatcherOptions: {
+                        deliver: (payload: { text?: string }, info: { kind: string }) => Promise<void>;
+                    };
+                }) => {
+                    testRuntime.dispatched.push(params.ctx);
+                    const reply = await testRuntime.reply(params.ctx);
+                    const blocks = Array.isArray(reply) ? reply : [];
+                    for (const block of blocks) {
+                        await params.dispatcherOptions.deliver({ text: block }, { kind: "block" });
+                    }
+                    const text = Array.isArray(reply) ? blocks.join("\n") : reply;
+                    if (text) {
+                        await params.dispatcherOptions.deliver({ text }, { kind: "final" });
+                    }
+                    return { queuedFinal: Boolean(text) };
+                },
+            },
+            session: {},
+        },
+    };
+    setServerChanBotRuntime(runtime as never);
+    return testRuntime;
+}
+
+let accountCounter = 0;
+
+export type RunningAccount = {
+    accountId: string;
+    cfg: Record<string, unknown>;
+    statuses: Record<string, unknown>[];
+    logs: string[];
+    /** Resolves once startAccount has returned */
+    task: Promise<void>;
+    stop: () => Promise<void>;
+};
+
+/**
+ * Start a uniquely named bot account pointed at `fake`; extra config is merged
+ * into the account entry
+ */
+export function startTestAccount(fake: FakeServerChanBotApi, config: Record<string, unknown> = {}): RunningAccount {
+    accountCounter += 1;
+    const accountId = `test${accountCounter}`;
+    const cfg = {
+        channels: {
+            "serverchan-bot": {
+                accounts: {
+                    [accountId]: {
+                        botToken: fake.token,
+                        apiBaseUrl: fake.baseUrl,
+                        dmPolicy: "open",
+                        pollingIntervalMs: 20,
+                        pollingTimeoutSec: 1,
+                        ...config,
+                    },
+                },
+            },
+        },
+    };
+    const statuses: Record<string, unknown>[] = [];
+    const logs: string[] = [];
+    const record = (level: string) => (message: string) => logs.push(`${level} ${message}`);
+    const abort = new AbortController();
+    const plugin = serverChanBotPlugin as unknown as {
+        config: { resolveAccount: (cfg: unknown, accountId: string) => unknown };
+        gateway: { startAccount: (ctx: Record<string, unknown>) => Promise<void> };
+    };
+    const account = plugin.config.resolveAccount(cfg, accountId);
+    const task = plugin.gateway.startAccount({
+        cfg,
+        accountId,
+        account,
+        runtime: {},
+        abortSignal: abort.signal,
+        log: { info: record("info"), warn: record("warn"), error: record("error"), debug: record("debug") },
+        getStatus: () => ({ accountId }),
+        setStatus: (status: Record<string, unknown>) => statuses.push(status),
+    });
+    return {
+        accountId,
+        cfg,
+        statuses,
+        logs,
+        task,
+        stop: async () => {
+            abort.abort();
+            await task.catch(() => undefined);
+        },
+    };
+}
+
+/**
+ * Serve the plugin's webhook and push routes the way the gateway does
+ */
+export async function startTestGateway(): Promise<{ url: string; server: Server; close: () => Promise<void> }> {
+    const server = createServer(async (req, res) => {
+        const handled =
+            (await handleServerChanBotWebhookRequest(req, res)) ||
+            (await handleServerChanBotMetricsRequest(req, res)) ||
+            (await handleServerChanBotPushRequest(req, res));
+        if (!handled) {
+            res.statusCode = 404;
+            res.end();
+        }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        server,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+    };
+}
+
+/**
+ * Poll `check` until it returns a truthy value or `timeoutMs` passes
+ */
+export async function waitFor<T>(check: () => T, timeoutMs = 5000): Promise<NonNullable<T>> {
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const value = check();
+        if (value) {
+            return value as NonNullable<T>;
+        }
+        if (Date.now() > deadline) {
+            throw new Error("timed out waiting for condition");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
+
+export { startFakeServerChanBotApi, type FakeServerChanBotApi };
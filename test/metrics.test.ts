@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { recordServerChanBotSend, renderServerChanBotMetrics } from "../src/metrics.js";
+
+describe("metrics", () => {
+    it("counts outbound requests by method", () => {
+        recordServerChanBotSend("metrics1", { method: "sendMessage", ok: true, latencyMs: 40 });
+        recordServerChanBotSend("metrics1", { method: "editMessageText", ok: true, latencyMs: 40 });
+        recordServerChanBotSend("metrics1", { method: "editMessageText", ok: false, latencyMs: 300 });
+
+        const lines = renderServerChanBotMetrics().split("\n");
+        expect(lines).toContain('serverchan_bot_outbound_sends_total{account="metrics1",method="sendMessage"} 1');
+        expect(lines).toContain('serverchan_bot_outbound_sends_total{account="metrics1",method="editMessageText"} 2');
+        expect(lines).toContain(
+            'serverchan_bot_outbound_send_failures_total{account="metrics1",method="editMessageText"} 1',
+        );
+        expect(lines).toContain('serverchan_bot_send_latency_seconds_count{account="metrics1"} 3');
+    });
+});
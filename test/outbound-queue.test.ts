@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ServerChanApiError } from "../src/api.js";
+import {
+    classifySendFailure,
+    getServerChanBotOutboundQueue,
+    listServerChanBotDeadLetters,
+    stopServerChanBotOutboundQueue,
+    type OutboundQueueItem,
+} from "../src/outbound-queue.js";
+import { installTestRuntime, waitFor, type TestRuntime } from "./harness.js";
+
+let runtime: TestRuntime;
+let accountCounter = 0;
+
+beforeEach(() => {
+    runtime = installTestRuntime();
+});
+
+afterEach(() => {
+    runtime.cleanup();
+});
+
+/** A queue for a fresh account whose sends are handled by `handle` */
+function createQueue(handle: (item: OutboundQueueItem) => Promise<void> | void) {
+    accountCounter += 1;
+    const accountId = `outbox${accountCounter}`;
+    const sent: string[] = [];
+    const queue = getServerChanBotOutboundQueue({
+        accountId,
+        send: async (item) => {
+            await handle(item);
+            sent.push(`${item.chatId}:${item.text}`);
+            return { ok: true, result: { message_id: sent.length, chat_id: Number(item.chatId), text: item.text } };
+        },
+    });
+    return { accountId, queue, sent };
+}
+
+describe("classifySendFailure", () => {
+    it("retries only what the API client marked retryable", () => {
+        const transient = new ServerChanApiError("sendMessage failed: HTTP 429", {
+            method: "sendMessage",
+            status: 429,
+            retryable: true,
+            retryAfterMs: 3000,
+        });
+        expect(classifySendFailure(transient)).toMatchObject({ transient: true, retryAfterMs: 3000 });
+        const rejected = new ServerChanApiError("sendMessage failed: chat not found", {
+            method: "sendMessage",
+            status: 400,
+            retryable: false,
+        });
+        expect(classifySendFailure(rejected).transient).toBe(false);
+    });
+
+    it("treats unrecognized errors as permanent", () => {
+        expect(classifySendFailure(new TypeError("Cannot read properties of undefined"))).toEqual({
+            transient: false,
+            error: "Cannot read properties of undefined",
+        });
+    });
+});
+
+describe("outbound queue", () => {
+    it("keeps sending to other chats while one chat waits to retry", async () => {
+        let failedOnce = false;
+        const { queue, sent } = createQueue((item) => {
+            if (item.chatId === "1" && !failedOnce) {
+                failedOnce = true;
+                throw new ServerChanApiError("sendMessage failed: HTTP 503", {
+                    method: "sendMessage",
+                    status: 503,
+                    retryable: true,
+                });
+            }
+        });
+
+        const first = queue.enqueue({ chatId: "1", text: "a" });
+        const second = queue.enqueue({ chatId: "1", text: "b" });
+        await queue.enqueue({ chatId: "2", text: "c" });
+        expect(sent).toEqual(["2:c"]);
+        expect(queue.stats().outboundQueueDepth).toBe(2);
+
+        await Promise.all([first, second]);
+        expect(sent).toEqual(["2:c", "1:a", "1:b"]);
+    });
+
+    it("dead-letters unrecognized errors without retrying", async () => {
+        let attempts = 0;
+        const { accountId, queue, sent } = createQueue((item) => {
+            if (item.text === "bad") {
+                attempts += 1;
+                throw new Error("media could not be read");
+            }
+        });
+
+        await expect(queue.enqueue({ chatId: "1", text: "bad" })).rejects.toThrow("media could not be read");
+        await queue.enqueue({ chatId: "1", text: "next" });
+
+        expect(attempts).toBe(1);
+        expect(sent).toEqual(["1:next"]);
+        expect(listServerChanBotDeadLetters(accountId)).toMatchObject([{ text: "bad", attempts: 1 }]);
+    });
+
+    it("stops retrying on stop and resumes the message with the next queue", async () => {
+        let attempts = 0;
+        const { accountId, queue, sent } = createQueue(() => {
+            attempts += 1;
+            throw new ServerChanApiError("sendMessage failed: HTTP 503", {
+                method: "sendMessage",
+                status: 503,
+                retryable: true,
+            });
+        });
+        const waiting = queue.enqueue({ chatId: "1", text: "later" });
+        await waitFor(() => attempts === 1);
+
+        await stopServerChanBotOutboundQueue(accountId);
+        await expect(waiting).rejects.toThrow(/stays queued/);
+        expect(attempts).toBe(1);
+        expect(sent).toEqual([]);
+
+        const resumed: string[] = [];
+        const next = getServerChanBotOutboundQueue({
+            accountId,
+            send: async (item) => {
+                resumed.push(item.text);
+                return { ok: true, result: { message_id: 1, chat_id: Number(item.chatId), text: item.text } };
+            },
+        });
+        expect(next).not.toBe(queue);
+        await next.enqueue({ chatId: "1", text: "after restart" });
+        expect(resumed).toEqual(["later", "after restart"]);
+        // The stopped queue never retried
+        expect(attempts).toBe(1);
+    });
+});
@@ -0,0 +1,20 @@
+/**
+ * Minimal stand-in for the runtime values this plugin imports from
+ * `openclaw/plugin-sdk` (aliased in vitest.config.ts)
+ */
+
+import { Type } from "@sinclair/typebox";
+
+export const DEFAULT_ACCOUNT_ID = "default";
+
+export function buildChannelConfigSchema(schema: unknown) {
+    return { schema };
+}
+
+export function jsonResult(payload: unknown) {
+    return { content: [{ type: "text", text: JSON.stringify(payload, null, 2) }], details: payload };
+}
+
+export function stringEnum<T extends readonly string[]>(values: T, options: { description?: string } = {}) {
+    return Type.Unsafe<T[number]>({ type: "string", enum: [...values], ...options });
+}
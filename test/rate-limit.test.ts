@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { checkServerChanBotInboundRate, describeServerChanBotInboundRate } from "../src/rate-limit.js";
+
+let accountCounter = 0;
+const nextAccountId = () => `rate${++accountCounter}`;
+
+describe("checkServerChanBotInboundRate", () => {
+    it("allows a chat's burst, then throttles until tokens refill", () => {
+        const accountId = nextAccountId();
+        const config = { enabled: true, chatBurst: 2, chatPerMinute: 60 };
+        const check = (now: number) =>
+            checkServerChanBotInboundRate({ accountId, chatId: "1", config, now }).action;
+
+        expect([check(0), check(0), check(0)]).toEqual(["allow", "allow", "throttle"]);
+        // 60 per minute refills one token per second
+        expect(check(500)).toBe("throttle");
+        expect(check(1000)).toBe("allow");
+        expect(describeServerChanBotInboundRate(accountId).inboundThrottledCount).toBe(2);
+    });
+
+    it("keeps chats apart but shares the account bucket", () => {
+        const accountId = nextAccountId();
+        const config = { enabled: true, chatBurst: 5, accountBurst: 3, accountPerMinute: 1 };
+        const results = ["1", "2", "3", "4"].map(
+            (chatId) => checkServerChanBotInboundRate({ accountId, chatId, config, now: 0 }),
+        );
+
+        expect(results.map((result) => result.action)).toEqual(["allow", "allow", "allow", "throttle"]);
+        expect(results[3]).toMatchObject({ scope: "account" });
+    });
+
+    it("notifies once per throttling episode", () => {
+        const accountId = nextAccountId();
+        const config = { enabled: true, chatBurst: 1, chatPerMinute: 60 };
+        const check = (now: number) => checkServerChanBotInboundRate({ accountId, chatId: "1", config, now });
+
+        check(0);
+        expect(check(0)).toMatchObject({ action: "throttle", notify: true });
+        expect(check(0)).toMatchObject({ action: "throttle", notify: false });
+        expect(check(1000).action).toBe("allow");
+        expect(check(1000)).toMatchObject({ action: "throttle", notify: true });
+    });
+
+    it("blocks a chat that keeps flooding", () => {
+        const accountId = nextAccountId();
+        const config = { enabled: true, chatBurst: 1, chatPerMinute: 1, blockAfter: 3, blockDurationMs: 60_000 };
+        const check = (now: number) => checkServerChanBotInboundRate({ accountId, chatId: "1", config, now });
+
+        check(0);
+        expect([check(1), check(2)].map((result) => result.action)).toEqual(["throttle", "throttle"]);
+        expect(check(3)).toMatchObject({ action: "block", until: 60_003 });
+        expect(check(30_000).action).toBe("block");
+        expect(describeServerChanBotInboundRate(accountId).inboundBlockedCount).toBe(1);
+    });
+
+    it.each([
+        ["disabled", { enabled: false, chatBurst: 1 }],
+        ["not enabled", { chatBurst: 1 }],
+        ["not configured", undefined],
+    ])("allows everything when %s", (_case, config) => {
+        const accountId = nextAccountId();
+        for (let i = 0; i < 5; i += 1) {
+            expect(checkServerChanBotInboundRate({ accountId, chatId: "1", config, now: 0 }).action).toBe("allow");
+        }
+    });
+});
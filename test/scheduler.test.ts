@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+    getServerChanBotScheduler,
+    type ScheduledJob,
+    type ServerChanBotCatchUpPolicy,
+} from "../src/scheduler.js";
+import { resolveAccountStatePath, writeJsonStateFile } from "../src/state.js";
+import { installTestRuntime, waitFor, type TestRuntime } from "./harness.js";
+
+let runtime: TestRuntime;
+let stops: Array<() => Promise<void>>;
+let accountCounter = 0;
+
+beforeEach(() => {
+    runtime = installTestRuntime();
+    stops = [];
+});
+
+afterEach(async () => {
+    await Promise.all(stops.map((stop) => stop()));
+    runtime.cleanup();
+});
+
+function nextAccountId() {
+    accountCounter += 1;
+    return `sched${accountCounter}`;
+}
+
+/** A started scheduler (for a fresh account by default) that records what it sends */
+function startScheduler(params: {
+    accountId?: string;
+    catchUp?: ServerChanBotCatchUpPolicy;
+    send?: (job: ScheduledJob) => Promise<void>;
+}) {
+    const accountId = params.accountId ?? nextAccountId();
+    const sent: ScheduledJob[] = [];
+    const scheduler = getServerChanBotScheduler({
+        accountId,
+        options: {
+            catchUp: params.catchUp,
+            send: async (job) => {
+                await params.send?.(job);
+                sent.push(job);
+                return { messageId: String(sent.length) };
+            },
+        },
+    });
+    const stop = scheduler.start();
+    stops.push(stop);
+    return { accountId, scheduler, sent, stop };
+}
+
+describe("scheduler", () => {
+    it("delivers a one-shot message at sendAt", async () => {
+        const { scheduler, sent } = startScheduler({});
+        const job = await scheduler.schedule({ chatId: "1", text: "ping", sendAt: Date.now() + 50 });
+
+        await waitFor(() => sent.length === 1);
+        const [finished] = await scheduler.list({ includeFinished: true });
+        expect(finished).toMatchObject({ id: job.id, state: "done", runs: 1, nextRunAt: null });
+        expect(await scheduler.list()).toEqual([]);
+    });
+
+    it("validates sendAt and cron", async () => {
+        const { scheduler } = startScheduler({});
+        await expect(scheduler.schedule({ chatId: "1", text: "x" })).rejects.toThrow(/exactly one/);
+        await expect(scheduler.schedule({ chatId: "1", text: "x", sendAt: Date.now() - 3_600_000 })).rejects.toThrow(
+            /in the past/,
+        );
+        await expect(scheduler.schedule({ chatId: "1", text: "x", cron: "0 0 31 2 *" })).rejects.toThrow(
+            /never fires/,
+        );
+    });
+
+    it("cancels an active job only once", async () => {
+        const { scheduler, sent } = startScheduler({});
+        const job = await scheduler.schedule({ chatId: "1", text: "later", sendAt: Date.now() + 60_000 });
+
+        expect(await scheduler.cancel(job.id)).toMatchObject({ state: "cancelled", nextRunAt: null });
+        expect(await scheduler.cancel(job.id)).toBeNull();
+        expect(await scheduler.list()).toEqual([]);
+        expect(sent).toEqual([]);
+    });
+
+    it("waits for a run still sending when stopped", async () => {
+        let release!: () => void;
+        const sending = new Promise<void>((resolve) => {
+            release = resolve;
+        });
+        let started = false;
+        const { scheduler, sent, stop } = startScheduler({
+            send: async () => {
+                started = true;
+                await sending;
+            },
+        });
+        await scheduler.schedule({ chatId: "1", text: "slow", sendAt: Date.now() + 20 });
+        await waitFor(() => started);
+
+        let stopped = false;
+        const stopping = stop().then(() => {
+            stopped = true;
+        });
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        expect(stopped).toBe(false);
+
+        release();
+        await stopping;
+        expect(sent).toHaveLength(1);
+        const [job] = await scheduler.list({ includeFinished: true });
+        expect(job.history).toHaveLength(1);
+        expect(job.history[0].ok).toBe(true);
+    });
+
+    it.each([
+        ["skip", "missed", 0],
+        ["once", "done", 1],
+    ] as const)("applies catch-up %s to a one-shot job missed while stopped", async (policy, state, delivered) => {
+        const accountId = nextAccountId();
+        const missedAt = Date.now() - 10 * 60_000;
+        const job: ScheduledJob = {
+            id: "missed-job",
+            chatId: "1",
+            text: "while you were away",
+            sendAt: missedAt,
+            state: "scheduled",
+            nextRunAt: missedAt,
+            createdAt: missedAt - 60_000,
+            updatedAt: missedAt - 60_000,
+            runs: 0,
+            history: [],
+        };
+        await writeJsonStateFile(resolveAccountStatePath(accountId, "schedule.json"), { jobs: [job] });
+
+        const { scheduler, sent, stop } = startScheduler({ accountId, catchUp: policy });
+        // Catch-up runs as soon as the file is loaded; stopping waits for its delivery
+        await scheduler.list();
+        await stop();
+        const [finished] = await scheduler.list({ includeFinished: true });
+
+        expect(finished.state).toBe(state);
+        expect(sent).toHaveLength(delivered);
+    });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import {
+    acquireServerChanBotSendSlot,
+    deferServerChanBotSends,
+    estimateServerChanBotSendDelayMs,
+} from "../src/send-limiter.js";
+
+let tokenCounter = 0;
+const nextToken = () => `limiter-token-${++tokenCounter}`;
+
+describe("send limiter", () => {
+    it("lets a burst through, then spaces sends at the sustained rate", async () => {
+        const botToken = nextToken();
+        const config = { perSecond: 20, burst: 2 };
+
+        const waits = [];
+        for (let i = 0; i < 3; i += 1) {
+            waits.push(await acquireServerChanBotSendSlot({ botToken, config }));
+        }
+        expect(waits[0]).toBeLessThan(20);
+        expect(waits[1]).toBeLessThan(20);
+        // One token refills every 50ms
+        expect(waits[2]).toBeGreaterThanOrEqual(40);
+    });
+
+    it("fails fast with a retry hint when the wait exceeds maxWaitMs", async () => {
+        const botToken = nextToken();
+        const config = { perSecond: 1, burst: 1 };
+        await acquireServerChanBotSendSlot({ botToken, config });
+
+        await expect(acquireServerChanBotSendSlot({ botToken, config, maxWaitMs: 100 })).rejects.toMatchObject({
+            retryable: true,
+            retryAfterMs: expect.any(Number),
+        });
+    });
+
+    it("holds every send for a token after a retry-after hint", async () => {
+        const botToken = nextToken();
+        await acquireServerChanBotSendSlot({ botToken });
+        deferServerChanBotSends(botToken, 100);
+
+        expect(estimateServerChanBotSendDelayMs(botToken)).toBeGreaterThan(50);
+        expect(await acquireServerChanBotSendSlot({ botToken })).toBeGreaterThanOrEqual(90);
+    });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { ServerChanApiError } from "../src/api.js";
+import {
+    isMarkdownRejection,
+    sendServerChanBotMedia,
+    sendServerChanBotText,
+    type ServerChanBotMediaLoader,
+} from "../src/send.js";
+import { startFakeServerChanBotApi, type FakeServerChanBotApi } from "./fake-api-server.js";
+
+const apiError = (description: string, status = 400, retryable = false) =>
+    new ServerChanApiError(`sendMessage failed: ${description}`, { method: "sendMessage", status, retryable });
+
+describe("isMarkdownRejection", () => {
+    it.each([
+        "Bad Request: can't parse entities: Can't find end of the entity starting at byte offset 12",
+        "Bad Request: unsupported markdown",
+    ])("matches %s", (description) => {
+        expect(isMarkdownRejection(apiError(description))).toBe(true);
+    });
+
+    it.each([
+        "Bad Request: message is not modified",
+        "Bad Request: chat not found",
+        "Bad Request: message text is empty",
+    ])("ignores %s", (description) => {
+        expect(isMarkdownRejection(apiError(description))).toBe(false);
+    });
+
+    it("ignores retryable and non-400 failures", () => {
+        expect(isMarkdownRejection(apiError("can't parse entities", 502, true))).toBe(false);
+        expect(isMarkdownRejection(apiError("can't parse entities", 403))).toBe(false);
+        expect(isMarkdownRejection(new Error("can't parse entities"))).toBe(false);
+    });
+});
+
+describe("markdown fallback", () => {
+    let fake: FakeServerChanBotApi;
+    let errors: string[];
+
+    beforeEach(async () => {
+        fake = await startFakeServerChanBotApi();
+        errors = [];
+    });
+
+    afterEach(async () => {
+        await fake.close();
+    });
+
+    const send = () =>
+        sendServerChanBotText({
+            accountId: "markdown",
+            botToken: fake.token,
+            apiBaseUrl: fake.baseUrl,
+            chatId: "30001",
+            text: "**done**",
+            parseMode: "markdown",
+            log: { error: (message) => errors.push(message) },
+        });
+
+    it.each([
+        ["error", { error: "Bad Request: can't parse entities: unexpected end of bold" }],
+        ["description", { description: "Bad Request: can't parse entities: unexpected end of bold" }],
+    ])("resends as plain text when the API reports the parse error in %s", async (_field, failure) => {
+        fake.failNext("sendMessage", { status: 400, ...failure });
+
+        await send();
+        expect(fake.sentMessages).toHaveLength(1);
+        expect(fake.sentMessages[0].text).toBe("done");
+        expect(fake.sentMessages[0].parse_mode).not.toBe("markdown");
+    });
+
+    it("logs other 400s instead of resending them", async () => {
+        fake.failNext("sendMessage", { status: 400, error: "Bad Request: chat not found" });
+
+        await expect(send()).rejects.toThrow("sendMessage failed: Bad Request: chat not found");
+        expect(fake.sentMessages).toEqual([]);
+        expect(errors).toEqual([expect.stringContaining("not a known markdown error")]);
+    });
+});
+
+describe("media", () => {
+    let fake: FakeServerChanBotApi;
+
+    beforeEach(async () => {
+        fake = await startFakeServerChanBotApi();
+    });
+
+    afterEach(async () => {
+        await fake.close();
+    });
+
+    const loadImage: ServerChanBotMediaLoader = async () => ({
+        buffer: Buffer.from("png"),
+        contentType: "image/png",
+        kind: "image",
+    });
+
+    const send = (mediaUrl: string, loadMedia: ServerChanBotMediaLoader) =>
+        sendServerChanBotMedia({
+            accountId: "media",
+            botToken: fake.token,
+            apiBaseUrl: fake.baseUrl,
+            chatId: "30002",
+            mediaUrl,
+            caption: "chart",
+            loadMedia,
+            log: { error: () => {} },
+        });
+
+    it("uploads images as photos and other files as documents", async () => {
+        await send("https://example.com/chart.png", loadImage);
+        await send("https://example.com/report.pdf", async () => ({
+            buffer: Buffer.from("%PDF"),
+            contentType: "application/pdf",
+            kind: "document",
+        }));
+
+        expect(fake.sentMessages).toMatchObject([
+            { text: "chart", media: { type: "photo", file_name: "chart.png" } },
+            { text: "chart", media: { type: "document", file_name: "report.pdf" } },
+        ]);
+    });
+
+    it("sends a link when the media cannot be loaded or uploaded", async () => {
+        await send("https://example.com/missing.png", async () => {
+            throw new Error("404 Not Found");
+        });
+        fake.failNext("sendPhoto", { status: 400, error: "Bad Request: PHOTO_INVALID_DIMENSIONS" });
+        await send("https://example.com/chart.png", loadImage);
+
+        expect(fake.sentMessages.map((message) => message.text)).toEqual([
+            "chart\n\n📎 https://example.com/missing.png",
+            "chart\n\n📎 https://example.com/chart.png",
+        ]);
+        expect(fake.sentMessages.every((message) => !message.media)).toBe(true);
+    });
+});
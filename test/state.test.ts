@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { readJsonStateFile, readLastUpdateId, resolveAccountStatePath, trackServerChanBotUpdate } from "../src/state.js";
+import { installTestRuntime, type TestRuntime } from "./harness.js";
+
+let runtime: TestRuntime;
+
+beforeEach(() => {
+    runtime = installTestRuntime();
+});
+
+afterEach(() => {
+    runtime.cleanup();
+});
+
+describe("trackServerChanBotUpdate", () => {
+    it("confirms only up to the oldest update still in flight", async () => {
+        const accountId = "watermark1";
+        const complete = new Map([100, 101, 102, 105].map((id) => [id, trackServerChanBotUpdate(accountId, id)]));
+
+        await complete.get(101)?.();
+        await complete.get(105)?.();
+        expect(await readLastUpdateId(accountId)).toBeUndefined();
+
+        await complete.get(100)?.();
+        expect(await readLastUpdateId(accountId)).toBe(101);
+
+        await complete.get(102)?.();
+        expect(await readLastUpdateId(accountId)).toBe(105);
+        const saved = await readJsonStateFile<{ lastUpdateId?: number }>(resolveAccountStatePath(accountId));
+        expect(saved?.lastUpdateId).toBe(105);
+    });
+
+    it("never moves the offset backwards", async () => {
+        const accountId = "watermark2";
+        await trackServerChanBotUpdate(accountId, 50)();
+        const late = trackServerChanBotUpdate(accountId, 40);
+        await late();
+        await late();
+        expect(await readLastUpdateId(accountId)).toBe(50);
+    });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { collectServerChanBotStatusIssues, type ServerChanBotAccountSnapshot } from "../src/status-issues.js";
+
+const account = (snapshot: Partial<ServerChanBotAccountSnapshot>): ServerChanBotAccountSnapshot => ({
+    accountId: "default",
+    configured: true,
+    enabled: true,
+    running: true,
+    ...snapshot,
+});
+
+describe("status issues", () => {
+    it("reports a missing token as a config error and skips other checks", () => {
+        const issues = collectServerChanBotStatusIssues([account({ configured: false, pollingConsecutiveFailures: 20 })]);
+        expect(issues).toHaveLength(1);
+        expect(issues[0]).toMatchObject({
+            kind: "config",
+            severity: "error",
+            message: "[error] Server酱³ Bot token not configured",
+        });
+    });
+
+    it("escalates polling failures from warning to error", () => {
+        const [warning] = collectServerChanBotStatusIssues([account({ pollingConsecutiveFailures: 3 })]);
+        const [error] = collectServerChanBotStatusIssues([
+            account({ pollingConsecutiveFailures: 10, lastError: "getUpdates failed: Bad Gateway" }),
+        ]);
+        expect(warning).toMatchObject({ severity: "warning", kind: "runtime" });
+        expect(error).toMatchObject({
+            severity: "error",
+            message: "[error] Polling has failed 10 times in a row: getUpdates failed: Bad Gateway",
+        });
+        expect(collectServerChanBotStatusIssues([account({ pollingConsecutiveFailures: 2 })])).toEqual([]);
+    });
+
+    it("warns about inbound silence past the configured threshold", () => {
+        const now = 10 * 3_600_000;
+        const issues = collectServerChanBotStatusIssues(
+            [account({ inboundIdleWarningMs: 3_600_000, lastInboundAt: now - 3 * 3_600_000 })],
+            now,
+        );
+        expect(issues.map((issue) => issue.message)).toEqual(["[warning] No inbound messages for 3h (threshold 60m)"]);
+    });
+
+    it("flags webhook paths shared by accounts without secrets", () => {
+        const issues = collectServerChanBotStatusIssues([
+            account({ accountId: "a", receiveMode: "webhook", webhookPath: "/hook", webhookSecretConfigured: true }),
+            account({ accountId: "b", receiveMode: "webhook", webhookPath: "/hook", webhookSecretConfigured: true }),
+        ]);
+        expect(issues).toHaveLength(2);
+        expect(issues.every((issue) => issue.severity === "warning")).toBe(true);
+        expect(issues[0]?.message).toBe("[warning] Webhook path /hook is shared by accounts a, b");
+
+        const unsigned = collectServerChanBotStatusIssues([
+            account({ accountId: "a", receiveMode: "webhook", webhookPath: "/hook" }),
+            account({ accountId: "b", receiveMode: "webhook", webhookPath: "/hook" }),
+        ]);
+        expect(unsigned.filter((issue) => issue.severity === "error")).toHaveLength(2);
+    });
+});
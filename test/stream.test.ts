@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { ServerChanApiError } from "../src/api.js";
+import { createServerChanBotReplyStream } from "../src/stream.js";
+
+/** A stream whose edits fail with `status` until `editFails` is cleared */
+function createStream(status?: number) {
+    const sent: string[] = [];
+    const edits: string[] = [];
+    const state = { editFails: status !== undefined };
+    const stream = createServerChanBotReplyStream({
+        accountId: "stream",
+        limit: 1000,
+        intervalMs: 0,
+        send: async (text) => {
+            sent.push(text);
+            return sent.length;
+        },
+        edit: async (_messageId, text) => {
+            if (state.editFails) {
+                throw new ServerChanApiError(`editMessageText failed: HTTP ${status}`, {
+                    method: "editMessageText",
+                    status,
+                    retryable: false,
+                });
+            }
+            edits.push(text);
+        },
+    });
+    return { stream, sent, edits, state };
+}
+
+describe("reply stream", () => {
+    it("appends blocks to one message", async () => {
+        const { stream, sent, edits } = createStream();
+        await stream.push("one");
+        await stream.push("two");
+        await stream.finish();
+
+        expect(sent).toEqual(["one"]);
+        expect(edits).toEqual(["one\n\ntwo"]);
+        expect(stream.text()).toBe("one\n\ntwo");
+    });
+
+    it("sends the rest of the reply separately when edits are not supported", async () => {
+        const { stream, sent, edits } = createStream(405);
+        await stream.push("one");
+        await stream.push("two");
+        await stream.finish();
+        await stream.push("three");
+        await stream.finish();
+
+        expect(sent).toEqual(["one", "two", "three"]);
+        expect(edits).toEqual([]);
+    });
+
+    it("keeps editing in the next reply after a 405", async () => {
+        const first = createStream(405);
+        await first.stream.push("one");
+        await first.stream.push("two");
+        await first.stream.finish();
+
+        const next = createStream();
+        await next.stream.push("three");
+        await next.stream.push("four");
+        await next.stream.finish();
+        expect(next.edits).toEqual(["three\n\nfour"]);
+    });
+
+    it("does not give up on edits after a 404", async () => {
+        const { stream, sent, edits, state } = createStream(404);
+        await stream.push("one");
+        await stream.push("two");
+        await stream.finish();
+        expect(sent).toEqual(["one", "two"]);
+
+        state.editFails = false;
+        await stream.push("three");
+        await stream.push("four");
+        await stream.finish();
+        expect(sent).toEqual(["one", "two", "three"]);
+        expect(edits).toEqual(["three\n\nfour"]);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+    WEBHOOK_NONCE_HEADER,
+    WEBHOOK_SIGNATURE_HEADER,
+    WEBHOOK_TIMESTAMP_HEADER,
+    signWebhookPayload,
+    verifyWebhookSignature,
+} from "../src/api.js";
+
+const secret = "hmac-secret";
+const body = JSON.stringify({ ok: true, update_id: 1 });
+const now = 1_700_000_000_000;
+const timestamp = String(now / 1000);
+
+const verify = (headers: Record<string, string>, rawBody = body) =>
+    verifyWebhookSignature({ headers, rawBody, secret, maxSkewMs: 300_000, now });
+
+describe("verifyWebhookSignature", () => {
+    it("accepts a valid signature", () => {
+        const signature = signWebhookPayload(secret, timestamp, body);
+        const result = verify({ [WEBHOOK_SIGNATURE_HEADER]: signature, [WEBHOOK_TIMESTAMP_HEADER]: timestamp });
+
+        expect(result).toEqual({ ok: true, replayKey: `sig:${signature}` });
+    });
+
+    it("rejects a tampered body, a wrong secret and missing headers", () => {
+        const signature = signWebhookPayload(secret, timestamp, body);
+        const headers = { [WEBHOOK_SIGNATURE_HEADER]: signature, [WEBHOOK_TIMESTAMP_HEADER]: timestamp };
+
+        expect(verify(headers, body.replace("1", "2"))).toMatchObject({ ok: false, reason: "signature mismatch" });
+        expect(
+            verify({ ...headers, [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload("other", timestamp, body) }),
+        ).toMatchObject({ ok: false });
+        expect(verify({ [WEBHOOK_TIMESTAMP_HEADER]: timestamp })).toMatchObject({ ok: false });
+    });
+
+    it("rejects timestamps outside the allowed skew", () => {
+        const stale = String(now / 1000 - 301);
+        const result = verify({
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, stale, body),
+            [WEBHOOK_TIMESTAMP_HEADER]: stale,
+        });
+
+        expect(result).toMatchObject({ ok: false, reason: "timestamp outside allowed clock skew" });
+    });
+
+    it("binds the nonce into the signature", () => {
+        const signature = signWebhookPayload(secret, timestamp, body, "nonce-1");
+        const headers = {
+            [WEBHOOK_SIGNATURE_HEADER]: signature,
+            [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+            [WEBHOOK_NONCE_HEADER]: "nonce-1",
+        };
+
+        expect(verify(headers)).toEqual({ ok: true, replayKey: `sig:${signature}` });
+        // A replay can't get a fresh replay key by swapping or dropping the nonce
+        expect(verify({ ...headers, [WEBHOOK_NONCE_HEADER]: "nonce-2" })).toMatchObject({ ok: false });
+        const { [WEBHOOK_NONCE_HEADER]: _dropped, ...withoutNonce } = headers;
+        expect(verify(withoutNonce)).toMatchObject({ ok: false });
+    });
+});
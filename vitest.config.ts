@@ -0,0 +1,15 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    resolve: {
+        alias: {
+            // The host package is only present inside an OpenClaw install; tests use a shim
+            "openclaw/plugin-sdk": fileURLToPath(new URL("./test/plugin-sdk.ts", import.meta.url)),
+        },
+    },
+    test: {
+        include: ["test/**/*.test.ts"],
+        testTimeout: 15_000,
+    },
+});